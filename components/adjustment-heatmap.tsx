@@ -4,12 +4,25 @@ import { useMemo } from "react"
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import type { Counterparty } from "@/lib/types"
 
-export function AdjustmentHeatmap({ counterparties }) {
+// RWA adjustment summary for a single counterparty
+export interface AdjustmentHeatmapEntry extends Pick<Counterparty, "id" | "name" | "industry" | "region"> {
+  adjustmentPercentage: number
+  hasAdjustment?: boolean
+  hasCounterpartyAdjustment?: boolean
+  hasPortfolioAdjustment?: boolean
+}
+
+interface AdjustmentHeatmapProps {
+  counterparties: AdjustmentHeatmapEntry[]
+}
+
+export function AdjustmentHeatmap({ counterparties }: AdjustmentHeatmapProps) {
   // Group counterparties by industry and region
   const groupedData = useMemo(() => {
-    const byIndustry = {}
-    const byRegion = {}
+    const byIndustry: Record<string, AdjustmentHeatmapEntry[]> = {}
+    const byRegion: Record<string, AdjustmentHeatmapEntry[]> = {}
 
     // Filter only counterparties with adjustments (either type)
     const adjustedCounterparties = counterparties.filter(
@@ -36,7 +49,7 @@ export function AdjustmentHeatmap({ counterparties }) {
   }, [counterparties])
 
   // Get color based on adjustment percentage
-  const getAdjustmentColor = (percentage) => {
+  const getAdjustmentColor = (percentage: number) => {
     const absPercentage = Math.abs(percentage)
 
     if (percentage > 0) {
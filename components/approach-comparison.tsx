@@ -0,0 +1,72 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import type { OutputFloorResult, StandardisedResult } from "@/lib/types"
+
+interface ApproachComparisonProps {
+  title: string
+  description: string
+  floorResult: OutputFloorResult
+  // SA details, shown for a single counterparty
+  standardised?: StandardisedResult
+}
+
+// Side-by-side IRB, SA and output-floored RWA
+export function ApproachComparison({ title, description, floorResult, standardised }: ApproachComparisonProps) {
+  const { irbRwa, saRwa, floor, floorRwa, flooredRwa, floorAddOn, isFloorBinding } = floorResult
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>{title}</CardTitle>
+          <Badge
+            variant="outline"
+            className={
+              isFloorBinding
+                ? "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200"
+                : "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+            }
+          >
+            {isFloorBinding ? "Output floor binding" : "Output floor not binding"}
+          </Badge>
+        </div>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <div className="text-sm font-medium">IRB RWA</div>
+            <div className="text-2xl font-bold">${Math.round(irbRwa).toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">Internal ratings-based approach</p>
+          </div>
+          <div className="space-y-1">
+            <div className="text-sm font-medium">SA RWA</div>
+            <div className="text-2xl font-bold">${Math.round(saRwa).toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">
+              {standardised
+                ? `${standardised.exposureClass === "bank" ? "Bank" : "Corporate"} | ${standardised.ratingBucket} | RW ${(
+                    standardised.riskWeight * 100
+                  ).toFixed(0)}%`
+                : "Standardised approach"}
+            </p>
+          </div>
+          <div className="space-y-1">
+            <div className="text-sm font-medium">Floored RWA</div>
+            <div className="text-2xl font-bold">${Math.round(flooredRwa).toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">
+              max(IRB, {(floor * 100).toFixed(1)}% x SA = ${Math.round(floorRwa).toLocaleString()})
+            </p>
+          </div>
+        </div>
+        {isFloorBinding && (
+          <p className="text-sm text-muted-foreground mt-4">
+            The output floor adds ${Math.round(floorAddOn).toLocaleString()} (
+            {irbRwa > 0 ? ((floorAddOn / irbRwa) * 100).toFixed(2) : "0.00"}%) to IRB RWA.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,82 @@
+"use client"
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import type { CalculationTraceStage, CalculationTraceStep, TraceValue } from "@/lib/types"
+
+interface CalculationTraceProps {
+  steps: CalculationTraceStep[]
+}
+
+const TRACE_STAGE_LABELS: Record<CalculationTraceStage, string> = {
+  input: "Input",
+  default: "Defaults",
+  pd: "PD",
+  correlation: "Correlation",
+  capital: "Capital",
+  adjustment: "Adjustment",
+  result: "Result",
+}
+
+// Amounts are shown in full, rates and factors to six significant digits
+const formatTraceValue = (value: TraceValue) => {
+  if (value === null) return "-"
+  if (typeof value === "boolean") return value ? "Yes" : "No"
+  if (typeof value === "string") return value
+  return Math.abs(value) >= 1000 ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : value.toPrecision(6)
+}
+
+const formatCurrency = (value: number) => `$${Math.round(value).toLocaleString()}`
+
+// Step-by-step record of how calculateRWA built the result, in the order the steps ran
+export function CalculationTrace({ steps }: CalculationTraceProps) {
+  if (steps.length === 0) {
+    return <p className="text-sm text-muted-foreground">No calculation steps were recorded.</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {steps.map((step, index) => (
+        <div key={`${step.stage}-${index}`} className="rounded-md border p-4 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground font-mono">{index + 1}</span>
+              <h4 className="font-medium">{step.label}</h4>
+            </div>
+            <Badge variant="outline">{TRACE_STAGE_LABELS[step.stage]}</Badge>
+          </div>
+
+          {step.before !== undefined && step.after !== undefined && (
+            <div className="text-sm">
+              RWA {formatCurrency(step.before)} → {formatCurrency(step.after)}
+              <span className="text-muted-foreground">
+                {" "}
+                ({step.after - step.before >= 0 ? "+" : "-"}
+                {formatCurrency(Math.abs(step.after - step.before))})
+              </span>
+            </div>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Value</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {Object.entries(step.values)
+                .filter((entry): entry is [string, TraceValue] => entry[1] !== undefined)
+                .map(([name, value]) => (
+                  <TableRow key={name}>
+                    <TableCell className="font-mono text-xs">{name}</TableCell>
+                    <TableCell className="text-right font-mono text-xs">{formatTraceValue(value)}</TableCell>
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+        </div>
+      ))}
+    </div>
+  )
+}
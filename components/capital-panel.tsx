@@ -0,0 +1,218 @@
+"use client"
+
+import { useMemo } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { calculateCapitalRatios, CAPITAL_TIER_LABELS, MAX_COUNTERCYCLICAL_BUFFER } from "@/lib/capital-ratios"
+import type { CapitalBufferSettings, CapitalResources, CapitalTier, ProvisionCapitalResult } from "@/lib/types"
+
+interface CapitalPanelProps {
+  // Total RWA the ratios are measured against
+  rwa: number
+  rwaByRegion: Record<string, number>
+  provisionCapital?: ProvisionCapitalResult
+  // Held by the dashboard so the stress projection uses the same capital
+  resources: CapitalResources
+  buffers: CapitalBufferSettings
+  onResourcesChange: (resources: CapitalResources) => void
+  onBuffersChange: (buffers: CapitalBufferSettings) => void
+}
+
+// Parse a number input, treating an empty or invalid entry as zero
+const parseAmount = (value: string) => {
+  const parsed = Number.parseFloat(value)
+  return isNaN(parsed) ? 0 : parsed
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`
+
+// Show a stored rate as a percent input without floating point noise such as 1.0999999999999999
+const toPercentInput = (value: number) => Number((value * 100).toFixed(4))
+
+// Capital ratios against the live portfolio RWA, with editable capital resources and buffers
+export function CapitalPanel({
+  rwa,
+  rwaByRegion,
+  provisionCapital,
+  resources,
+  buffers,
+  onResourcesChange,
+  onBuffersChange,
+}: CapitalPanelProps) {
+  const capitalRatios = useMemo(
+    () => calculateCapitalRatios(resources, buffers, rwa, rwaByRegion, provisionCapital),
+    [resources, buffers, rwa, rwaByRegion, provisionCapital],
+  )
+
+  const updateResource = (key: keyof CapitalResources, value: string) => {
+    onResourcesChange({ ...resources, [key]: parseAmount(value) })
+  }
+
+  // Buffer rates are entered in percent and stored as shares of RWA
+  const updateBuffer = (key: "conservationBuffer" | "systemicBuffer", value: string) => {
+    onBuffersChange({ ...buffers, [key]: parseAmount(value) / 100 })
+  }
+
+  const updateCountercyclicalRate = (region: string, value: string) => {
+    const rate = Math.min(MAX_COUNTERCYCLICAL_BUFFER, Math.max(0, parseAmount(value) / 100))
+    onBuffersChange({ ...buffers, countercyclicalRates: { ...buffers.countercyclicalRates, [region]: rate } })
+  }
+
+  const isAnyBreached = Object.values(capitalRatios.ratios).some((line) => line.isBreached)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Capital Ratios</CardTitle>
+          <Badge
+            variant="outline"
+            className={
+              isAnyBreached
+                ? "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
+                : "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+            }
+          >
+            {isAnyBreached ? "Below requirement" : "Above requirement"}
+          </Badge>
+        </div>
+        <CardDescription>
+          Capital resources against ${Math.round(rwa).toLocaleString()} of portfolio RWA, including the combined buffer
+          of {formatPercent(capitalRatios.combinedBuffer)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="capital-cet1">CET1 Capital ($)</Label>
+            <Input
+              id="capital-cet1"
+              type="number"
+              min={0}
+              value={resources.cet1}
+              onChange={(e) => updateResource("cet1", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="capital-at1">Additional Tier 1 ($)</Label>
+            <Input
+              id="capital-at1"
+              type="number"
+              min={0}
+              value={resources.additionalTier1}
+              onChange={(e) => updateResource("additionalTier1", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="capital-tier2">Tier 2 Capital ($)</Label>
+            <Input
+              id="capital-tier2"
+              type="number"
+              min={0}
+              value={resources.tier2}
+              onChange={(e) => updateResource("tier2", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="capital-conservation">Conservation Buffer (%)</Label>
+            <Input
+              id="capital-conservation"
+              type="number"
+              min={0}
+              step={0.1}
+              value={toPercentInput(buffers.conservationBuffer)}
+              onChange={(e) => updateBuffer("conservationBuffer", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="capital-systemic">G-SIB / D-SIB Buffer (%)</Label>
+            <Input
+              id="capital-systemic"
+              type="number"
+              min={0}
+              step={0.5}
+              value={toPercentInput(buffers.systemicBuffer)}
+              onChange={(e) => updateBuffer("systemicBuffer", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Countercyclical Buffer</Label>
+            <div className="p-2 border rounded-md bg-muted">
+              {formatPercent(capitalRatios.countercyclicalBuffer)} (RWA-weighted)
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Countercyclical Buffer Rates by Region (%)</h4>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {Object.keys(rwaByRegion).map((region) => (
+              <div key={region} className="space-y-1">
+                <Label htmlFor={`ccyb-${region}`} className="text-xs">
+                  {region}
+                </Label>
+                <Input
+                  id={`ccyb-${region}`}
+                  type="number"
+                  min={0}
+                  max={MAX_COUNTERCYCLICAL_BUFFER * 100}
+                  step={0.25}
+                  value={toPercentInput(buffers.countercyclicalRates[region] ?? 0)}
+                  onChange={(e) => updateCountercyclicalRate(region, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tier</TableHead>
+              <TableHead>Capital</TableHead>
+              <TableHead>Ratio</TableHead>
+              <TableHead>Minimum</TableHead>
+              <TableHead>Requirement incl. Buffers</TableHead>
+              <TableHead>Headroom</TableHead>
+              <TableHead>Headroom (pp)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {(Object.keys(capitalRatios.ratios) as CapitalTier[]).map((tier) => {
+              const line = capitalRatios.ratios[tier]
+              const headroomClass = line.isBreached
+                ? "text-red-600 dark:text-red-400"
+                : "text-green-600 dark:text-green-400"
+              return (
+                <TableRow key={tier}>
+                  <TableCell className="font-medium">{CAPITAL_TIER_LABELS[tier]}</TableCell>
+                  <TableCell>${Math.round(line.capital).toLocaleString()}</TableCell>
+                  <TableCell className="font-medium">{formatPercent(line.ratio)}</TableCell>
+                  <TableCell>{formatPercent(line.minimum)}</TableCell>
+                  <TableCell>{formatPercent(line.requirement)}</TableCell>
+                  <TableCell className={headroomClass}>
+                    {line.headroom >= 0 ? "+" : "-"}${Math.abs(Math.round(line.headroom)).toLocaleString()}
+                  </TableCell>
+                  <TableCell className={headroomClass}>
+                    {line.ratioHeadroom >= 0 ? "+" : ""}
+                    {(line.ratioHeadroom * 100).toFixed(2)} pp
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+
+        {provisionCapital && (provisionCapital.cet1Deduction > 0 || provisionCapital.tier2AddBack > 0) && (
+          <p className="text-sm text-muted-foreground">
+            CET1 is net of the ${Math.round(provisionCapital.cet1Deduction).toLocaleString()} provision shortfall and
+            Tier 2 includes ${Math.round(provisionCapital.tier2AddBack).toLocaleString()} of excess provisions.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -7,10 +7,34 @@ import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Slider } from "@/components/ui/slider"
 import { getCreditRatings } from "@/lib/credit-ratings"
+import { DEFAULT_REASON_LABELS } from "@/lib/default-calculator"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { AlertCircle, Info } from "lucide-react"
+import type { Counterparty, DefaultReason } from "@/lib/types"
+
+// Fields returned by the credit review and merged into the counterparty
+export interface CreditReviewData {
+  rating: string
+  pd: number
+  pdOverride: boolean
+  notes: string
+  reviewDate: string
+  // Default status; the date, reason and ELBE are cleared when the counterparty is not in default
+  isDefaulted: boolean
+  defaultDate?: string
+  defaultReason?: DefaultReason
+  elbe?: number
+}
+
+interface CreditReviewDialogProps {
+  counterparty: Counterparty
+  onComplete?: (data: CreditReviewData) => void
+  onSave?: (data: CreditReviewData) => void
+  onCancel?: () => void
+  onDiscard?: () => void
+}
 
 export function CreditReviewDialog({
   counterparty,
@@ -18,7 +42,7 @@ export function CreditReviewDialog({
   onSave = () => {},
   onCancel = () => {},
   onDiscard = () => {},
-}) {
+}: CreditReviewDialogProps) {
   const [rating, setRating] = useState(counterparty?.rating || "BBB")
 
   // Initialize PD with a safe default
@@ -30,8 +54,13 @@ export function CreditReviewDialog({
   const [pd, setPd] = useState(getInitialPd())
   const [pdOverride, setPdOverride] = useState(false)
   const [notes, setNotes] = useState("")
+  const [isDefaulted, setIsDefaulted] = useState(false)
+  const [defaultDate, setDefaultDate] = useState("")
+  const [defaultReason, setDefaultReason] = useState<DefaultReason | "">("")
+  // ELBE as entered, in percent
+  const [elbeInput, setElbeInput] = useState("")
   const [error, setError] = useState("")
-  const [creditRatings, setCreditRatings] = useState([])
+  const [creditRatings, setCreditRatings] = useState<ReturnType<typeof getCreditRatings>>([])
 
   // Load credit ratings on component mount
   useEffect(() => {
@@ -47,6 +76,11 @@ export function CreditReviewDialog({
       setPd(isNaN(pdValue) ? 0.01 : pdValue)
 
       setPdOverride(counterparty.pdOverride || false)
+
+      setIsDefaulted(counterparty.isDefaulted || counterparty.rating === "D")
+      setDefaultDate(counterparty.defaultDate || "")
+      setDefaultReason(counterparty.defaultReason || "")
+      setElbeInput(counterparty.elbe !== undefined ? (counterparty.elbe * 100).toString() : "")
     }
   }, [counterparty])
 
@@ -61,13 +95,19 @@ export function CreditReviewDialog({
     }
   }, [rating, pdOverride, creditRatings])
 
-  // Handle rating change
-  const handleRatingChange = (value) => {
+  // Handle rating change; a "D" rating puts the counterparty in default
+  const handleRatingChange = (value: string) => {
     setRating(value)
+    if (value === "D") {
+      setIsDefaulted(true)
+    } else if (rating === "D") {
+      // Moving off "D" re-rates the counterparty as performing
+      setIsDefaulted(false)
+    }
   }
 
   // Handle PD change
-  const handlePdChange = (value) => {
+  const handlePdChange = (value: string) => {
     const pdValue = Number.parseFloat(value)
     if (!isNaN(pdValue) && pdValue >= 0 && pdValue <= 1) {
       setPd(pdValue)
@@ -75,7 +115,7 @@ export function CreditReviewDialog({
   }
 
   // Handle PD slider change
-  const handlePdSliderChange = (value) => {
+  const handlePdSliderChange = (value: number[]) => {
     const pdValue = value[0]
     setPd(isNaN(pdValue) ? 0.01 : pdValue)
   }
@@ -96,17 +136,30 @@ export function CreditReviewDialog({
         return
       }
 
+      if (isDefaulted && (!defaultDate || !defaultReason)) {
+        setError("Default date and reason are required for a defaulted counterparty")
+        return
+      }
+
+      const elbe = elbeInput.trim() === "" ? undefined : Number.parseFloat(elbeInput) / 100
+      if (isDefaulted && elbe !== undefined && (isNaN(elbe) || elbe < 0 || elbe > 1)) {
+        setError("ELBE must be between 0% and 100%")
+        return
+      }
+
       // Prepare data to return
-      const reviewData = {
+      const reviewData: CreditReviewData = {
         rating,
         pd,
         pdOverride,
         notes,
         reviewDate: new Date().toISOString(),
+        isDefaulted,
+        defaultDate: isDefaulted ? defaultDate : undefined,
+        defaultReason: isDefaulted && defaultReason ? defaultReason : undefined,
+        elbe: isDefaulted ? elbe : undefined,
       }
 
-      console.log("Credit review data prepared:", reviewData)
-
       // Call the appropriate callback
       if (typeof onComplete === "function") {
         console.log("Calling onComplete callback")
@@ -120,7 +173,7 @@ export function CreditReviewDialog({
       }
     } catch (err) {
       console.error("Error in credit review save:", err)
-      setError(`Error saving review: ${err.message}`)
+      setError(`Error saving review: ${err instanceof Error ? err.message : String(err)}`)
     }
   }
 
@@ -139,7 +192,7 @@ export function CreditReviewDialog({
   }
 
   // Format PD as percentage
-  const formatPdPercentage = (value) => {
+  const formatPdPercentage = (value: number) => {
     if (isNaN(value)) return "0.0000%"
     return `${(value * 100).toFixed(4)}%`
   }
@@ -248,6 +301,68 @@ export function CreditReviewDialog({
           )}
         </div>
 
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="is-defaulted">Counterparty in Default</Label>
+            <input
+              type="checkbox"
+              id="is-defaulted"
+              checked={isDefaulted}
+              onChange={(e) => setIsDefaulted(e.target.checked)}
+              // A "D" rating is a default, so the flag only clears by moving the rating off "D"
+              disabled={rating === "D"}
+              className="h-4 w-4"
+            />
+          </div>
+          {rating === "D" && (
+            <p className="text-xs text-muted-foreground">A &quot;D&quot; rating keeps the counterparty in default.</p>
+          )}
+          {isDefaulted && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="default-date">Default Date</Label>
+                <Input
+                  id="default-date"
+                  type="date"
+                  value={defaultDate}
+                  onChange={(e) => setDefaultDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="default-reason">Default Reason</Label>
+                <Select value={defaultReason} onValueChange={(value) => setDefaultReason(value as DefaultReason)}>
+                  <SelectTrigger id="default-reason">
+                    <SelectValue placeholder="Select reason" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(DEFAULT_REASON_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="elbe">Best-Estimate Expected Loss (ELBE, %)</Label>
+                <Input
+                  id="elbe"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={0.1}
+                  value={elbeInput}
+                  onChange={(e) => setElbeInput(e.target.value)}
+                  placeholder="Defaults to the LGD"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Defaulted exposures hold capital of max(0, LGD - ELBE). F-IRB exposures always use ELBE = LGD.
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+
         <div className="space-y-2">
           <Label htmlFor="notes">Review Notes</Label>
           <textarea
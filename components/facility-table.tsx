@@ -0,0 +1,197 @@
+"use client"
+
+import { Fragment, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ChevronDown, ChevronRight, RotateCcw } from "lucide-react"
+import { FACILITY_TYPE_LABELS, REGULATORY_CCF } from "@/lib/ead-calculator"
+import { ASSET_CLASS_LABELS } from "@/lib/correlation-calculator"
+import type { Counterparty, FacilityRwaResult } from "@/lib/types"
+
+interface FacilityTableProps {
+  counterparty: Counterparty
+  facilities: FacilityRwaResult[]
+  onUpdateCounterparty: (counterparty: Counterparty) => void
+  onAdjustFacility: (facilityId: string) => void
+}
+
+// Facility-level EAD and RWA with expandable rows for CCF overrides and adjustments
+export function FacilityTable({ counterparty, facilities, onUpdateCounterparty, onAdjustFacility }: FacilityTableProps) {
+  const [expandedIds, setExpandedIds] = useState<string[]>([])
+  // CCF inputs being edited, in percent, keyed by facility id
+  const [ccfInputs, setCcfInputs] = useState<Record<string, string>>({})
+
+  const toggleExpanded = (facilityId: string) => {
+    setExpandedIds((prev) =>
+      prev.includes(facilityId) ? prev.filter((id) => id !== facilityId) : [...prev, facilityId],
+    )
+  }
+
+  // Save a CCF override, or clear it when ccf is undefined
+  const updateCcfOverride = (facilityId: string, ccf: number | undefined) => {
+    onUpdateCounterparty({
+      ...counterparty,
+      facilities: counterparty.facilities?.map((facility) =>
+        facility.id === facilityId ? { ...facility, ccfOverride: ccf } : facility,
+      ),
+    })
+  }
+
+  // Apply the edited CCF when the input loses focus, ignoring values outside 0-100%
+  const handleCcfCommit = (facilityId: string) => {
+    const input = ccfInputs[facilityId]
+    setCcfInputs(({ [facilityId]: _, ...rest }) => rest)
+    if (input === undefined) return
+
+    const ccf = Number.parseFloat(input) / 100
+    if (!isNaN(ccf) && ccf >= 0 && ccf <= 1) {
+      updateCcfOverride(facilityId, ccf)
+    }
+  }
+
+  const totals = facilities.reduce(
+    (sum, facility) => ({
+      ead: sum.ead + facility.ead,
+      rwa: sum.rwa + facility.rwa,
+    }),
+    { ead: 0, rwa: 0 },
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Facilities</CardTitle>
+        <CardDescription>
+          RWA per facility of {counterparty.name}, sharing the obligor PD. Expand a facility to override its CCF or
+          adjust its RWA.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead>Facility</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead className="text-right">EAD</TableHead>
+              <TableHead className="text-right">LGD</TableHead>
+              <TableHead className="text-right">Maturity</TableHead>
+              <TableHead className="text-right">RWA</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {facilities.map((facility) => {
+              const isExpanded = expandedIds.includes(facility.id)
+
+              return (
+                <Fragment key={facility.id}>
+                  <TableRow className="cursor-pointer hover:bg-muted/50" onClick={() => toggleExpanded(facility.id)}>
+                    <TableCell>
+                      {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    </TableCell>
+                    <TableCell className="font-medium">{facility.name}</TableCell>
+                    <TableCell>{FACILITY_TYPE_LABELS[facility.facilityType]}</TableCell>
+                    <TableCell className="text-right">${Math.round(facility.ead).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{(facility.lgd * 100).toFixed(2)}%</TableCell>
+                    <TableCell className="text-right">{facility.maturity.toFixed(2)}y</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        {facility.hasAdjustment && (
+                          <Badge
+                            variant="outline"
+                            className="bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200"
+                          >
+                            Adjusted
+                          </Badge>
+                        )}
+                        ${Math.round(facility.rwa).toLocaleString()}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                  {isExpanded && (
+                    <TableRow className="bg-muted/30 hover:bg-muted/30">
+                      <TableCell />
+                      <TableCell colSpan={6}>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 py-2">
+                          <div>
+                            <div className="text-xs text-muted-foreground">Drawn</div>
+                            <div className="font-medium">${Math.round(facility.drawn).toLocaleString()}</div>
+                          </div>
+                          <div>
+                            <div className="text-xs text-muted-foreground">Undrawn</div>
+                            <div className="font-medium">${Math.round(facility.undrawn).toLocaleString()}</div>
+                          </div>
+                          <div>
+                            <div className="text-xs text-muted-foreground">
+                              CCF (%) - regulatory {(REGULATORY_CCF[facility.facilityType] * 100).toFixed(0)}%
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Input
+                                type="number"
+                                min={0}
+                                max={100}
+                                step={5}
+                                className="h-8 w-20"
+                                value={ccfInputs[facility.id] ?? (facility.ccf * 100).toFixed(0)}
+                                onChange={(e) => setCcfInputs((prev) => ({ ...prev, [facility.id]: e.target.value }))}
+                                onBlur={() => handleCcfCommit(facility.id)}
+                              />
+                              {facility.isCcfOverridden && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  title="Reset to regulatory CCF"
+                                  onClick={() => updateCcfOverride(facility.id, undefined)}
+                                >
+                                  <RotateCcw className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                          <div>
+                            <div className="text-xs text-muted-foreground">
+                              Correlation - {ASSET_CLASS_LABELS[facility.assetClass]}
+                            </div>
+                            <div className="font-medium">{(facility.correlation * 100).toFixed(2)}%</div>
+                          </div>
+                          <div>
+                            <div className="text-xs text-muted-foreground">Maturity Adjustment</div>
+                            <div className="font-medium">{facility.maturityAdjustment.toFixed(4)}</div>
+                          </div>
+                          <div>
+                            <div className="text-xs text-muted-foreground">Capital Requirement (K)</div>
+                            <div className="font-medium">{(facility.k * 100).toFixed(2)}%</div>
+                          </div>
+                          <div>
+                            <div className="text-xs text-muted-foreground">Model RWA</div>
+                            <div className="font-medium">${Math.round(facility.originalRwa).toLocaleString()}</div>
+                          </div>
+                          <div className="flex items-end">
+                            <Button variant="outline" size="sm" onClick={() => onAdjustFacility(facility.id)}>
+                              {facility.hasAdjustment ? "Edit Facility Adjustment" : "Adjust Facility RWA"}
+                            </Button>
+                          </div>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              )
+            })}
+            <TableRow className="font-medium">
+              <TableCell />
+              <TableCell colSpan={2}>Total</TableCell>
+              <TableCell className="text-right">${Math.round(totals.ead).toLocaleString()}</TableCell>
+              <TableCell colSpan={2} />
+              <TableCell className="text-right">${Math.round(totals.rwa).toLocaleString()}</TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
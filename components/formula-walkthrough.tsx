@@ -0,0 +1,43 @@
+"use client"
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { FormulaWalkthroughStep } from "@/lib/types"
+
+interface FormulaWalkthroughProps {
+  steps: FormulaWalkthroughStep[]
+}
+
+// The module's formulas in the order the engine applies them, with the counterparty's values substituted
+export function FormulaWalkthrough({ steps }: FormulaWalkthroughProps) {
+  if (steps.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-lg font-medium">Formula Walkthrough</h3>
+      <p className="text-sm text-muted-foreground">
+        Values are taken from the calculation trace of the selected counterparty.
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Step</TableHead>
+            <TableHead>Formula</TableHead>
+            <TableHead className="text-right">Result</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {steps.map((step, index) => (
+            <TableRow key={`${step.label}-${index}`}>
+              <TableCell className="font-medium align-top">{step.label}</TableCell>
+              <TableCell className="font-mono text-xs space-y-1">
+                <div>{step.formula}</div>
+                <div className="text-muted-foreground">{step.substitution}</div>
+              </TableCell>
+              <TableCell className="text-right font-mono text-xs align-top">{step.result}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -1,11 +1,14 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { ModuleDocumentation } from "@/components/module-documentation"
+import { CalculationTrace } from "@/components/calculation-trace"
+import { FormulaWalkthrough } from "@/components/formula-walkthrough"
 import { getModuleDescription } from "@/lib/module-descriptions"
 import { getModuleDetails, type ModuleType } from "@/lib/module-details"
+import { getFormulaWalkthrough } from "@/lib/formula-walkthrough"
 import { formatNumber } from "@/lib/utils"
 import { Badge } from "@/components/ui/badge"
 import { Info, X, CodeIcon, RotateCcw } from "lucide-react"
@@ -19,6 +22,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch"
 import { calculateRWA } from "@/lib/rwa-calculator"
 import { calculateTtcPd } from "@/lib/ttc-pd-calculator"
+import {
+  counterpartySchema,
+  formatValidationError,
+  type CalculationOptions,
+  type Counterparty,
+  type RwaResult,
+} from "@/lib/types"
 
 // Define a helper function to get all unique values for a specific field across all counterparties
 import { getAllCounterparties } from "@/lib/data-generator"
@@ -33,6 +43,31 @@ function ensureNumber(value: any): number {
   return 0
 }
 
+// Check whether a field name belongs to the counterparty schema
+function isCounterpartyKey(key: string): key is keyof Counterparty {
+  return key in counterpartySchema.shape
+}
+
+// Describe the regulatory floors binding on a module, or null when none apply
+function getFloorMessage(moduleId: string, results: RwaResult): string | null {
+  const { floors } = results
+  const pdMessage = floors.isPdFloorBinding
+    ? `TTC PD of ${(floors.preFloorTtcPd * 100).toFixed(4)}% is below the ${(floors.pdFloor * 100).toFixed(2)}% PD floor.`
+    : null
+  const lgdMessage = floors.isLgdFloorBinding
+    ? `LGD of ${(floors.preFloorLgd * 100).toFixed(2)}% is below the ${(floors.lgdFloor * 100).toFixed(2)}% A-IRB LGD floor.`
+    : null
+
+  if (moduleId === "pd" || moduleId === "ttcpd") return pdMessage
+  if (moduleId === "lgd") return lgdMessage
+  if ((moduleId === "rwa" || moduleId === "capital") && floors.rwaAddOn > 0) {
+    return [pdMessage, lgdMessage, `Floors add $${Math.round(floors.rwaAddOn).toLocaleString()} of RWA.`]
+      .filter(Boolean)
+      .join(" ")
+  }
+  return null
+}
+
 // Format a number safely for input fields, returning a string and handling NaN/undefined
 function safeFormatNumber(value: any): string {
   if (value === undefined || value === null) return ""
@@ -45,16 +80,18 @@ function safeFormatNumber(value: any): string {
 interface ModuleDetailProps {
   moduleId: string
   onClose: () => void
-  counterpartyData: any
-  results?: any
-  onUpdateCounterparty: (updatedData: any) => void
+  counterpartyData: Counterparty
+  results: RwaResult
+  calculationOptions: CalculationOptions
+  onUpdateCounterparty: (updatedData: Counterparty) => void
 }
 
 export function ModuleDetail({
   moduleId,
   onClose,
-  counterpartyData = {},
-  results = {},
+  counterpartyData,
+  results,
+  calculationOptions,
   onUpdateCounterparty,
 }: ModuleDetailProps) {
   const moduleDetails = getModuleDetails(moduleId, counterpartyData, results)
@@ -64,12 +101,15 @@ export function ModuleDetail({
   const [editValues, setEditValues] = useState<Record<string, any>>({})
   const [showResetConfirm, setShowResetConfirm] = useState(false)
   const [dropdownOptions, setDropdownOptions] = useState<Record<string, string[]>>({})
-  const [previewResults, setPreviewResults] = useState<any>(null)
+  const [previewResults, setPreviewResults] = useState<RwaResult | null>(null)
+  const [validationError, setValidationError] = useState<string | null>(null)
 
-  // Debug log to check what results are being passed
-  useEffect(() => {
-    console.log(`ModuleDetail for ${moduleId} received results:`, results)
-  }, [moduleId, results])
+  // Recalculate with a trace so the audit trail shows how the current result was built
+  const calculationTrace = useMemo(
+    () => calculateRWA(counterpartyData, { ...calculationOptions, trace: true }).trace ?? [],
+    [counterpartyData, calculationOptions],
+  )
+  const formulaWalkthrough = getFormulaWalkthrough(moduleId, calculationTrace)
 
   // Get all unique values for dropdown fields
   useEffect(() => {
@@ -77,7 +117,7 @@ export function ModuleDetail({
     const options: Record<string, string[]> = {}
 
     // Define fields that should use dropdowns
-    const dropdownFields = ["industry", "region", "isFinancial", "isLargeFinancial", "isRegulated"]
+    const dropdownFields = ["industry", "region", "isFinancial", "isLargeFinancial", "isRegulated"] as const
 
     // Collect unique values for each field
     dropdownFields.forEach((field) => {
@@ -119,13 +159,22 @@ export function ModuleDetail({
         tempCounterparty.ttcPd = calculateTtcPd(ttcInputs)
       }
 
+      // Validate the edited counterparty before previewing it
+      const parsed = counterpartySchema.safeParse(tempCounterparty)
+      if (!parsed.success) {
+        setValidationError(formatValidationError(parsed.error))
+        setPreviewResults(null)
+        return
+      }
+
       // Calculate RWA with the updated values
-      const results = calculateRWA(tempCounterparty)
-      setPreviewResults(results)
+      setValidationError(null)
+      setPreviewResults(calculateRWA(parsed.data, calculationOptions))
     } else {
+      setValidationError(null)
       setPreviewResults(null)
     }
-  }, [editValues, counterpartyData])
+  }, [editValues, counterpartyData, calculationOptions])
 
   // Helper function to convert edit values to appropriate types
   const convertEditValues = (values: Record<string, any>): Record<string, any> => {
@@ -208,7 +257,15 @@ export function ModuleDetail({
         updatedData.ttcPd = calculateTtcPd(ttcInputs)
       }
 
-      onUpdateCounterparty(updatedData)
+      // Keep the dialog in edit mode until the values are valid
+      const parsed = counterpartySchema.safeParse(updatedData)
+      if (!parsed.success) {
+        setValidationError(formatValidationError(parsed.error))
+        return
+      }
+
+      onUpdateCounterparty(parsed.data)
+      setValidationError(null)
       setEditValues({})
       setPreviewResults(null)
     }
@@ -223,7 +280,7 @@ export function ModuleDetail({
     // Reset adjustments for this module
     const updatedData = { ...counterpartyData }
     if (adjustments) {
-      adjustments.forEach((adjustment) => {
+      adjustments.forEach((adjustment: keyof Counterparty) => {
         if (updatedData[adjustment]) {
           delete updatedData[adjustment]
         }
@@ -237,6 +294,7 @@ export function ModuleDetail({
     // Reset all edit values
     setEditValues({})
     setPreviewResults(null)
+    setValidationError(null)
   }
 
   // Helper function to determine if a field should use a dropdown
@@ -275,7 +333,8 @@ export function ModuleDetail({
       lowerFieldName.includes("multiplier") ||
       lowerFieldName.includes("factor") ||
       lowerFieldName.includes("maturity") ||
-      lowerFieldName.includes("correlation")
+      lowerFieldName.includes("correlation") ||
+      lowerFieldName.includes("provision")
     )
   }
 
@@ -322,7 +381,12 @@ export function ModuleDetail({
         key.toLowerCase().includes("ead") ||
         key.toLowerCase().includes("rwa") ||
         key.toLowerCase().includes("exposure") ||
-        key.toLowerCase().includes("amount")
+        key.toLowerCase().includes("amount") ||
+        key.toLowerCase().includes("revenue") ||
+        key.toLowerCase().includes("provision") ||
+        key === "Expected Loss" ||
+        key === "Shortfall" ||
+        key === "Excess"
       ) {
         return formatNumber(value)
       }
@@ -366,7 +430,7 @@ export function ModuleDetail({
   }
 
   // Helper function to find the actual field key in counterpartyData
-  const findActualFieldKey = (inputName: string): string | null => {
+  const findActualFieldKey = (inputName: string): keyof Counterparty | null => {
     const possibleKey = getFieldKey(inputName)
 
     // Check if counterpartyData is undefined
@@ -375,13 +439,13 @@ export function ModuleDetail({
     }
 
     // Check if the key exists directly
-    if (possibleKey in counterpartyData) {
+    if (isCounterpartyKey(possibleKey) && possibleKey in counterpartyData) {
       return possibleKey
     }
 
     // Check for similar keys
     for (const key in counterpartyData) {
-      if (key.toLowerCase() === possibleKey) {
+      if (key.toLowerCase() === possibleKey && isCounterpartyKey(key)) {
         return key
       }
     }
@@ -401,12 +465,14 @@ export function ModuleDetail({
     if (inputName === "Long-Term Average Default Rate") return "longTermAverage"
     if (inputName === "Cyclicality") return "cyclicality"
     if (inputName === "TTC PD") return "ttcPd"
+    if (inputName === "Provisions") return "provisions"
 
     return null
   }
 
   // Get the appropriate results to display (preview or actual)
   const displayResults = previewResults || moduleDetails.results
+  const floorMessage = getFloorMessage(moduleId, previewResults ?? results)
 
   return (
     <Card className="w-full max-w-4xl mx-auto border-0 shadow-none">
@@ -416,6 +482,7 @@ export function ModuleDetail({
           <CardDescription>{moduleDescription.description || "No description available"}</CardDescription>
         </div>
         <div className="flex items-center gap-2">
+          <Badge variant="outline">{moduleDetails.regulatoryProfile}</Badge>
           <Badge variant={type === "input" ? "outline" : type === "calculation" ? "secondary" : "default"}>
             {type ? `${type.charAt(0).toUpperCase()}${type.slice(1)} Module` : "Module"}
           </Badge>
@@ -426,9 +493,10 @@ export function ModuleDetail({
       </CardHeader>
       <CardContent>
         <Tabs defaultValue="details" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="details">Module Details</TabsTrigger>
             <TabsTrigger value="documentation">Documentation</TabsTrigger>
+            <TabsTrigger value="audit">Audit Trail</TabsTrigger>
             <TabsTrigger value="code">Code</TabsTrigger>
           </TabsList>
 
@@ -470,6 +538,14 @@ export function ModuleDetail({
               </div>
             </div>
 
+            {/* Validation Alert */}
+            {editMode && validationError && (
+              <Alert variant="destructive" className="mb-4">
+                <AlertTitle>Invalid Values</AlertTitle>
+                <AlertDescription>{validationError}</AlertDescription>
+              </Alert>
+            )}
+
             {/* Preview Alert */}
             {editMode && previewResults && (
               <Alert className="mb-4 bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800">
@@ -480,6 +556,14 @@ export function ModuleDetail({
               </Alert>
             )}
 
+            {/* Floor Alert */}
+            {floorMessage && (
+              <Alert className="mb-4 bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800">
+                <AlertTitle className="text-amber-800 dark:text-amber-300">Regulatory Floor Binding</AlertTitle>
+                <AlertDescription className="text-amber-700 dark:text-amber-400">{floorMessage}</AlertDescription>
+              </Alert>
+            )}
+
             {/* Input Parameters */}
             {moduleDetails.inputs && moduleDetails.inputs.length > 0 && (
               <div className="space-y-2">
@@ -599,19 +683,29 @@ export function ModuleDetail({
                     const isHighlighted = output.highlight === true
 
                     // Check if we have a preview value for this output
-                    let displayValue = outputValue
+                    let displayValue: string | number = outputValue
                     if (previewResults && moduleId === "avc" && outputName === "AVC Multiplier") {
                       displayValue = previewResults.avcMultiplier
                     } else if (previewResults && moduleId === "correlation" && outputName === "Final Correlation") {
                       displayValue = previewResults.correlation
                     } else if (previewResults && moduleId === "correlation" && outputName === "Base Correlation") {
                       displayValue = previewResults.baseCorrelation
+                    } else if (previewResults && moduleId === "sme" && outputName === "Correlation Reduction") {
+                      displayValue = previewResults.smeAdjustment
+                    } else if (previewResults && moduleId === "sme" && outputName === "Final Correlation") {
+                      displayValue = previewResults.correlation
                     } else if (previewResults && moduleId === "maturity" && outputName === "Maturity Adjustment") {
                       displayValue = previewResults.maturityAdjustment
                     } else if (previewResults && moduleId === "rwa" && outputName === "Final RWA") {
                       displayValue = previewResults.rwa
                     } else if (previewResults && moduleId === "rwa" && outputName === "Capital Requirement (K)") {
                       displayValue = previewResults.k
+                    } else if (previewResults && moduleId === "el" && outputName === "Expected Loss") {
+                      displayValue = previewResults.expectedLoss.expectedLoss
+                    } else if (previewResults && moduleId === "el" && outputName === "Shortfall") {
+                      displayValue = previewResults.expectedLoss.shortfall
+                    } else if (previewResults && moduleId === "el" && outputName === "Excess") {
+                      displayValue = previewResults.expectedLoss.excess
                     }
 
                     return (
@@ -641,7 +735,7 @@ export function ModuleDetail({
               <div className="space-y-2 mt-6">
                 <h4 className="font-medium">Adjustments</h4>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {adjustments.map((adjustment) => (
+                  {adjustments.map((adjustment: keyof Counterparty) => (
                     <div key={adjustment} className="space-y-1">
                       <Label htmlFor={adjustment}>{adjustment}</Label>
                       {editMode ? (
@@ -689,22 +783,38 @@ export function ModuleDetail({
             )}
           </TabsContent>
 
-          <TabsContent value="documentation">
+          <TabsContent value="documentation" className="space-y-6">
+            <FormulaWalkthrough steps={formulaWalkthrough} />
             <ModuleDocumentation
               moduleId={moduleId}
               moduleType={type as ModuleType}
+              regulatoryProfile={results.regulatoryProfile}
               inputs={docInputs}
               outputs={docOutputs}
             />
           </TabsContent>
 
+          <TabsContent value="audit" className="mt-4">
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-medium">Calculation Audit Trail</h3>
+                <Badge variant="outline">{calculationTrace.length} steps</Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Every intermediate value of the RWA calculation for {counterpartyData.name}, from the inputs and the
+                defaults applied through correlation, maturity adjustment and K to each adjustment layer.
+              </p>
+              <div className="max-h-[50vh] overflow-auto">
+                <CalculationTrace steps={calculationTrace} />
+              </div>
+            </div>
+          </TabsContent>
+
           <TabsContent value="code" className="mt-4">
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <h3 className="text-lg font-medium">Module Implementation</h3>
-                <Badge variant="outline" className="font-mono">
-                  {moduleId}.ts
-                </Badge>
+                <Badge variant="outline">Generated from engine source</Badge>
               </div>
 
               <div className="relative max-h-[50vh] overflow-auto">
@@ -717,8 +827,9 @@ export function ModuleDetail({
                   <h4 className="font-medium">Code Notes</h4>
                 </div>
                 <p className="text-sm text-muted-foreground">
-                  This is the actual implementation code for the {moduleDescription.title || moduleId} module. The code
-                  follows the mathematical formulas and regulatory guidelines described in the documentation.
+                  These are the functions that run for the {moduleDescription.title || moduleId} module, extracted from
+                  the files named in the comments when the app is built. The formula walkthrough in the documentation
+                  shows the values they produce for the selected counterparty.
                 </p>
               </div>
             </div>
@@ -5,16 +5,24 @@ import { getModuleExplanation } from "@/lib/module-explanations"
 import { Badge } from "@/components/ui/badge"
 import { Info, ArrowRight } from "lucide-react"
 import type { ModuleType } from "@/lib/module-details"
+import type { RegulatoryProfileId } from "@/lib/types"
 
 interface ModuleDocumentationProps {
   moduleId: string
   moduleType: ModuleType
+  regulatoryProfile?: RegulatoryProfileId
   inputs: Record<string, any>
   outputs: Record<string, any>
 }
 
-export function ModuleDocumentation({ moduleId, moduleType, inputs, outputs }: ModuleDocumentationProps) {
-  const explanation = getModuleExplanation(moduleId)
+export function ModuleDocumentation({
+  moduleId,
+  moduleType,
+  regulatoryProfile,
+  inputs,
+  outputs,
+}: ModuleDocumentationProps) {
+  const explanation = getModuleExplanation(moduleId, regulatoryProfile)
 
   if (!explanation) {
     return (
@@ -65,9 +73,14 @@ export function ModuleDocumentation({ moduleId, moduleType, inputs, outputs }: M
       <CardHeader>
         <div className="flex items-center justify-between">
           <CardTitle>{explanation.title}</CardTitle>
-          <Badge variant={moduleType === "input" ? "outline" : moduleType === "calculation" ? "secondary" : "default"}>
-            {moduleType.charAt(0).toUpperCase() + moduleType.slice(1)} Module
-          </Badge>
+          <div className="flex items-center gap-2">
+            <Badge variant="outline">{explanation.regulatoryProfile}</Badge>
+            <Badge
+              variant={moduleType === "input" ? "outline" : moduleType === "calculation" ? "secondary" : "default"}
+            >
+              {moduleType.charAt(0).toUpperCase() + moduleType.slice(1)} Module
+            </Badge>
+          </div>
         </div>
         <CardDescription>{explanation.description}</CardDescription>
       </CardHeader>
@@ -5,25 +5,40 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Info, Edit } from "lucide-react"
 import { getModuleExplanation } from "@/lib/module-explanations"
+import { ASSET_CLASS_LABELS, isRetailAssetClass } from "@/lib/correlation-calculator"
+import { getRegulatoryProfile } from "@/lib/regulatory-profiles"
+import type { AssetClass, Counterparty, RwaResult } from "@/lib/types"
 
 // Helper function to format numbers consistently
-function formatNumber(value) {
-  if (value === undefined || value === null || isNaN(value)) return "N/A"
-  return typeof value === "number" ? Math.round(value).toLocaleString() : value.toString()
+function formatNumber(value: number) {
+  if (isNaN(value)) return "N/A"
+  return Math.round(value).toLocaleString()
 }
 
 // Helper function to format percentages consistently
-function formatPercentage(value) {
-  if (value === undefined || value === null || isNaN(value)) return "N/A"
-  return typeof value === "number" ? `${(value * 100).toFixed(4)}%` : value.toString()
+function formatPercentage(value: number) {
+  if (isNaN(value)) return "N/A"
+  return `${(value * 100).toFixed(4)}%`
 }
 
 // Helper function to format decimal values with more precision
-function formatDecimal(value, decimals = 4) {
-  if (value === undefined || value === null || isNaN(value)) return "N/A"
-  return typeof value === "number" ? value.toFixed(decimals) : value.toString()
+function formatDecimal(value: number, decimals = 4) {
+  if (isNaN(value)) return "N/A"
+  return value.toFixed(decimals)
+}
+
+interface ModuleFlowchartProps {
+  counterparty: Counterparty
+  rwaResults: RwaResult
+  onSelectModule: (moduleId: string) => void
+  onCreditReview: () => void
+  modifiedModules?: string[]
+  onUpdateCounterparty?: (counterparty: Counterparty) => void
 }
 
 export function ModuleFlowchart({
@@ -33,40 +48,75 @@ export function ModuleFlowchart({
   onCreditReview,
   modifiedModules = [],
   onUpdateCounterparty,
-}) {
-  const [hoveredModule, setHoveredModule] = useState(null)
-  const [moduleExplanation, setModuleExplanation] = useState(null)
+}: ModuleFlowchartProps) {
+  const [hoveredModule, setHoveredModule] = useState<string | null>(null)
+  const [moduleExplanation, setModuleExplanation] = useState<ReturnType<typeof getModuleExplanation>>(null)
 
   // Get explanation when hovering over a module
   useEffect(() => {
     if (hoveredModule) {
-      const explanation = getModuleExplanation(hoveredModule)
+      const explanation = getModuleExplanation(hoveredModule, rwaResults.regulatoryProfile)
       setModuleExplanation(explanation)
     } else {
       setModuleExplanation(null)
     }
-  }, [hoveredModule])
+  }, [hoveredModule, rwaResults.regulatoryProfile])
 
-  // Extract values from results and ensure they're valid numbers
+  // Extract values from results
   const {
-    pd = 0.01,
-    ttcPd = 0.01,
-    lgd = 0.45,
-    ead = 1000000,
-    baseCorrelation = 0.12,
-    avcMultiplier = 1,
-    correlation = 0.12,
-    maturityAdjustment = 1,
-    k = 0.01,
-    rwa = 100000,
+    lgd,
+    ead,
+    baseCorrelation,
+    smeAdjustment,
+    avcMultiplier,
+    correlation,
+    maturityAdjustment,
+    k,
+    rwa,
     originalRwa,
     hasAdjustment,
-    rwaDensity = 0.1,
-  } = rwaResults || {}
+    rwaDensity,
+    expectedLoss,
+  } = rwaResults
+
+  // F-IRB derives LGD from collateral, so the collateral module feeds the LGD module
+  const isFirb = rwaResults.irbApproach === "FIRB"
+  const totalCollateral = (counterparty.collateral ?? []).reduce((sum, item) => sum + item.value, 0)
+
+  // EAD is derived from facilities with CCFs when the counterparty has any
+  const hasFacilities = rwaResults.facilities.length > 0
+  const totalCommitment = rwaResults.facilities.reduce((sum, facility) => sum + facility.drawn + facility.undrawn, 0)
+
+  // Slotted specialised lending uses a supervisory risk weight in place of PD, LGD and correlation
+  const isSlotting = rwaResults.slotting !== null
+
+  // Defaulted exposures replace the correlation and maturity steps with K = max(0, LGD - ELBE)
+  const usesDefaultedCapital = rwaResults.isDefaulted && !isSlotting
+
+  // Modules where a regulatory floor replaced the input, with the pre-floor value
+  const floorNotes: Record<string, string> = {}
+  if (rwaResults.floors.isPdFloorBinding) {
+    floorNotes.ttcpd = `Floored to ${formatPercentage(rwaResults.floors.pdFloor)}`
+  }
+  if (rwaResults.floors.isLgdFloorBinding) {
+    floorNotes.lgd = `Pre-floor ${formatPercentage(rwaResults.floors.preFloorLgd)}`
+  }
+
+  // Retail asset classes have no SME adjustment, AVC multiplier or maturity adjustment, so those modules are hidden
+  const isRetail = isRetailAssetClass(rwaResults.assetClass)
+
+  const handleAssetClassChange = (assetClass: string) => {
+    onUpdateCounterparty?.({ ...counterparty, assetClass: assetClass as AssetClass })
+  }
+
+  // Switch the counterparty between A-IRB and F-IRB
+  const handleIrbApproachChange = (useFirb: boolean) => {
+    onUpdateCounterparty?.({ ...counterparty, irbApproach: useFirb ? "FIRB" : "AIRB" })
+  }
 
   // Get the actual PIT PD and TTC PD values from the counterparty data
-  const pitPd = counterparty?.pd || pd
-  const actualTtcPd = counterparty?.ttcPd || ttcPd
+  const pitPd = counterparty.pd
+  const actualTtcPd = counterparty.ttcPd
 
   // Ensure all values are valid numbers
   const safeRwa = isNaN(rwa) ? 0 : rwa
@@ -80,7 +130,15 @@ export function ModuleFlowchart({
     hasRwaAdjustment && safeOriginalRwa && safeOriginalRwa !== 0 ? (safeRwa / safeOriginalRwa - 1) * 100 : 0
 
   // Function to render a module box
-  const renderModule = (id, title, value, format = "number", isInput = false, isOutput = false, isModified = false) => {
+  const renderModule = (
+    id: string,
+    title: string,
+    value: number,
+    format = "number",
+    isInput = false,
+    isOutput = false,
+    isModified = false,
+  ) => {
     // Ensure value is a valid number
     const safeValue = isNaN(value) ? 0 : value
 
@@ -116,8 +174,14 @@ export function ModuleFlowchart({
               Modified
             </Badge>
           )}
+          {floorNotes[id] && (
+            <Badge variant="outline" className="bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+              Floored
+            </Badge>
+          )}
         </div>
         <div className="text-2xl font-bold">{formattedValue}</div>
+        {floorNotes[id] && <div className="text-xs text-amber-600 dark:text-amber-400">{floorNotes[id]}</div>}
         {isInput && <div className="absolute top-0 right-0 p-1 text-blue-500">Input</div>}
         {isOutput && <div className="absolute top-0 right-0 p-1 text-green-500">Output</div>}
       </div>
@@ -129,41 +193,120 @@ export function ModuleFlowchart({
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         {/* Input Modules */}
         <div className="space-y-4">
-          {renderModule("pd", "PIT PD Module", pitPd, "percentage", true, false, modifiedModules.includes("pd"))}
+          {!isSlotting &&
+            renderModule("pd", "PIT PD Module", pitPd, "percentage", true, false, modifiedModules.includes("pd"))}
+          {!isSlotting &&
+            renderModule(
+              "ttcpd",
+              "TTC PD Module",
+              actualTtcPd,
+              "percentage",
+              true,
+              false,
+              modifiedModules.includes("ttcpd"),
+            )}
+          {isFirb &&
+            renderModule(
+              "collateral",
+              "Collateral Module",
+              totalCollateral,
+              "currency",
+              true,
+              false,
+              modifiedModules.includes("collateral"),
+            )}
+          {!isSlotting &&
+            renderModule(
+              "lgd",
+              isFirb ? "LGD Module (F-IRB)" : "LGD Module",
+              lgd,
+              "percentage",
+              !isFirb,
+              false,
+              modifiedModules.includes("lgd"),
+            )}
+          {hasFacilities &&
+            renderModule(
+              "facilities",
+              "Facilities Module",
+              totalCommitment,
+              "currency",
+              true,
+              false,
+              modifiedModules.includes("facilities"),
+            )}
           {renderModule(
-            "ttcpd",
-            "TTC PD Module",
-            actualTtcPd,
-            "percentage",
-            true,
+            "ead",
+            hasFacilities ? "EAD Module (CCF)" : "EAD Module",
+            ead,
+            "currency",
+            !hasFacilities,
             false,
-            modifiedModules.includes("ttcpd"),
+            modifiedModules.includes("ead"),
           )}
-          {renderModule("lgd", "LGD Module", lgd, "percentage", true, false, modifiedModules.includes("lgd"))}
-          {renderModule("ead", "EAD Module", ead, "currency", true, false, modifiedModules.includes("ead"))}
         </div>
 
         {/* Calculation Modules */}
         <div className="space-y-4">
-          {renderModule(
-            "correlation",
-            "Correlation Module",
-            correlation,
-            "percentage",
-            false,
-            false,
-            modifiedModules.includes("correlation"),
-          )}
-          {renderModule("avc", "AVC Module", avcMultiplier, "number", false, false, modifiedModules.includes("avc"))}
-          {renderModule(
-            "maturity",
-            "Maturity Module",
-            maturityAdjustment,
-            "number",
-            false,
-            false,
-            modifiedModules.includes("maturity"),
-          )}
+          {isSlotting &&
+            renderModule(
+              "slotting",
+              "Slotting Module",
+              rwaResults.slotting?.riskWeight ?? 0,
+              "percentage",
+              true,
+              false,
+              modifiedModules.includes("slotting"),
+            )}
+          {usesDefaultedCapital &&
+            renderModule(
+              "default",
+              "Defaulted Exposure Module",
+              rwaResults.elbe ?? 0,
+              "percentage",
+              false,
+              false,
+              modifiedModules.includes("default"),
+            )}
+          {!isSlotting &&
+            !usesDefaultedCapital &&
+            !isRetail &&
+            renderModule(
+              "sme",
+              "SME Adjustment Module",
+              smeAdjustment,
+              "percentage",
+              false,
+              false,
+              modifiedModules.includes("sme"),
+            )}
+          {!isSlotting &&
+            !usesDefaultedCapital &&
+            renderModule(
+              "correlation",
+              isRetail ? `Correlation Module (${ASSET_CLASS_LABELS[rwaResults.assetClass]})` : "Correlation Module",
+              correlation,
+              "percentage",
+              false,
+              false,
+              modifiedModules.includes("correlation"),
+            )}
+          {!isSlotting &&
+            !usesDefaultedCapital &&
+            !isRetail &&
+            renderModule("avc", "AVC Module", avcMultiplier, "number", false, false, modifiedModules.includes("avc"))}
+          {!isSlotting &&
+            !usesDefaultedCapital &&
+            !isRetail &&
+            renderModule(
+              "maturity",
+              "Maturity Module",
+              maturityAdjustment,
+              "number",
+              false,
+              false,
+              modifiedModules.includes("maturity"),
+            )}
           {renderModule(
             "capital",
             "Capital Requirement",
@@ -178,6 +321,15 @@ export function ModuleFlowchart({
         {/* Output Modules */}
         <div className="space-y-4">
           {renderModule("rwa", "RWA Module", safeRwa, "currency", false, true, modifiedModules.includes("rwa"))}
+          {renderModule(
+            "el",
+            "Expected Loss",
+            expectedLoss.expectedLoss,
+            "currency",
+            false,
+            true,
+            modifiedModules.includes("el"),
+          )}
           {renderModule(
             "density",
             "RWA Density",
@@ -188,6 +340,45 @@ export function ModuleFlowchart({
             modifiedModules.includes("density"),
           )}
 
+          {/* Provisions against Expected Loss */}
+          {counterparty.provisions !== undefined && (
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-medium text-sm">Provisions vs Expected Loss</h3>
+                  <Badge
+                    variant="outline"
+                    className={`${
+                      expectedLoss.shortfall > 0
+                        ? "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
+                        : "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+                    }`}
+                  >
+                    {expectedLoss.shortfall > 0 ? "Shortfall" : "Excess"}
+                  </Badge>
+                </div>
+                <div className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span>Provisions:</span>
+                    <span>${formatNumber(expectedLoss.provisions)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm font-medium">
+                    <span>{expectedLoss.shortfall > 0 ? "Shortfall:" : "Excess:"}</span>
+                    <span
+                      className={`${
+                        expectedLoss.shortfall > 0
+                          ? "text-red-600 dark:text-red-400"
+                          : "text-green-600 dark:text-green-400"
+                      }`}
+                    >
+                      ${formatNumber(expectedLoss.shortfall > 0 ? expectedLoss.shortfall : expectedLoss.excess)}
+                    </span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* RWA Adjustment Information */}
           {hasRwaAdjustment && (
             <Card>
@@ -239,13 +430,40 @@ export function ModuleFlowchart({
           <div className="flex items-center gap-2 mb-2">
             <Info className="h-4 w-4" />
             <h3 className="font-medium">{hoveredModule ? hoveredModule.toUpperCase() : ""} Module</h3>
+            <span className="text-xs text-muted-foreground">{moduleExplanation.regulatoryProfile}</span>
           </div>
           <p className="text-sm">{moduleExplanation.description || "No description available."}</p>
         </div>
       )}
 
       {/* Actions */}
-      <div className="flex justify-end space-x-2">
+      <div className="flex items-center justify-end space-x-2">
+        <Badge variant="outline">Methodology v{rwaResults.methodologyVersion}</Badge>
+        <Badge variant="outline" className="mr-auto">
+          {getRegulatoryProfile(rwaResults.regulatoryProfile).name}
+        </Badge>
+        {isSlotting && <Badge variant="secondary">Slotting</Badge>}
+        {rwaResults.isDefaulted && <Badge variant="destructive">Defaulted</Badge>}
+        {onUpdateCounterparty && !isSlotting && (
+          <Select value={rwaResults.assetClass} onValueChange={handleAssetClassChange}>
+            <SelectTrigger className="w-[220px]" aria-label="Asset class">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ASSET_CLASS_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {onUpdateCounterparty && !isSlotting && (
+          <div className="flex items-center space-x-2 pr-2">
+            <Switch id="irb-approach" checked={isFirb} onCheckedChange={handleIrbApproachChange} />
+            <Label htmlFor="irb-approach">{isFirb ? "Foundation IRB" : "Advanced IRB"}</Label>
+          </div>
+        )}
         <TooltipProvider>
           <Tooltip>
             <TooltipTrigger asChild>
@@ -14,14 +14,59 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Trash2, InfoIcon as InfoCircle } from "lucide-react"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import type { CalculationOptions, Counterparty, PortfolioRwaAdjustment } from "@/lib/types"
+
+// Portfolio-level summary of a saved adjustment
+export interface PortfolioAdjustmentSummary {
+  type: "multiplicative" | "additive"
+  value: number
+  distributionMethod: string
+  reason: string
+  timestamp: string
+  affectedCounterparties: number
+  totalBaselineRWA: number
+  totalAdjustedRWA: number
+  totalAbsoluteChange: number
+  totalPercentageChange: number
+}
+
+// Share of the portfolio adjustment allocated to one counterparty
+export interface CounterpartyPortfolioAdjustment {
+  id: string
+  baselineRWA: number
+  portfolioRwaAdjustment: PortfolioRwaAdjustment
+  percentageChange: number
+}
+
+export interface PortfolioAdjustmentSaveData {
+  portfolioAdjustment: PortfolioAdjustmentSummary
+  counterpartyAdjustments: CounterpartyPortfolioAdjustment[]
+}
+
+// Row shown in the adjustment preview tables
+interface CounterpartyAdjustmentRow extends Pick<Counterparty, "id" | "name" | "industry" | "region"> {
+  baselineRWA: number
+  adjustedRWA: number
+  absoluteChange: number
+  percentageChange: number
+  selected: boolean
+  hasExistingAdjustment: boolean
+}
+
+interface PortfolioAdjustmentPanelProps {
+  counterparties: Counterparty[]
+  calculationOptions: CalculationOptions
+  onSave: (data: PortfolioAdjustmentSaveData) => void
+  onRemove: (() => void) | null
+}
 
 // Format a number safely, returning a string and handling NaN/undefined
-const safeFormatNumber = (value, options = {}) => {
+const safeFormatNumber = (value: number, options: Intl.NumberFormatOptions = {}) => {
   if (value === undefined || value === null || isNaN(value)) {
     return "0"
   }
 
-  const defaultOptions = {
+  const defaultOptions: Intl.NumberFormatOptions = {
     style: "decimal",
     minimumFractionDigits: 0,
     maximumFractionDigits: 2,
@@ -32,7 +77,12 @@ const safeFormatNumber = (value, options = {}) => {
   return new Intl.NumberFormat("en-US", mergedOptions).format(value)
 }
 
-export function PortfolioAdjustmentPanel({ counterparties, onSave, onRemove }) {
+export function PortfolioAdjustmentPanel({
+  counterparties,
+  calculationOptions,
+  onSave,
+  onRemove,
+}: PortfolioAdjustmentPanelProps) {
   // Initialize state
   const [adjustmentType, setAdjustmentType] = useState("percentage")
   const [adjustmentValue, setAdjustmentValue] = useState("")
@@ -41,8 +91,8 @@ export function PortfolioAdjustmentPanel({ counterparties, onSave, onRemove }) {
   const [selectedCounterparties, setSelectedCounterparties] = useState(counterparties.map((cp) => cp.id))
 
   // Calculate baseline RWA for all counterparties
-  const counterpartyData = counterparties.map((cp) => {
-    const result = calculateRWA(cp)
+  const counterpartyData = counterparties.map((cp): CounterpartyAdjustmentRow => {
+    const result = calculateRWA(cp, calculationOptions)
     const baselineRWA = result.rwa || 0 // Ensure we have a valid number
 
     // Check if this counterparty already has an adjustment
@@ -66,7 +116,7 @@ export function PortfolioAdjustmentPanel({ counterparties, onSave, onRemove }) {
   const totalBaselineRWA = counterpartyData.filter((cp) => cp.selected).reduce((sum, cp) => sum + cp.baselineRWA, 0)
 
   // Calculate adjusted RWA based on inputs
-  const calculateAdjustedRWA = () => {
+  const calculateAdjustedRWA = (): CounterpartyAdjustmentRow[] => {
     if (adjustmentValue === "" || selectedCounterparties.length === 0) {
       return counterpartyData
     }
@@ -114,13 +164,14 @@ export function PortfolioAdjustmentPanel({ counterparties, onSave, onRemove }) {
           counterpartyAdjustment =
             selectedCounterparties.length > 0 ? totalAdjustmentAmount / selectedCounterparties.length : 0
           break
-        case "risk-weighted":
+        case "risk-weighted": {
           // Higher risk (higher RWA density) gets more adjustment
           // This is a simplified approach - could be refined further
           const selectedCPs = counterpartyData.filter((c) => c.selected)
           const totalRiskWeight = selectedCPs.reduce((sum, c) => sum + c.baselineRWA, 0)
           counterpartyAdjustment = totalRiskWeight > 0 ? totalAdjustmentAmount * (cp.baselineRWA / totalRiskWeight) : 0
           break
+        }
       }
 
       // Calculate the adjusted RWA based on the adjustment type
@@ -165,7 +216,7 @@ export function PortfolioAdjustmentPanel({ counterparties, onSave, onRemove }) {
   const totalAbsoluteChange = totalAdjustedRWA - totalBaselineRWA
   const totalPercentageChange = totalBaselineRWA > 0 ? (totalAbsoluteChange / totalBaselineRWA) * 100 : 0 // Add division by zero check
 
-  const handleToggleCounterparty = (id) => {
+  const handleToggleCounterparty = (id: string) => {
     setSelectedCounterparties((prev) => {
       if (prev.includes(id)) {
         return prev.filter((cpId) => cpId !== id)
@@ -181,7 +232,7 @@ export function PortfolioAdjustmentPanel({ counterparties, onSave, onRemove }) {
     }
 
     // Create the portfolio adjustment object
-    const portfolioAdjustment = {
+    const portfolioAdjustment: PortfolioAdjustmentSummary = {
       type: adjustmentType === "percentage" ? "multiplicative" : "additive",
       value: Number.parseFloat(adjustmentValue),
       distributionMethod,
@@ -197,9 +248,9 @@ export function PortfolioAdjustmentPanel({ counterparties, onSave, onRemove }) {
     // Create counterparty-specific adjustments
     const counterpartyAdjustments = adjustedCounterpartyData
       .filter((cp) => cp.selected)
-      .map((cp) => {
+      .map((cp): CounterpartyPortfolioAdjustment => {
         // Create the appropriate adjustment structure based on type
-        let adjustmentData = {}
+        let adjustmentData: PortfolioRwaAdjustment
 
         if (adjustmentType === "percentage") {
           // For percentage adjustments, store as multiplicative with a multiplier
@@ -0,0 +1,73 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { TIER2_PROVISION_CAP } from "@/lib/expected-loss-calculator"
+import type { ProvisionCapitalResult } from "@/lib/types"
+
+interface ProvisionComparisonProps {
+  title: string
+  description: string
+  provisionCapital: ProvisionCapitalResult
+}
+
+// Expected loss against provisions, with the resulting CET1 deduction or Tier 2 add-back
+export function ProvisionComparison({ title, description, provisionCapital }: ProvisionComparisonProps) {
+  const { expectedLoss, provisions, shortfall, cet1Deduction, tier2AddBack, tier2Cap, isTier2CapBinding } =
+    provisionCapital
+  const hasShortfall = shortfall > 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>{title}</CardTitle>
+          <Badge
+            variant="outline"
+            className={
+              hasShortfall
+                ? "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
+                : "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+            }
+          >
+            {hasShortfall ? "Provision shortfall" : "Provision excess"}
+          </Badge>
+        </div>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-1">
+            <div className="text-sm font-medium">Expected Loss</div>
+            <div className="text-2xl font-bold">${Math.round(expectedLoss).toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">PD x LGD x EAD across the portfolio</p>
+          </div>
+          <div className="space-y-1">
+            <div className="text-sm font-medium">Provisions</div>
+            <div className="text-2xl font-bold">${Math.round(provisions).toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">Eligible provisions held</p>
+          </div>
+          <div className="space-y-1">
+            <div className="text-sm font-medium">CET1 Deduction</div>
+            <div className="text-2xl font-bold">${Math.round(cet1Deduction).toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">Shortfall of provisions below expected loss</p>
+          </div>
+          <div className="space-y-1">
+            <div className="text-sm font-medium">Tier 2 Add-back</div>
+            <div className="text-2xl font-bold">${Math.round(tier2AddBack).toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">
+              Excess capped at {(TIER2_PROVISION_CAP * 100).toFixed(1)}% of credit RWA = $
+              {Math.round(tier2Cap).toLocaleString()}
+            </p>
+          </div>
+        </div>
+        {isTier2CapBinding && (
+          <p className="text-sm text-muted-foreground mt-4">
+            The Tier 2 cap excludes ${Math.round(provisionCapital.excess - tier2AddBack).toLocaleString()} of excess
+            provisions.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,203 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Bar, BarChart, CartesianGrid, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { compareRegimes, REGIME_DRIVER_LABELS, REGIME_DRIVERS } from "@/lib/regime-comparison"
+import { getRegulatoryProfile, REGULATORY_PROFILES } from "@/lib/regulatory-profiles"
+import type { CalculationOptions, Counterparty, RegimeDelta, RegulatoryProfileId } from "@/lib/types"
+
+interface RegimeComparisonProps {
+  counterparties: Counterparty[]
+  calculationOptions: CalculationOptions
+}
+
+const formatCurrency = (value: number) => `$${Math.round(value).toLocaleString()}`
+
+const formatDelta = (value: number) => `${value >= 0 ? "+" : "-"}$${Math.abs(Math.round(value)).toLocaleString()}`
+
+const deltaClass = (value: number) =>
+  value > 0 ? "text-red-600 dark:text-red-400" : value < 0 ? "text-green-600 dark:text-green-400" : ""
+
+// One row of a delta table: RWA under both profiles, the movement and its drivers
+function RegimeDeltaCells({ delta }: { delta: RegimeDelta }) {
+  return (
+    <>
+      <TableCell>{formatCurrency(delta.baseRwa)}</TableCell>
+      <TableCell>{formatCurrency(delta.targetRwa)}</TableCell>
+      <TableCell className={`font-medium ${deltaClass(delta.delta)}`}>
+        {formatDelta(delta.delta)}
+        <div className="text-xs text-muted-foreground">
+          {delta.baseRwa > 0 ? `${((delta.delta / delta.baseRwa) * 100).toFixed(1)}%` : "-"}
+        </div>
+      </TableCell>
+      {REGIME_DRIVERS.map((driver) => (
+        <TableCell key={driver} className={deltaClass(delta.drivers[driver])}>
+          {Math.abs(delta.drivers[driver]) >= 0.5 ? formatDelta(delta.drivers[driver]) : "-"}
+        </TableCell>
+      ))}
+    </>
+  )
+}
+
+function RegimeDeltaHeader({ label }: { label: string }) {
+  return (
+    <TableHeader>
+      <TableRow>
+        <TableHead>{label}</TableHead>
+        <TableHead>Base RWA</TableHead>
+        <TableHead>Target RWA</TableHead>
+        <TableHead>Change</TableHead>
+        {REGIME_DRIVERS.map((driver) => (
+          <TableHead key={driver}>{REGIME_DRIVER_LABELS[driver]}</TableHead>
+        ))}
+      </TableRow>
+    </TableHeader>
+  )
+}
+
+// Portfolio RWA under two regulatory profiles, with the movement split into parameter drivers
+export function RegimeComparison({ counterparties, calculationOptions }: RegimeComparisonProps) {
+  const [baseProfile, setBaseProfile] = useState<RegulatoryProfileId>("baselII")
+  const [targetProfile, setTargetProfile] = useState<RegulatoryProfileId>(
+    getRegulatoryProfile(calculationOptions.regulatoryProfile).id,
+  )
+
+  const comparison = useMemo(
+    () => compareRegimes(counterparties, baseProfile, targetProfile, calculationOptions),
+    [counterparties, baseProfile, targetProfile, calculationOptions],
+  )
+
+  const driverData = REGIME_DRIVERS.map((driver) => ({
+    name: REGIME_DRIVER_LABELS[driver],
+    value: comparison.total.drivers[driver],
+  }))
+
+  const profileSelect = (
+    id: string,
+    label: string,
+    value: RegulatoryProfileId,
+    onChange: (value: RegulatoryProfileId) => void,
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value} onValueChange={(newValue) => onChange(newValue as RegulatoryProfileId)}>
+        <SelectTrigger id={id} className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.values(REGULATORY_PROFILES).map((profile) => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">{getRegulatoryProfile(value).description}</p>
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Regime Comparison</CardTitle>
+        <CardDescription>
+          Portfolio RWA after the output floor under two regulatory profiles. Parameters are switched from the base to
+          the target one at a time, so the drivers add up to the total change.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {profileSelect("regime-base", "Base profile", baseProfile, setBaseProfile)}
+          {profileSelect("regime-target", "Target profile", targetProfile, setTargetProfile)}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <div className="text-sm font-medium">{getRegulatoryProfile(baseProfile).name} RWA</div>
+            <div className="text-2xl font-bold">{formatCurrency(comparison.total.baseRwa)}</div>
+          </div>
+          <div className="space-y-1">
+            <div className="text-sm font-medium">{getRegulatoryProfile(targetProfile).name} RWA</div>
+            <div className="text-2xl font-bold">{formatCurrency(comparison.total.targetRwa)}</div>
+          </div>
+          <div className="space-y-1">
+            <div className="text-sm font-medium">Change</div>
+            <div className={`text-2xl font-bold ${deltaClass(comparison.total.delta)}`}>
+              {formatDelta(comparison.total.delta)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {comparison.total.baseRwa > 0
+                ? `${((comparison.total.delta / comparison.total.baseRwa) * 100).toFixed(2)}% of base RWA`
+                : "No base RWA"}
+            </p>
+          </div>
+        </div>
+
+        <div className="h-[250px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={driverData} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis />
+              <Tooltip formatter={(value: number) => [formatDelta(value), "RWA change"]} />
+              <Bar dataKey="value" name="RWA change">
+                {driverData.map((entry) => (
+                  <Cell key={entry.name} fill={entry.value >= 0 ? "#ef4444" : "#10b981"} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <Tabs defaultValue="counterparty" className="w-full">
+          <TabsList className="grid w-full max-w-md grid-cols-3">
+            <TabsTrigger value="counterparty">Counterparty</TabsTrigger>
+            <TabsTrigger value="industry">Industry</TabsTrigger>
+            <TabsTrigger value="region">Region</TabsTrigger>
+          </TabsList>
+          <TabsContent value="counterparty" className="overflow-x-auto">
+            <Table>
+              <RegimeDeltaHeader label="Counterparty" />
+              <TableBody>
+                {comparison.counterparties.map((row) => (
+                  <TableRow key={row.id}>
+                    <TableCell className="font-medium">
+                      {row.name}
+                      <div className="text-xs text-muted-foreground">
+                        {row.industry} | {row.region}
+                      </div>
+                    </TableCell>
+                    <RegimeDeltaCells delta={row} />
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TabsContent>
+          {(["industry", "region"] as const).map((segment) => (
+            <TabsContent key={segment} value={segment} className="overflow-x-auto">
+              <Table>
+                <RegimeDeltaHeader label={segment === "industry" ? "Industry" : "Region"} />
+                <TableBody>
+                  {(segment === "industry" ? comparison.byIndustry : comparison.byRegion).map((row) => (
+                    <TableRow key={row.name}>
+                      <TableCell className="font-medium">
+                        {row.name}
+                        <div className="text-xs text-muted-foreground">{row.counterparties} counterparties</div>
+                      </TableCell>
+                      <RegimeDeltaCells delta={row} />
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TabsContent>
+          ))}
+        </Tabs>
+      </CardContent>
+    </Card>
+  )
+}
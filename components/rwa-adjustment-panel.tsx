@@ -11,24 +11,43 @@ import { calculateRWA } from "@/lib/rwa-calculator"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { Trash2 } from "lucide-react"
+import type { CalculationOptions, Counterparty, RwaAdjustment } from "@/lib/types"
+
+interface RWAAdjustmentPanelProps {
+  counterparty: Counterparty
+  calculationOptions: CalculationOptions
+  // Adjust one of the counterparty's facilities instead of the counterparty
+  facilityId?: string
+  onSave: (data: { rwaAdjustment: RwaAdjustment }) => void
+  onRemove: (() => void) | null
+}
 
-export function RWAAdjustmentPanel({ counterparty, onSave, onRemove }) {
-  const baselineRWA = calculateRWA(counterparty).rwa
+export function RWAAdjustmentPanel({
+  counterparty,
+  calculationOptions,
+  facilityId,
+  onSave,
+  onRemove,
+}: RWAAdjustmentPanelProps) {
+  // A facility is adjusted from its model RWA
+  const result = calculateRWA(counterparty, calculationOptions)
+  const facilityResult = facilityId ? result.facilities.find((facility) => facility.id === facilityId) : undefined
+  const baselineRWA = facilityResult ? facilityResult.originalRwa : result.rwa
 
   // Initialize state from existing adjustment if present
-  const existingAdjustment = counterparty.rwaAdjustment
+  const existingAdjustment = facilityId
+    ? counterparty.facilities?.find((facility) => facility.id === facilityId)?.rwaAdjustment
+    : counterparty.rwaAdjustment
 
-  const [adjustmentType, setAdjustmentType] = useState(existingAdjustment?.type || "percentage")
+  const [adjustmentType, setAdjustmentType] = useState<RwaAdjustment["type"]>(existingAdjustment?.type || "percentage")
 
   // Initialize adjustment value with a safe default
-  const getInitialAdjustmentValue = () => {
+  const getInitialAdjustmentValue = (): number | "" => {
     if (!existingAdjustment) return ""
 
     try {
-      const value =
-        adjustmentType === "percentage"
-          ? (existingAdjustment.adjustedRWA / baselineRWA - 1) * 100
-          : existingAdjustment.adjustedRWA - baselineRWA
+      const adjustedRWA = existingAdjustment.adjustedRWA ?? baselineRWA
+      const value = adjustmentType === "percentage" ? (adjustedRWA / baselineRWA - 1) * 100 : adjustedRWA - baselineRWA
 
       // Check if value is NaN or infinite
       if (isNaN(value) || !isFinite(value)) return ""
@@ -40,17 +59,16 @@ export function RWAAdjustmentPanel({ counterparty, onSave, onRemove }) {
     }
   }
 
-  const [adjustmentValue, setAdjustmentValue] = useState(getInitialAdjustmentValue())
+  const [adjustmentValue, setAdjustmentValue] = useState<number | "">(getInitialAdjustmentValue())
   const [reason, setReason] = useState(existingAdjustment?.reason || "")
 
   // Update adjustment value when type changes
   useEffect(() => {
     if (existingAdjustment) {
       try {
+        const adjustedRWA = existingAdjustment.adjustedRWA ?? baselineRWA
         const newValue =
-          adjustmentType === "percentage"
-            ? (existingAdjustment.adjustedRWA / baselineRWA - 1) * 100
-            : existingAdjustment.adjustedRWA - baselineRWA
+          adjustmentType === "percentage" ? (adjustedRWA / baselineRWA - 1) * 100 : adjustedRWA - baselineRWA
 
         // Check if value is NaN or infinite
         if (isNaN(newValue) || !isFinite(newValue)) {
@@ -66,7 +84,7 @@ export function RWAAdjustmentPanel({ counterparty, onSave, onRemove }) {
   }, [adjustmentType, existingAdjustment, baselineRWA])
 
   // Handle adjustment value change
-  const handleAdjustmentValueChange = (e) => {
+  const handleAdjustmentValueChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const inputValue = e.target.value
 
     // Allow empty string
@@ -88,7 +106,7 @@ export function RWAAdjustmentPanel({ counterparty, onSave, onRemove }) {
   const calculateAdjustedRWA = () => {
     if (adjustmentValue === "") return baselineRWA
 
-    const numValue = Number.parseFloat(adjustmentValue)
+    const numValue = adjustmentValue
 
     if (isNaN(numValue) || !isFinite(numValue)) return baselineRWA
 
@@ -112,14 +130,14 @@ export function RWAAdjustmentPanel({ counterparty, onSave, onRemove }) {
 
   const handleSave = () => {
     // Validate adjustment value
-    if (adjustmentValue === "" || isNaN(Number.parseFloat(adjustmentValue))) {
+    if (adjustmentValue === "" || isNaN(adjustmentValue)) {
       return
     }
 
-    const numValue = Number.parseFloat(adjustmentValue)
+    const numValue = adjustmentValue
 
     // Create the appropriate adjustment structure based on type
-    const rwaAdjustment = {
+    const rwaAdjustment: RwaAdjustment = {
       type: adjustmentType,
       value: numValue,
       adjustedRWA,
@@ -139,7 +157,7 @@ export function RWAAdjustmentPanel({ counterparty, onSave, onRemove }) {
   }
 
   // Format number safely
-  const safeFormatNumber = (value) => {
+  const safeFormatNumber = (value: number | undefined | null) => {
     if (value === undefined || value === null || isNaN(value) || !isFinite(value)) {
       return "0"
     }
@@ -160,7 +178,11 @@ export function RWAAdjustmentPanel({ counterparty, onSave, onRemove }) {
 
       <div>
         <Label className="text-base">Adjustment Type</Label>
-        <RadioGroup value={adjustmentType} onValueChange={setAdjustmentType} className="flex space-x-4 mt-2">
+        <RadioGroup
+          value={adjustmentType}
+          onValueChange={(value) => setAdjustmentType(value as RwaAdjustment["type"])}
+          className="flex space-x-4 mt-2"
+        >
           <div className="flex items-center space-x-2">
             <RadioGroupItem value="percentage" id="percentage" />
             <Label htmlFor="percentage">Percentage</Label>
@@ -1,10 +1,15 @@
 "use client"
 
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useMemo } from "react"
 import { calculateRWA } from "@/lib/rwa-calculator"
+import { applyOutputFloor, calculateStandardisedRWA } from "@/lib/standardised-calculator"
 import { calculateTtcPd } from "@/lib/ttc-pd-calculator"
+import { getRegulatoryProfile, REGULATORY_PROFILES } from "@/lib/regulatory-profiles"
+import { DEFAULT_MACRO_SCENARIO, getMacroScenario, MACRO_SCENARIOS } from "@/lib/macro-scenarios"
+import { DEFAULT_CAPITAL_BUFFERS, DEFAULT_CAPITAL_RESOURCES } from "@/lib/capital-ratios"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
 import { PlusCircle } from "lucide-react"
@@ -15,54 +20,134 @@ import { CreditReviewDialog } from "@/components/credit-review-dialog"
 import { RWAAdjustmentPanel } from "@/components/rwa-adjustment-panel"
 import { PortfolioAdjustmentPanel } from "@/components/portfolio-adjustment-panel"
 import { RWAPortfolioDashboard } from "@/components/rwa-portfolio-dashboard"
-import { AdjustmentHeatmap } from "@/components/adjustment-heatmap"
+import { AdjustmentHeatmap, type AdjustmentHeatmapEntry } from "@/components/adjustment-heatmap"
+import { ApproachComparison } from "@/components/approach-comparison"
+import { FacilityTable } from "@/components/facility-table"
 import { SensitivityAnalysis } from "@/components/sensitivity-analysis"
+import { RegimeComparison } from "@/components/regime-comparison"
+import { StressProjection } from "@/components/stress-projection"
+import { WhatIfScenarios } from "@/components/what-if-scenarios"
 import { ModuleDocumentation } from "@/components/module-documentation"
 import { TooltipProvider } from "@/components/ui/tooltip"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import type {
+  CalculationOptions,
+  CapitalBufferSettings,
+  CapitalResources,
+  Counterparty,
+  MacroScenarioId,
+  RegulatoryProfileId,
+  RwaAdjustment,
+  RwaResult,
+} from "@/lib/types"
+import type { CreditReviewData } from "@/components/credit-review-dialog"
+import type { PortfolioAdjustmentSaveData, PortfolioAdjustmentSummary } from "@/components/portfolio-adjustment-panel"
 
 // Generate initial counterparties data
 const initialCounterparties = generateCounterparties(20)
 const initialSelectedCounterparty = initialCounterparties[0]
 
+// RWA adjustment of a counterparty, or of one of its facilities when facilityId is set
+const getRwaAdjustment = (counterparty: Counterparty, facilityId: string | null): RwaAdjustment | undefined =>
+  facilityId === null
+    ? counterparty.rwaAdjustment
+    : counterparty.facilities?.find((facility) => facility.id === facilityId)?.rwaAdjustment
+
+// Set or clear the RWA adjustment of a counterparty, or of one of its facilities when facilityId is set
+const withRwaAdjustment = (
+  counterparty: Counterparty,
+  facilityId: string | null,
+  rwaAdjustment: RwaAdjustment | undefined,
+): Counterparty =>
+  facilityId === null
+    ? { ...counterparty, rwaAdjustment }
+    : {
+        ...counterparty,
+        facilities: counterparty.facilities?.map((facility) =>
+          facility.id === facilityId ? { ...facility, rwaAdjustment } : facility,
+        ),
+      }
+
 // Calculate initial RWA figures
-const getInitialRWA = (counterparty) => {
+const getInitialRWA = (counterparty: Counterparty): RwaResult => {
   return calculateRWA(counterparty)
 }
 
 export function RWADashboard() {
   // State
-  const [counterparties, setCounterparties] = useState(initialCounterparties)
-  const [selectedCounterparty, setSelectedCounterparty] = useState(initialSelectedCounterparty)
-  const [rwaResults, setRwaResults] = useState(getInitialRWA(selectedCounterparty))
-  const [selectedModule, setSelectedModule] = useState(null)
+  const [counterparties, setCounterparties] = useState<Counterparty[]>(initialCounterparties)
+  const [selectedCounterparty, setSelectedCounterparty] = useState<Counterparty>(initialSelectedCounterparty)
+  const [rwaResults, setRwaResults] = useState<RwaResult>(getInitialRWA(initialSelectedCounterparty))
+  const [selectedModule, setSelectedModule] = useState<string | null>(null)
   const [isDetailOpen, setIsDetailOpen] = useState(false)
   const [isCreditReviewOpen, setIsCreditReviewOpen] = useState(false)
   const [isRWAAdjustmentOpen, setIsRWAAdjustmentOpen] = useState(false)
+  // Facility being adjusted in the RWA adjustment dialog, null for the counterparty itself
+  const [adjustmentFacilityId, setAdjustmentFacilityId] = useState<string | null>(null)
   const [isPortfolioAdjustmentOpen, setIsPortfolioAdjustmentOpen] = useState(false)
   const [selectedCounterpartyId, setSelectedCounterpartyId] = useState(initialSelectedCounterparty.id)
-  const [portfolioAdjustment, setPortfolioAdjustment] = useState(null)
+  const [portfolioAdjustment, setPortfolioAdjustment] = useState<PortfolioAdjustmentSummary | null>(null)
   const [showPortfolioAdjustmentDialog, setShowPortfolioAdjustmentDialog] = useState(false)
+  // Options applied to every RWA calculation in the dashboard
+  // TTC PDs are derived under the live macro scenario
+  const [calculationOptions, setCalculationOptions] = useState<CalculationOptions>({
+    useSmeAdjustment: true,
+    macroScenario: DEFAULT_MACRO_SCENARIO,
+  })
+  // Capital entered in the capital panel, shared with the stress projection
+  const [capitalResources, setCapitalResources] = useState<CapitalResources>(DEFAULT_CAPITAL_RESOURCES)
+  const [capitalBuffers, setCapitalBuffers] = useState<CapitalBufferSettings>(DEFAULT_CAPITAL_BUFFERS)
+  const regulatoryProfile = getRegulatoryProfile(calculationOptions.regulatoryProfile)
+  const macroScenario = getMacroScenario(calculationOptions.macroScenario)
+
+  // Adjustment summary per counterparty for the heatmap
+  const adjustmentHeatmapEntries = useMemo<AdjustmentHeatmapEntry[]>(
+    () =>
+      counterparties.map((cp) => {
+        const result = calculateRWA(cp, calculationOptions)
+        return {
+          id: cp.id,
+          name: cp.name,
+          industry: cp.industry,
+          region: cp.region,
+          adjustmentPercentage: result.originalRwa > 0 ? (result.rwa / result.originalRwa - 1) * 100 : 0,
+          hasAdjustment: result.hasAdjustment,
+          hasCounterpartyAdjustment:
+            cp.rwaAdjustment !== undefined || result.facilities.some((facility) => facility.hasAdjustment),
+          hasPortfolioAdjustment: result.hasPortfolioAdjustment,
+        }
+      }),
+    [calculationOptions, counterparties],
+  )
+
+  // Standardised approach and output floor for the selected counterparty
+  const standardisedResult = useMemo(() => calculateStandardisedRWA(selectedCounterparty), [selectedCounterparty])
+  const outputFloorResult = useMemo(
+    () => applyOutputFloor(rwaResults.rwa, standardisedResult.rwa, regulatoryProfile.outputFloor),
+    [rwaResults.rwa, standardisedResult.rwa, regulatoryProfile.outputFloor],
+  )
 
   // Recalculate RWA when selected counterparty changes
   useEffect(() => {
-    const results = calculateRWA(selectedCounterparty)
+    const results = calculateRWA(selectedCounterparty, calculationOptions)
     console.log("Selected counterparty changed, new RWA results:", results)
     setRwaResults(results)
-  }, [selectedCounterparty])
+  }, [calculationOptions, selectedCounterparty])
 
   // Handle counterparty selection
-  const handleSelectCounterparty = useCallback((counterparty) => {
+  const handleSelectCounterparty = useCallback((counterparty: Counterparty) => {
     console.log("Selecting counterparty:", counterparty.name, counterparty.id)
     // Force a new object reference to ensure React detects the state change
-    const counterpartyCopy = JSON.parse(JSON.stringify(counterparty))
+    const counterpartyCopy: Counterparty = JSON.parse(JSON.stringify(counterparty))
     setSelectedCounterparty(counterpartyCopy)
     setSelectedCounterpartyId(counterparty.id)
     // Immediately calculate new RWA results
-    const newResults = calculateRWA(counterpartyCopy)
+    const newResults = calculateRWA(counterpartyCopy, calculationOptions)
     console.log("New RWA results:", newResults)
     setRwaResults(newResults)
-  }, [])
+  }, [calculationOptions])
 
   // Handle discarding credit review
   const handleDiscardCreditReview = useCallback(() => {
@@ -72,11 +157,11 @@ export function RWADashboard() {
 
   // Handle credit review completion
   const handleCreditReviewComplete = useCallback(
-    (updatedData) => {
+    (updatedData: CreditReviewData) => {
       console.log("Credit review completed with data:", updatedData)
 
       // Update the selected counterparty with the new PD value
-      const updatedCounterparty = {
+      const updatedCounterparty: Counterparty = {
         ...selectedCounterparty,
         ...updatedData,
         lastReviewDate: new Date().toISOString(),
@@ -106,25 +191,22 @@ export function RWADashboard() {
       setCounterparties(updatedCounterparties)
 
       // Calculate new RWA results with updated data
-      const newResults = calculateRWA(updatedCounterparty)
+      const newResults = calculateRWA(updatedCounterparty, calculationOptions)
       setRwaResults(newResults)
 
       // Close the dialog
       setIsCreditReviewOpen(false)
     },
-    [counterparties, selectedCounterparty],
+    [calculationOptions, counterparties, selectedCounterparty],
   )
 
   // Handle RWA adjustment
   const handleRWAAdjustment = useCallback(
-    ({ rwaAdjustment }) => {
+    ({ rwaAdjustment }: { rwaAdjustment: RwaAdjustment }) => {
       console.log("Applying RWA adjustment:", rwaAdjustment)
 
-      // Update selected counterparty with adjustment
-      const updatedCounterparty = {
-        ...selectedCounterparty,
-        rwaAdjustment: rwaAdjustment,
-      }
+      // Update selected counterparty, or the facility being adjusted, with adjustment
+      const updatedCounterparty = withRwaAdjustment(selectedCounterparty, adjustmentFacilityId, rwaAdjustment)
 
       // Update counterparties list
       const updatedCounterparties = counterparties.map((cp) => {
@@ -139,18 +221,18 @@ export function RWADashboard() {
       setCounterparties(updatedCounterparties)
 
       // Calculate new RWA results with the adjustment
-      const newResults = calculateRWA(updatedCounterparty)
+      const newResults = calculateRWA(updatedCounterparty, calculationOptions)
       console.log("New RWA results after adjustment:", newResults)
       setRwaResults(newResults)
 
       setIsRWAAdjustmentOpen(false)
     },
-    [counterparties, selectedCounterparty],
+    [adjustmentFacilityId, calculationOptions, counterparties, selectedCounterparty],
   )
 
   // Handle portfolio RWA adjustment
   const handlePortfolioAdjustment = useCallback(
-    ({ portfolioAdjustment, counterpartyAdjustments }) => {
+    ({ portfolioAdjustment, counterpartyAdjustments }: PortfolioAdjustmentSaveData) => {
       // Update counterparties with portfolio adjustments
       const updatedCounterparties = [...counterparties]
 
@@ -182,9 +264,8 @@ export function RWADashboard() {
   const handleRemoveRWAAdjustment = useCallback(() => {
     console.log("Removing RWA adjustment")
 
-    // Update selected counterparty by removing the adjustment
-    const updatedCounterparty = { ...selectedCounterparty }
-    delete updatedCounterparty.rwaAdjustment
+    // Update selected counterparty, or the facility being adjusted, by removing the adjustment
+    const updatedCounterparty = withRwaAdjustment(selectedCounterparty, adjustmentFacilityId, undefined)
 
     // Update counterparties list
     const updatedCounterparties = counterparties.map((cp) => {
@@ -199,12 +280,18 @@ export function RWADashboard() {
     setCounterparties(updatedCounterparties)
 
     // Calculate new RWA results without the adjustment
-    const newResults = calculateRWA(updatedCounterparty)
+    const newResults = calculateRWA(updatedCounterparty, calculationOptions)
     console.log("New RWA results after removing adjustment:", newResults)
     setRwaResults(newResults)
 
     setIsRWAAdjustmentOpen(false)
-  }, [counterparties, selectedCounterparty])
+  }, [adjustmentFacilityId, calculationOptions, counterparties, selectedCounterparty])
+
+  // Open the RWA adjustment dialog for the counterparty or one of its facilities
+  const openRWAAdjustment = useCallback((facilityId: string | null) => {
+    setAdjustmentFacilityId(facilityId)
+    setIsRWAAdjustmentOpen(true)
+  }, [])
 
   // Remove portfolio RWA adjustment
   const removePortfolioAdjustment = useCallback(() => {
@@ -226,7 +313,7 @@ export function RWADashboard() {
 
   // Handle counterparty update from module detail
   const handleCounterpartyUpdate = useCallback(
-    (updatedCounterparty) => {
+    (updatedCounterparty: Counterparty) => {
       // Update counterparty in list
       const updatedCounterparties = counterparties.map((cp) => {
         if (cp.id === updatedCounterparty.id) {
@@ -238,14 +325,14 @@ export function RWADashboard() {
       // Update state
       setSelectedCounterparty(updatedCounterparty)
       setCounterparties(updatedCounterparties)
-      setRwaResults(calculateRWA(updatedCounterparty))
+      setRwaResults(calculateRWA(updatedCounterparty, calculationOptions))
     },
-    [counterparties],
+    [calculationOptions, counterparties],
   )
 
   // Handle counterparty selection from dropdown
   const handleCounterpartyChange = useCallback(
-    (value) => {
+    (value: string) => {
       console.log("Select value changed to:", value)
       const counterparty = counterparties.find((cp) => cp.id === value)
       if (counterparty) {
@@ -259,7 +346,7 @@ export function RWADashboard() {
   )
 
   // Format a number safely, returning a string and handling NaN/undefined
-  const safeFormatNumber = (value) => {
+  const safeFormatNumber = (value: number | undefined | null) => {
     if (value === undefined || value === null || isNaN(value)) {
       return "0"
     }
@@ -272,30 +359,90 @@ export function RWADashboard() {
         <div className="flex justify-between items-center mb-6">
           <div>
             <h1 className="text-3xl font-bold tracking-tight">RWA Calculator</h1>
-            <p className="text-muted-foreground">Basel III Risk-Weighted Assets calculation based on IRB approach</p>
+            <p className="text-muted-foreground">
+              {regulatoryProfile.name} Risk-Weighted Assets calculation based on IRB approach
+            </p>
+            <Badge variant="outline" className="mt-2" title={macroScenario.description}>
+              Live scenario: {macroScenario.name}
+            </Badge>
           </div>
 
-          {/* Add counterparty selector */}
-          <div className="w-64">
-            <Select value={selectedCounterpartyId} onValueChange={handleCounterpartyChange}>
-              <SelectTrigger className="w-full">
-                <SelectValue placeholder="Select Counterparty" />
-              </SelectTrigger>
-              <SelectContent>
-                {counterparties.map((cp) => (
-                  <SelectItem key={cp.id} value={cp.id}>
-                    {cp.name}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+          <div className="flex items-center space-x-6">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="sme-adjustment"
+                checked={calculationOptions.useSmeAdjustment !== false}
+                onCheckedChange={(useSmeAdjustment) => setCalculationOptions((prev) => ({ ...prev, useSmeAdjustment }))}
+              />
+              <Label htmlFor="sme-adjustment">SME adjustment</Label>
+            </div>
+
+            {/* Regulatory profile with its floors and scaling, applied to every calculation */}
+            <div className="w-52">
+              <Select
+                value={regulatoryProfile.id}
+                onValueChange={(value) =>
+                  setCalculationOptions((prev) => ({ ...prev, regulatoryProfile: value as RegulatoryProfileId }))
+                }
+              >
+                <SelectTrigger className="w-full" aria-label="Regulatory profile">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(REGULATORY_PROFILES).map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Macro scenario that sets the economic conditions of the PIT-to-TTC PD conversion */}
+            <div className="w-44">
+              <Select
+                value={macroScenario.id}
+                onValueChange={(value) =>
+                  setCalculationOptions((prev) => ({ ...prev, macroScenario: value as MacroScenarioId }))
+                }
+              >
+                <SelectTrigger className="w-full" aria-label="Macro scenario">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(MACRO_SCENARIOS).map((scenario) => (
+                    <SelectItem key={scenario.id} value={scenario.id}>
+                      {scenario.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Add counterparty selector */}
+            <div className="w-64">
+              <Select value={selectedCounterpartyId} onValueChange={handleCounterpartyChange}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select Counterparty" />
+                </SelectTrigger>
+                <SelectContent>
+                  {counterparties.map((cp) => (
+                    <SelectItem key={cp.id} value={cp.id}>
+                      {cp.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </div>
 
         <Tabs defaultValue="counterparty" className="space-y-4">
-          <TabsList className="grid w-full max-w-md grid-cols-3">
+          <TabsList className="grid w-full max-w-2xl grid-cols-5">
             <TabsTrigger value="counterparty">Counterparty</TabsTrigger>
             <TabsTrigger value="portfolio">Portfolio</TabsTrigger>
+            <TabsTrigger value="regimes">Regimes</TabsTrigger>
+            <TabsTrigger value="stress">Stress</TabsTrigger>
             <TabsTrigger value="analysis">Analysis</TabsTrigger>
           </TabsList>
           <TabsContent value="counterparty" className="space-y-4">
@@ -323,6 +470,13 @@ export function RWADashboard() {
                   <p className="text-xs text-muted-foreground">
                     {selectedCounterparty.industry} | {selectedCounterparty.region}
                   </p>
+                  {rwaResults.isDefaulted && (
+                    <Badge variant="destructive" className="mt-2">
+                      Defaulted
+                      {selectedCounterparty.defaultDate &&
+                        ` since ${new Date(selectedCounterparty.defaultDate).toLocaleDateString()}`}
+                    </Badge>
+                  )}
                 </CardContent>
               </Card>
               <Card>
@@ -403,6 +557,12 @@ export function RWADashboard() {
                 </CardContent>
               </Card>
             </div>
+            <ApproachComparison
+              title="IRB vs Standardised Approach"
+              description={`IRB, SA and output-floored RWA for ${selectedCounterparty.name}`}
+              floorResult={outputFloorResult}
+              standardised={standardisedResult}
+            />
             {/* Main Content */}
             <div className="grid gap-4 md:grid-cols-1">
               <Card className="col-span-1">
@@ -413,7 +573,7 @@ export function RWADashboard() {
                       <Button variant="outline" onClick={() => setIsCreditReviewOpen(true)}>
                         Perform Credit Review
                       </Button>
-                      <Button variant="outline" onClick={() => setIsRWAAdjustmentOpen(true)}>
+                      <Button variant="outline" onClick={() => openRWAAdjustment(null)}>
                         Adjust Counterparty RWA
                       </Button>
                     </div>
@@ -426,7 +586,7 @@ export function RWADashboard() {
                   <ModuleFlowchart
                     counterparty={selectedCounterparty}
                     rwaResults={rwaResults}
-                    onSelectModule={(module) => {
+                    onSelectModule={(module: string) => {
                       setSelectedModule(module)
                       setIsDetailOpen(true)
                     }}
@@ -437,6 +597,14 @@ export function RWADashboard() {
                 </CardContent>
               </Card>
             </div>
+            {rwaResults.facilities.length > 0 && (
+              <FacilityTable
+                counterparty={selectedCounterparty}
+                facilities={rwaResults.facilities}
+                onUpdateCounterparty={handleCounterpartyUpdate}
+                onAdjustFacility={openRWAAdjustment}
+              />
+            )}
           </TabsContent>
           <TabsContent value="portfolio" className="space-y-4">
             <div className="grid gap-4 md:grid-cols-1">
@@ -454,14 +622,19 @@ export function RWADashboard() {
                 <CardContent>
                   <RWAPortfolioDashboard
                     counterparties={counterparties}
+                    calculationOptions={calculationOptions}
                     selectedCounterparty={selectedCounterparty}
                     onSelectCounterparty={handleSelectCounterparty}
-                    onEadUpdate={(updatedCounterparties) => {
+                    capitalResources={capitalResources}
+                    capitalBuffers={capitalBuffers}
+                    onCapitalResourcesChange={setCapitalResources}
+                    onCapitalBuffersChange={setCapitalBuffers}
+                    onEadUpdate={(updatedCounterparties: Counterparty[]) => {
                       setCounterparties(updatedCounterparties)
                       const updatedSelected = updatedCounterparties.find((cp) => cp.id === selectedCounterparty.id)
                       if (updatedSelected) {
                         setSelectedCounterparty(updatedSelected)
-                        setRwaResults(calculateRWA(updatedSelected))
+                        setRwaResults(calculateRWA(updatedSelected, calculationOptions))
                       }
                     }}
                   />
@@ -478,12 +651,25 @@ export function RWADashboard() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="pt-6">
-                  <AdjustmentHeatmap counterparties={counterparties} />
+                  <AdjustmentHeatmap counterparties={adjustmentHeatmapEntries} />
                 </CardContent>
               </Card>
             </div>
           </TabsContent>
+          <TabsContent value="regimes" className="space-y-4">
+            <RegimeComparison counterparties={counterparties} calculationOptions={calculationOptions} />
+          </TabsContent>
+          <TabsContent value="stress" className="space-y-4">
+            <StressProjection
+              counterparties={counterparties}
+              calculationOptions={calculationOptions}
+              capitalResources={capitalResources}
+              capitalBuffers={capitalBuffers}
+            />
+          </TabsContent>
           <TabsContent value="analysis" className="space-y-4">
+            <WhatIfScenarios counterparties={counterparties} calculationOptions={calculationOptions} />
+
             <div className="grid gap-4 md:grid-cols-1">
               <Card className="col-span-1">
                 <CardHeader>
@@ -493,7 +679,11 @@ export function RWADashboard() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <SensitivityAnalysis counterparty={selectedCounterparty} />
+                  <SensitivityAnalysis
+                    counterparty={selectedCounterparty}
+                    counterparties={counterparties}
+                    calculationOptions={calculationOptions}
+                  />
                 </CardContent>
               </Card>
             </div>
@@ -520,6 +710,7 @@ export function RWADashboard() {
                 moduleId={selectedModule}
                 counterpartyData={selectedCounterparty}
                 results={rwaResults}
+                calculationOptions={calculationOptions}
                 onUpdateCounterparty={handleCounterpartyUpdate}
                 onClose={() => setIsDetailOpen(false)}
               />
@@ -543,11 +734,18 @@ export function RWADashboard() {
         {/* RWA Adjustment Dialog */}
         <Dialog open={isRWAAdjustmentOpen} onOpenChange={setIsRWAAdjustmentOpen}>
           <DialogContent className="max-w-3xl">
-            <DialogTitle>RWA Adjustment</DialogTitle>
+            <DialogTitle>
+              {adjustmentFacilityId ? `Facility RWA Adjustment (${adjustmentFacilityId})` : "RWA Adjustment"}
+            </DialogTitle>
             <RWAAdjustmentPanel
+              key={adjustmentFacilityId ?? selectedCounterparty.id}
               counterparty={selectedCounterparty}
+              calculationOptions={calculationOptions}
+              facilityId={adjustmentFacilityId ?? undefined}
               onSave={handleRWAAdjustment}
-              onRemove={selectedCounterparty.rwaAdjustment ? handleRemoveRWAAdjustment : null}
+              onRemove={
+                getRwaAdjustment(selectedCounterparty, adjustmentFacilityId) ? handleRemoveRWAAdjustment : null
+              }
             />
           </DialogContent>
         </Dialog>
@@ -557,6 +755,7 @@ export function RWADashboard() {
           <DialogContent size="full" className="max-h-[90vh] overflow-y-auto">
             <PortfolioAdjustmentPanel
               counterparties={counterparties}
+              calculationOptions={calculationOptions}
               onSave={handlePortfolioAdjustment}
               onRemove={counterparties.some((cp) => cp.portfolioRwaAdjustment) ? removePortfolioAdjustment : null}
             />
@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { calculateRWA } from "@/lib/rwa-calculator"
+import { scaleExposure } from "@/lib/ead-calculator"
 import { ChartWrapper } from "@/components/chart-wrapper"
 import {
   BarChart,
@@ -26,27 +27,115 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Tooltip as UITooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { AdjustmentHeatmap } from "@/components/adjustment-heatmap"
+import type {
+  CalculationOptions,
+  CapitalBufferSettings,
+  CapitalResources,
+  Counterparty,
+  IrbApproach,
+} from "@/lib/types"
+import { applyOutputFloor, calculateStandardisedRWA } from "@/lib/standardised-calculator"
+import { getRegulatoryProfile } from "@/lib/regulatory-profiles"
+import { calculateProvisionCapital } from "@/lib/expected-loss-calculator"
+import { ApproachComparison } from "@/components/approach-comparison"
+import { ProvisionComparison } from "@/components/provision-comparison"
+import { CapitalPanel } from "@/components/capital-panel"
+
+// Per-counterparty row of the portfolio table, built from the counterparty and its RwaResult
+export interface CounterpartyRwaRow
+  extends Pick<Counterparty, "id" | "name" | "industry" | "region" | "isFinancial" | "pd" | "ttcPd" | "lgd" | "ead"> {
+  approach: IrbApproach
+  isDefaulted: boolean
+  adjustedEad: number
+  baselineRWA: number
+  rwa: number
+  hasAdjustment: boolean
+  hasCounterpartyAdjustment: boolean
+  hasPortfolioAdjustment: boolean
+  totalAdjustment: number
+  adjustmentPercentage: number
+  rwaDensity: number
+  adjustmentIntensity: number
+  adjustmentDirection: "positive" | "negative"
+  saRwa: number
+  flooredRwa: number
+  isInputFloorBinding: boolean
+  inputFloorRwaAddOn: number
+  expectedLoss: number
+  provisions: number
+}
+
+// Aggregated RWA for an industry or region
+interface SegmentTotals {
+  rwa: number
+  baselineRWA: number
+  adjustment: number
+  ead: number
+  counterparties: number
+  adjustedCounterparties: number
+}
+
+type SortField =
+  | "ttcPd"
+  | "ead"
+  | "baselineRWA"
+  | "rwa"
+  | "saRwa"
+  | "flooredRwa"
+  | "expectedLoss"
+  | "adjustmentPercentage"
+  | "rwaDensity"
+
+interface OptimizationResult {
+  success: boolean
+  message: string
+  targetRwa?: number
+  achievedRwa?: number
+}
+
+interface RWAPortfolioDashboardProps {
+  counterparties: Counterparty[]
+  calculationOptions: CalculationOptions
+  onEadUpdate: (counterparties: Counterparty[]) => void
+  onSelectCounterparty?: (counterparty: Counterparty) => void
+  selectedCounterparty?: Counterparty
+  capitalResources: CapitalResources
+  capitalBuffers: CapitalBufferSettings
+  onCapitalResourcesChange: (resources: CapitalResources) => void
+  onCapitalBuffersChange: (buffers: CapitalBufferSettings) => void
+}
 
-export function RWAPortfolioDashboard({ counterparties, onEadUpdate, onSelectCounterparty, selectedCounterparty }) {
+export function RWAPortfolioDashboard({
+  counterparties,
+  calculationOptions,
+  onEadUpdate,
+  onSelectCounterparty,
+  selectedCounterparty,
+  capitalResources,
+  capitalBuffers,
+  onCapitalResourcesChange,
+  onCapitalBuffersChange,
+}: RWAPortfolioDashboardProps) {
+  const regulatoryProfile = getRegulatoryProfile(calculationOptions.regulatoryProfile)
   const [targetRWA, setTargetRWA] = useState("")
   const [chartView, setChartView] = useState("industry")
 
   // Store original EAD values for reset functionality
   const originalEadAdjustments = useMemo(() => {
-    return counterparties.reduce((acc, cp) => {
+    return counterparties.reduce<Record<string, number>>((acc, cp) => {
       acc[cp.id] = 1 // Start with no adjustment (multiplier of 1)
       return acc
     }, {})
   }, [counterparties])
 
-  const [eadAdjustments, setEadAdjustments] = useState(originalEadAdjustments)
-  const [optimizationResult, setOptimizationResult] = useState(null)
+  const [eadAdjustments, setEadAdjustments] = useState<Record<string, number>>(originalEadAdjustments)
+  const [optimizationResult, setOptimizationResult] = useState<OptimizationResult | null>(null)
 
   // Add these after the existing state declarations
-  const [sortField, setSortField] = useState("ttcPd")
+  const [sortField, setSortField] = useState<SortField>("ttcPd")
   const [sortDirection, setSortDirection] = useState("desc") // desc = highest first
 
-  const handleSort = (field) => {
+  const handleSort = (field: SortField) => {
     if (sortField === field) {
       // Toggle direction if clicking the same field
       setSortDirection(sortDirection === "asc" ? "desc" : "asc")
@@ -65,7 +154,7 @@ export function RWAPortfolioDashboard({ counterparties, onEadUpdate, onSelectCou
   }, [originalEadAdjustments])
 
   // Handle EAD adjustment for a specific counterparty - use useCallback to prevent infinite loops
-  const handleEadAdjustment = useCallback((counterpartyId, value) => {
+  const handleEadAdjustment = useCallback((counterpartyId: string, value: number) => {
     setEadAdjustments((prev) => ({
       ...prev,
       [counterpartyId]: value,
@@ -74,13 +163,12 @@ export function RWAPortfolioDashboard({ counterparties, onEadUpdate, onSelectCou
 
   // Calculate total portfolio metrics
   const portfolioMetrics = useMemo(() => {
-    const adjustedCounterparties = counterparties.map((cp) => ({
-      ...cp,
-      ead: cp.ead * (eadAdjustments[cp.id] || 1),
-    }))
+    const adjustedCounterparties = counterparties.map((cp) => scaleExposure(cp, eadAdjustments[cp.id] || 1))
 
-    const rwaResults = adjustedCounterparties.map((cp) => {
-      const result = calculateRWA(cp)
+    const rwaResults = adjustedCounterparties.map((cp): CounterpartyRwaRow => {
+      const result = calculateRWA(cp, calculationOptions)
+      const ead = result.ead / (eadAdjustments[cp.id] || 1)
+      const standardised = calculateStandardisedRWA(cp)
 
       // Get the baseline RWA before any adjustments
       const baselineRWA = result.originalRwa || result.rwa || 0
@@ -93,31 +181,25 @@ export function RWAPortfolioDashboard({ counterparties, onEadUpdate, onSelectCou
       const hasAdjustment = Math.abs(totalAdjustment) > 0.01 // Use a small threshold to account for floating point errors
 
       // Check if this counterparty has any type of adjustment
-      const hasCounterpartyAdjustment = cp.rwaAdjustment !== undefined
+      // Facility adjustments count as counterparty adjustments
+      const hasCounterpartyAdjustment =
+        cp.rwaAdjustment !== undefined || result.facilities.some((facility) => facility.hasAdjustment)
       const hasPortfolioAdjustment = cp.portfolioRwaAdjustment !== undefined
 
-      // Debug log to check RWA calculation results
-      console.log(`Counterparty ${cp.name} RWA calculation:`, {
-        baselineRWA,
-        adjustedRWA,
-        totalAdjustment,
-        hasAdjustment,
-        hasCounterpartyAdjustment,
-        hasPortfolioAdjustment,
-        result,
-      })
-
       return {
         id: cp.id,
         name: cp.name,
         industry: cp.industry,
         region: cp.region,
         isFinancial: cp.isFinancial,
-        pd: cp.pd,
-        ttcPd: cp.ttcPd,
-        lgd: cp.lgd,
-        ead: cp.ead,
-        adjustedEad: cp.ead * (eadAdjustments[cp.id] || 1),
+        // PDs and LGD as used in the calculation, e.g. the TTC PD derived under the live macro scenario
+        pd: result.pd,
+        ttcPd: result.ttcPd,
+        lgd: result.lgd,
+        ead,
+        approach: result.irbApproach,
+        isDefaulted: result.isDefaulted,
+        adjustedEad: result.ead,
         baselineRWA: baselineRWA,
         rwa: adjustedRWA,
         hasAdjustment,
@@ -125,14 +207,20 @@ export function RWAPortfolioDashboard({ counterparties, onEadUpdate, onSelectCou
         hasPortfolioAdjustment,
         totalAdjustment: totalAdjustment,
         adjustmentPercentage: baselineRWA > 0 ? (adjustedRWA / baselineRWA - 1) * 100 : 0,
-        rwaDensity: cp.ead > 0 ? (adjustedRWA / cp.ead) * 100 : 0,
+        rwaDensity: result.ead > 0 ? (adjustedRWA / result.ead) * 100 : 0,
         adjustmentIntensity: hasAdjustment && baselineRWA > 0 ? Math.abs((adjustedRWA / baselineRWA - 1) * 100) : 0,
         adjustmentDirection: totalAdjustment >= 0 ? "positive" : "negative",
+        saRwa: standardised.rwa,
+        flooredRwa: applyOutputFloor(adjustedRWA, standardised.rwa, regulatoryProfile.outputFloor).flooredRwa,
+        isInputFloorBinding: result.floors.isPdFloorBinding || result.floors.isLgdFloorBinding,
+        inputFloorRwaAddOn: result.floors.rwaAddOn,
+        expectedLoss: result.expectedLoss.expectedLoss,
+        provisions: result.expectedLoss.provisions,
       }
     })
 
     // Group by industry and region
-    const byIndustry = rwaResults.reduce((acc, cp) => {
+    const byIndustry = rwaResults.reduce<Record<string, SegmentTotals>>((acc, cp) => {
       if (!acc[cp.industry]) {
         acc[cp.industry] = {
           rwa: 0,
@@ -154,7 +242,7 @@ export function RWAPortfolioDashboard({ counterparties, onEadUpdate, onSelectCou
       return acc
     }, {})
 
-    const byRegion = rwaResults.reduce((acc, cp) => {
+    const byRegion = rwaResults.reduce<Record<string, SegmentTotals>>((acc, cp) => {
       if (!acc[cp.region]) {
         acc[cp.region] = {
           rwa: 0,
@@ -179,6 +267,14 @@ export function RWAPortfolioDashboard({ counterparties, onEadUpdate, onSelectCou
     const totalEad = rwaResults.reduce((sum, cp) => sum + (cp.adjustedEad || 0), 0)
     const totalBaselineRWA = rwaResults.reduce((sum, cp) => sum + (cp.baselineRWA || 0), 0)
     const totalRwa = rwaResults.reduce((sum, cp) => sum + (cp.rwa || 0), 0)
+    const totalSaRwa = rwaResults.reduce((sum, cp) => sum + cp.saRwa, 0)
+
+    // The output floor applies to portfolio totals, not to the sum of counterparty floors
+    const outputFloor = applyOutputFloor(totalRwa, totalSaRwa, regulatoryProfile.outputFloor)
+    // RWA added by the regulatory PD and LGD floors before any adjustments
+    const totalInputFloorAddOn = rwaResults.reduce((sum, cp) => sum + cp.inputFloorRwaAddOn, 0)
+    // Expected loss and provisions are netted across the portfolio against credit RWA
+    const provisionCapital = calculateProvisionCapital(rwaResults, totalRwa)
     const totalAdjustment = totalRwa - totalBaselineRWA
     const avgRwaDensity = totalEad > 0 ? (totalRwa / totalEad) * 100 : 0
     const avgPd =
@@ -212,40 +308,34 @@ export function RWAPortfolioDashboard({ counterparties, onEadUpdate, onSelectCou
       adjustmentRatio: data.counterparties > 0 ? data.adjustedCounterparties / data.counterparties : 0,
     }))
 
-    // Debug log to check portfolio metrics
-    console.log("Portfolio Metrics:", {
-      totalEad,
-      totalBaselineRWA,
-      totalRwa,
-      totalAdjustment,
-      avgRwaDensity,
-    })
-
     return {
       counterpartyResults: rwaResults,
       totalEad,
       totalBaselineRWA,
       totalRwa,
+      totalSaRwa,
+      outputFloor,
+      totalInputFloorAddOn,
+      inputFlooredCounterparties: rwaResults.filter((cp) => cp.isInputFloorBinding).length,
+      provisionCapital,
       totalAdjustment,
       avgRwaDensity,
       avgPd,
       avgLgd,
       industryData,
       regionData,
+      rwaByRegion: Object.fromEntries(regionData.map((region) => [region.name, region.rwa])),
       hasAdjustments: Math.abs(totalBaselineRWA - totalRwa) > 0.01, // Use a small threshold
       totalAdjustmentPercentage: totalBaselineRWA > 0 ? (totalRwa / totalBaselineRWA - 1) * 100 : 0,
       adjustedCounterparties: rwaResults.filter((cp) => cp.hasCounterpartyAdjustment || cp.hasPortfolioAdjustment)
         .length,
       totalCounterparties: rwaResults.length,
     }
-  }, [counterparties, eadAdjustments])
+  }, [calculationOptions, counterparties, eadAdjustments, regulatoryProfile.outputFloor])
 
   // Apply all EAD adjustments to the counterparties
   const applyAdjustments = useCallback(() => {
-    const updatedCounterparties = counterparties.map((cp) => ({
-      ...cp,
-      ead: cp.ead * eadAdjustments[cp.id],
-    }))
+    const updatedCounterparties = counterparties.map((cp) => scaleExposure(cp, eadAdjustments[cp.id] || 1))
     onEadUpdate(updatedCounterparties)
   }, [counterparties, eadAdjustments, onEadUpdate])
 
@@ -257,13 +347,9 @@ export function RWAPortfolioDashboard({ counterparties, onEadUpdate, onSelectCou
     }
 
     // Sort counterparties by TTC PD (highest first) to prioritize reducing exposure to riskier counterparties
-    const sortedCounterparties = [...counterparties].sort((a, b) => {
-      if (sortDirection === "asc") {
-        return a[sortField] - b[sortField]
-      } else {
-        return b[sortField] - a[sortField]
-      }
-    })
+    const sortedCounterparties = counterparties
+      .map((cp) => ({ cp, result: calculateRWA(cp, calculationOptions) }))
+      .sort((a, b) => b.result.ttcPd - a.result.ttcPd)
 
     // Calculate current total RWA
     const currentTotalRWA = portfolioMetrics.totalRwa
@@ -286,15 +372,14 @@ export function RWAPortfolioDashboard({ counterparties, onEadUpdate, onSelectCou
     let reductionAchieved = 0
 
     // Iterate through counterparties starting with highest TTC PD
-    for (const cp of sortedCounterparties) {
+    for (const { cp, result } of sortedCounterparties) {
       if (remainingRwaToReduce <= 0) break
 
-      const result = calculateRWA(cp)
-      const rwaDensity = result.rwa / cp.ead // RWA per unit of EAD
+      const rwaDensity = result.rwa / result.ead // RWA per unit of EAD
 
       // Calculate how much EAD we can reduce for this counterparty
       // We'll reduce up to 50% of the original EAD
-      const maxEadReduction = cp.ead * 0.5
+      const maxEadReduction = result.ead * 0.5
       const maxRwaReduction = maxEadReduction * rwaDensity
 
       if (maxRwaReduction <= remainingRwaToReduce) {
@@ -305,7 +390,7 @@ export function RWAPortfolioDashboard({ counterparties, onEadUpdate, onSelectCou
       } else {
         // We only need to reduce part of this counterparty's EAD
         const neededEadReduction = remainingRwaToReduce / rwaDensity
-        const newEadMultiplier = 1 - neededEadReduction / cp.ead
+        const newEadMultiplier = 1 - neededEadReduction / result.ead
         newAdjustments[cp.id] = Math.max(0.5, newEadMultiplier) // Don't go below 50%
 
         const actualRwaReduction = neededEadReduction * rwaDensity
@@ -324,23 +409,32 @@ export function RWAPortfolioDashboard({ counterparties, onEadUpdate, onSelectCou
       targetRwa: targetValue,
       achievedRwa: currentTotalRWA - reductionAchieved,
     })
-  }, [counterparties, eadAdjustments, portfolioMetrics.totalRwa, sortDirection, sortField, targetRWA])
+  }, [calculationOptions, counterparties, eadAdjustments, portfolioMetrics.totalRwa, targetRWA])
 
   // Handle counterparty selection
   const handleCounterpartyClick = useCallback(
-    (cp) => {
-      if (onSelectCounterparty) {
-        onSelectCounterparty(cp)
+    (row: CounterpartyRwaRow) => {
+      const counterparty = counterparties.find((cp) => cp.id === row.id)
+      if (onSelectCounterparty && counterparty) {
+        onSelectCounterparty(counterparty)
       }
     },
-    [onSelectCounterparty],
+    [counterparties, onSelectCounterparty],
   )
 
   // Colors for charts
   const COLORS = ["#0088FE", "#00C49F", "#FFBB28", "#FF8042", "#8884d8", "#82ca9d", "#ffc658", "#8dd1e1"]
 
   // Custom tooltip for the adjustment charts
-  const AdjustmentTooltip = ({ active, payload, label }) => {
+  const AdjustmentTooltip = ({
+    active,
+    payload,
+    label,
+  }: {
+    active?: boolean
+    payload?: { payload: SegmentTotals & { adjustmentPercentage: number } }[]
+    label?: string
+  }) => {
     if (active && payload && payload.length) {
       return (
         <div className="bg-white p-3 border rounded shadow-lg">
@@ -420,6 +514,15 @@ export function RWAPortfolioDashboard({ counterparties, onEadUpdate, onSelectCou
                 </div>
               </div>
             )}
+            {portfolioMetrics.inputFlooredCounterparties > 0 && (
+              <div className="flex items-center mt-1">
+                <div className="text-sm text-muted-foreground mr-2">Added by PD/LGD floors:</div>
+                <Badge variant="outline" className="bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                  +${Math.round(portfolioMetrics.totalInputFloorAddOn).toLocaleString()} (
+                  {portfolioMetrics.inputFlooredCounterparties} counterparties)
+                </Badge>
+              </div>
+            )}
           </CardContent>
         </Card>
         <Card>
@@ -459,6 +562,28 @@ export function RWAPortfolioDashboard({ counterparties, onEadUpdate, onSelectCou
         </Card>
       </div>
 
+      <ApproachComparison
+        title="Output Floor"
+        description={`Portfolio IRB RWA floored at ${(regulatoryProfile.outputFloor * 100).toFixed(1)}% of standardised RWA under ${regulatoryProfile.name}`}
+        floorResult={portfolioMetrics.outputFloor}
+      />
+
+      <ProvisionComparison
+        title="Expected Loss vs Provisions"
+        description="IRB expected loss compared with provisions; a shortfall reduces CET1 and an excess adds to Tier 2"
+        provisionCapital={portfolioMetrics.provisionCapital}
+      />
+
+      <CapitalPanel
+        rwa={portfolioMetrics.outputFloor.flooredRwa}
+        rwaByRegion={portfolioMetrics.rwaByRegion}
+        provisionCapital={portfolioMetrics.provisionCapital}
+        resources={capitalResources}
+        buffers={capitalBuffers}
+        onResourcesChange={onCapitalResourcesChange}
+        onBuffersChange={onCapitalBuffersChange}
+      />
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <Card>
           <CardHeader>
@@ -600,11 +725,11 @@ export function RWAPortfolioDashboard({ counterparties, onEadUpdate, onSelectCou
                       <div className="mt-2">
                         <div className="flex justify-between text-sm">
                           <span>Target RWA:</span>
-                          <span>${Math.round(optimizationResult.targetRwa).toLocaleString()}</span>
+                          <span>${Math.round(optimizationResult.targetRwa ?? 0).toLocaleString()}</span>
                         </div>
                         <div className="flex justify-between text-sm">
                           <span>Achieved RWA:</span>
-                          <span>${Math.round(optimizationResult.achievedRwa).toLocaleString()}</span>
+                          <span>${Math.round(optimizationResult.achievedRwa ?? 0).toLocaleString()}</span>
                         </div>
                       </div>
                     )}
@@ -655,6 +780,33 @@ export function RWAPortfolioDashboard({ counterparties, onEadUpdate, onSelectCou
                       <ChevronDown className="inline h-4 w-4" />
                     ))}
                 </TableHead>
+                <TableHead className="cursor-pointer hover:bg-muted/50" onClick={() => handleSort("saRwa")}>
+                  SA RWA{" "}
+                  {sortField === "saRwa" &&
+                    (sortDirection === "asc" ? (
+                      <ChevronUp className="inline h-4 w-4" />
+                    ) : (
+                      <ChevronDown className="inline h-4 w-4" />
+                    ))}
+                </TableHead>
+                <TableHead className="cursor-pointer hover:bg-muted/50" onClick={() => handleSort("flooredRwa")}>
+                  Floored RWA{" "}
+                  {sortField === "flooredRwa" &&
+                    (sortDirection === "asc" ? (
+                      <ChevronUp className="inline h-4 w-4" />
+                    ) : (
+                      <ChevronDown className="inline h-4 w-4" />
+                    ))}
+                </TableHead>
+                <TableHead className="cursor-pointer hover:bg-muted/50" onClick={() => handleSort("expectedLoss")}>
+                  EL{" "}
+                  {sortField === "expectedLoss" &&
+                    (sortDirection === "asc" ? (
+                      <ChevronUp className="inline h-4 w-4" />
+                    ) : (
+                      <ChevronDown className="inline h-4 w-4" />
+                    ))}
+                </TableHead>
                 <TableHead
                   className="cursor-pointer hover:bg-muted/50"
                   onClick={() => handleSort("adjustmentPercentage")}
@@ -708,6 +860,24 @@ export function RWAPortfolioDashboard({ counterparties, onEadUpdate, onSelectCou
                           Financial
                         </Badge>
                       )}
+                      {cp.approach === "SLOTTING" && (
+                        <Badge variant="secondary" className="ml-2">
+                          Slotting
+                        </Badge>
+                      )}
+                      {cp.isDefaulted && (
+                        <Badge variant="destructive" className="ml-2">
+                          Defaulted
+                        </Badge>
+                      )}
+                      {cp.isInputFloorBinding && (
+                        <Badge
+                          variant="outline"
+                          className="ml-2 bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200"
+                        >
+                          Floored
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell>{cp.industry}</TableCell>
                     <TableCell>
@@ -728,6 +898,25 @@ export function RWAPortfolioDashboard({ counterparties, onEadUpdate, onSelectCou
                     <TableCell>${Math.round(cp.adjustedEad).toLocaleString()}</TableCell>
                     <TableCell className="font-medium">${Math.round(cp.baselineRWA).toLocaleString()}</TableCell>
                     <TableCell className="font-medium">${Math.round(cp.rwa).toLocaleString()}</TableCell>
+                    <TableCell>${Math.round(cp.saRwa).toLocaleString()}</TableCell>
+                    <TableCell className={cp.flooredRwa > cp.rwa ? "font-medium text-amber-600" : ""}>
+                      ${Math.round(cp.flooredRwa).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      ${Math.round(cp.expectedLoss).toLocaleString()}
+                      {cp.provisions > 0 && (
+                        <div
+                          className={`text-xs ${
+                            cp.provisions < cp.expectedLoss
+                              ? "text-red-600 dark:text-red-400"
+                              : "text-green-600 dark:text-green-400"
+                          }`}
+                        >
+                          {cp.provisions < cp.expectedLoss ? "Shortfall" : "Excess"} $
+                          {Math.round(Math.abs(cp.expectedLoss - cp.provisions)).toLocaleString()}
+                        </div>
+                      )}
+                    </TableCell>
                     <TableCell>
                       {cp.hasAdjustment ? (
                         <Badge
@@ -5,6 +5,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Label } from "@/components/ui/label"
 import { calculateRWA } from "@/lib/rwa-calculator"
 import { ChartWrapper } from "@/components/chart-wrapper"
+import { SensitivityGrid } from "@/components/sensitivity-grid"
+import { TornadoChart } from "@/components/tornado-chart"
 import {
   LineChart,
   Line,
@@ -23,10 +25,50 @@ import { Input } from "@/components/ui/input"
 import { RotateCcw, Target } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
 import { Switch } from "@/components/ui/switch"
+import { calculateExposure, getEffectiveCcf } from "@/lib/ead-calculator"
+import { applyWhatIfShock } from "@/lib/what-if-scenarios"
+import type { CalculationOptions, Counterparty } from "@/lib/types"
+
+// Parameters that can be flexed in the sensitivity analysis
+// EAD, undrawn utilisation and TTC PD are flexed through calculation options, LGD and maturity on each facility and
+// PD on the counterparty
+type SensitivityParameter = "pd" | "lgd" | "ead" | "maturity" | "ttcPd" | "undrawnUtilisation"
+
+// Parameters entered and displayed as percentages
+function isRateParameter(parameter: SensitivityParameter): boolean {
+  return parameter === "pd" || parameter === "lgd" || parameter === "ttcPd" || parameter === "undrawnUtilisation"
+}
+
+// A single point on the sensitivity curve
+interface SensitivityPoint {
+  parameterValue: number
+  rwa: number
+  rwaDensity: number
+  change: number
+  k: number
+  isBaseline?: boolean
+  isTarget?: boolean
+}
+
+interface CustomTooltipProps {
+  active?: boolean
+  payload?: { name: string; value: number; color: string }[]
+  label?: number
+  formatParameterValue: (value: number) => string
+  baselineValue: number
+  targetValue: number | null
+}
 
 // Custom tooltip component to highlight baseline and target values
-const CustomTooltip = ({ active, payload, label, formatParameterValue, baselineValue, targetValue }) => {
-  if (active && payload && payload.length) {
+const CustomTooltip = ({
+  active,
+  payload,
+  label,
+  formatParameterValue,
+  baselineValue,
+  targetValue,
+}: CustomTooltipProps) => {
+  if (active && payload && payload.length && label !== undefined) {
     const isBaseline = Math.abs(label - baselineValue) < 0.0000001
     const isTarget = targetValue !== null && Math.abs(label - targetValue) < 0.0000001
 
@@ -53,51 +95,103 @@ const CustomTooltip = ({ active, payload, label, formatParameterValue, baselineV
 }
 
 // Update the component to include target value functionality
-export function SensitivityAnalysis({ counterparty }) {
+interface SensitivityAnalysisProps {
+  counterparty: Counterparty
+  // Portfolio for the tornado chart's industry, region and portfolio scopes
+  counterparties?: Counterparty[]
+  calculationOptions: CalculationOptions
+}
+
+export function SensitivityAnalysis({ counterparty, counterparties, calculationOptions }: SensitivityAnalysisProps) {
   // State for parameter selection and range
-  const [selectedParameter, setSelectedParameter] = useState("pd")
+  // One parameter as a line chart, two as a grid, or every parameter as a tornado chart
+  const [analysisMode, setAnalysisMode] = useState<"single" | "grid" | "tornado">("single")
+  const [selectedParameter, setSelectedParameter] = useState<SensitivityParameter>("pd")
   const [rangeMin, setRangeMin] = useState(0.5)
   const [rangeMax, setRangeMax] = useState(1.5)
   const [steps, setSteps] = useState(10)
   const [rangeType, setRangeType] = useState("percentage") // percentage or absolute
   const [customRange, setCustomRange] = useState(false)
   const [customRangeValues, setCustomRangeValues] = useState("")
-  const [sensitivityData, setSensitivityData] = useState([])
+  const [sensitivityData, setSensitivityData] = useState<SensitivityPoint[]>([])
   const [baselineRWA, setBaselineRWA] = useState(0)
-  const [baselinePoint, setBaselinePoint] = useState(null)
-  const [targetPoint, setTargetPoint] = useState(null)
+  const [baselinePoint, setBaselinePoint] = useState<SensitivityPoint | null>(null)
+  const [targetPoint, setTargetPoint] = useState<SensitivityPoint | null>(null)
 
   // New state for target value functionality
   const [showTarget, setShowTarget] = useState(false)
   const [targetValue, setTargetValue] = useState("")
-  const [targetRWA, setTargetRWA] = useState(null)
-  const [targetImpact, setTargetImpact] = useState(null)
+  const [targetRWA, setTargetRWA] = useState<number | null>(null)
+  const [targetImpact, setTargetImpact] = useState<number | null>(null)
 
   // Parameter definitions
-  const parameters = useMemo(
-    () => [
+  const parameters = useMemo((): { id: SensitivityParameter; name: string; description: string; baseline: number }[] => {
+    const exposure = calculateExposure(counterparty)
+    // Values the calculation uses: the TTC PD is derived from the PIT PD when a macro scenario is set, and LGD and
+    // maturity are EAD-weighted over the facilities, with LGD before the floors
+    const baselineResult = calculateRWA(counterparty, calculationOptions)
+    const { preFloorTtcPd, preFloorLgd } = baselineResult.floors
+
+    return [
       { id: "pd", name: "PD", description: "Probability of Default", baseline: counterparty.pd },
-      { id: "lgd", name: "LGD", description: "Loss Given Default", baseline: counterparty.lgd },
-      { id: "ead", name: "EAD", description: "Exposure at Default", baseline: counterparty.ead },
-      { id: "maturity", name: "Maturity", description: "Effective Maturity", baseline: counterparty.maturity },
-      { id: "ttcPd", name: "TTC PD", description: "Through-the-Cycle PD", baseline: counterparty.ttcPd },
-    ],
-    [counterparty],
-  )
+      { id: "lgd", name: "LGD", description: "Loss Given Default", baseline: preFloorLgd },
+      { id: "ead", name: "EAD", description: "Exposure at Default", baseline: exposure.ead },
+      { id: "maturity", name: "Maturity", description: "Effective Maturity", baseline: baselineResult.maturity },
+      { id: "ttcPd", name: "TTC PD", description: "Through-the-Cycle PD", baseline: preFloorTtcPd },
+      // Only counterparties with undrawn commitments can be stressed on utilisation
+      ...(exposure.undrawn > 0
+        ? [
+            {
+              id: "undrawnUtilisation" as const,
+              name: "Undrawn Utilisation",
+              description: "Share of undrawn commitments drawn at default",
+              baseline: getEffectiveCcf(exposure),
+            },
+          ]
+        : []),
+    ]
+  }, [counterparty, calculationOptions])
 
   // Get the selected parameter details
   const selectedParameterDetails = useMemo(() => {
     return parameters.find((p) => p.id === selectedParameter) || parameters[0]
   }, [parameters, selectedParameter])
 
+  // Calculate RWA with the selected parameter set to a given value
+  const calculateFlexedRWA = useCallback(
+    (value: number) => {
+      if (selectedParameter === "ead") return calculateRWA(counterparty, { ...calculationOptions, eadOverride: value })
+      if (selectedParameter === "undrawnUtilisation") {
+        return calculateRWA(counterparty, { ...calculationOptions, undrawnUtilisation: value })
+      }
+      // Set through the override, as a macro scenario would otherwise re-derive the TTC PD from the PIT PD
+      if (selectedParameter === "ttcPd") {
+        return calculateRWA(counterparty, { ...calculationOptions, ttcPdOverride: value })
+      }
+      // Facilities with their own LGD or maturity are scaled with the counterparty, moving the EAD-weighted value
+      if (selectedParameter === "lgd" || selectedParameter === "maturity") {
+        const baseline = selectedParameterDetails.baseline
+        const shocked = applyWhatIfShock(counterparty, {
+          parameter: selectedParameter,
+          operation: baseline > 0 ? "multiply" : "add",
+          value: baseline > 0 ? value / baseline : value,
+          target: { type: "portfolio" },
+        })
+        return calculateRWA(shocked, calculationOptions)
+      }
+      return calculateRWA({ ...counterparty, [selectedParameter]: value }, calculationOptions)
+    },
+    [calculationOptions, counterparty, selectedParameter, selectedParameterDetails.baseline],
+  )
+
   // Calculate sensitivity data when parameters change
   const calculateSensitivityData = useCallback(() => {
     const baselineValue = selectedParameterDetails.baseline
-    const baselineResult = calculateRWA(counterparty)
+    const baselineResult = calculateRWA(counterparty, calculationOptions)
     setBaselineRWA(baselineResult.rwa)
 
     // Create baseline point data
-    const baselinePointData = {
+    const baselinePointData: SensitivityPoint = {
       parameterValue: baselineValue,
       rwa: baselineResult.rwa,
       rwaDensity: baselineResult.rwaDensity * 100,
@@ -107,7 +201,7 @@ export function SensitivityAnalysis({ counterparty }) {
     }
     setBaselinePoint(baselinePointData)
 
-    let dataPoints = []
+    let dataPoints: SensitivityPoint[] = []
 
     if (customRange && customRangeValues.trim()) {
       // Parse custom range values
@@ -119,16 +213,14 @@ export function SensitivityAnalysis({ counterparty }) {
           const parsed = Number.parseFloat(v)
           return isNaN(parsed) ? null : parsed
         })
-        .filter((v) => v !== null)
+        .filter((v): v is number => v !== null)
 
       // Sort values
       values.sort((a, b) => a - b)
 
       // Generate data points for each custom value
       dataPoints = values.map((value) => {
-        const modifiedCounterparty = { ...counterparty }
-        modifiedCounterparty[selectedParameter] = value
-        const result = calculateRWA(modifiedCounterparty)
+        const result = calculateFlexedRWA(value)
 
         return {
           parameterValue: value,
@@ -141,7 +233,7 @@ export function SensitivityAnalysis({ counterparty }) {
       })
     } else {
       // Generate range of values
-      const rangeValues = []
+      const rangeValues: number[] = []
       const stepSize = (rangeMax - rangeMin) / (steps - 1)
 
       for (let i = 0; i < steps; i++) {
@@ -159,9 +251,7 @@ export function SensitivityAnalysis({ counterparty }) {
 
       // Generate data points for each value in the range
       dataPoints = rangeValues.map((value) => {
-        const modifiedCounterparty = { ...counterparty }
-        modifiedCounterparty[selectedParameter] = value
-        const result = calculateRWA(modifiedCounterparty)
+        const result = calculateFlexedRWA(value)
 
         return {
           parameterValue: value,
@@ -183,24 +273,25 @@ export function SensitivityAnalysis({ counterparty }) {
 
     setSensitivityData(dataPoints)
   }, [
+    calculateFlexedRWA,
+    calculationOptions,
     counterparty,
     customRange,
     customRangeValues,
     rangeMax,
     rangeMin,
     rangeType,
-    selectedParameter,
     selectedParameterDetails.baseline,
     steps,
   ])
 
   // Calculate target RWA when target value changes
   const parseParameterValue = useCallback(
-    (value) => {
+    (value: string) => {
       if (!value || value.trim() === "") return null
 
       try {
-        if (selectedParameter === "pd" || selectedParameter === "lgd" || selectedParameter === "ttcPd") {
+        if (isRateParameter(selectedParameter)) {
           // If the value contains %, remove it and convert from percentage to decimal
           if (typeof value === "string" && value.includes("%")) {
             return Number.parseFloat(value.replace("%", "")) / 100
@@ -240,11 +331,8 @@ export function SensitivityAnalysis({ counterparty }) {
       return
     }
 
-    const modifiedCounterparty = { ...counterparty }
-    modifiedCounterparty[selectedParameter] = parsedValue
-
     try {
-      const result = calculateRWA(modifiedCounterparty)
+      const result = calculateFlexedRWA(parsedValue)
       const impact = ((result.rwa - baselineRWA) / baselineRWA) * 100
 
       setTargetRWA(result.rwa)
@@ -265,7 +353,7 @@ export function SensitivityAnalysis({ counterparty }) {
       setTargetImpact(null)
       setTargetPoint(null)
     }
-  }, [showTarget, targetValue, counterparty, selectedParameter, baselineRWA, parseParameterValue])
+  }, [showTarget, targetValue, calculateFlexedRWA, baselineRWA, parseParameterValue])
 
   // Calculate sensitivity data when parameters change
   useEffect(() => {
@@ -287,8 +375,8 @@ export function SensitivityAnalysis({ counterparty }) {
 
   // Format parameter value for display
   const formatParameterValue = useCallback(
-    (value) => {
-      if (selectedParameter === "pd" || selectedParameter === "lgd" || selectedParameter === "ttcPd") {
+    (value: number) => {
+      if (isRateParameter(selectedParameter)) {
         return `${(value * 100).toFixed(2)}%`
       } else if (selectedParameter === "ead") {
         return `$${value.toLocaleString()}`
@@ -301,7 +389,7 @@ export function SensitivityAnalysis({ counterparty }) {
 
   // Handle target value input change
   const handleTargetValueChange = useCallback(
-    (e) => {
+    (e: React.ChangeEvent<HTMLInputElement>) => {
       setTargetValue(e.target.value)
 
       // Try to parse the value immediately to check if it's valid
@@ -310,7 +398,7 @@ export function SensitivityAnalysis({ counterparty }) {
           let parsedValue
 
           // Parse based on parameter type
-          if (selectedParameter === "pd" || selectedParameter === "lgd" || selectedParameter === "ttcPd") {
+          if (isRateParameter(selectedParameter)) {
             // Handle percentage inputs (e.g., "1.5%")
             if (e.target.value.includes("%")) {
               parsedValue = Number.parseFloat(e.target.value.replace("%", "")) / 100
@@ -337,7 +425,7 @@ export function SensitivityAnalysis({ counterparty }) {
   )
 
   // Handle range type change
-  const handleRangeTypeChange = useCallback((type) => {
+  const handleRangeTypeChange = useCallback((type: string) => {
     setRangeType(type)
     // Reset range values when changing type
     if (type === "percentage") {
@@ -360,13 +448,13 @@ export function SensitivityAnalysis({ counterparty }) {
   }, [])
 
   // Handle custom range input change
-  const handleCustomRangeChange = useCallback((e) => {
+  const handleCustomRangeChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setCustomRangeValues(e.target.value)
   }, [])
 
   // Prepare chart data with baseline and target points
   const chartData = useMemo(() => {
-    const data = [...sensitivityData]
+    const data: SensitivityPoint[] = [...sensitivityData]
 
     // Ensure baseline point is included
     if (baselinePoint && !data.some((point) => point.isBaseline)) {
@@ -382,8 +470,45 @@ export function SensitivityAnalysis({ counterparty }) {
     return data.sort((a, b) => a.parameterValue - b.parameterValue)
   }, [sensitivityData, baselinePoint, targetPoint])
 
+  const modeSelector = (
+    <div className="grid grid-cols-3 gap-2 max-w-xl">
+      <Button variant={analysisMode === "single" ? "default" : "outline"} onClick={() => setAnalysisMode("single")}>
+        Single Parameter
+      </Button>
+      <Button variant={analysisMode === "grid" ? "default" : "outline"} onClick={() => setAnalysisMode("grid")}>
+        Two-Parameter Grid
+      </Button>
+      <Button variant={analysisMode === "tornado" ? "default" : "outline"} onClick={() => setAnalysisMode("tornado")}>
+        Tornado
+      </Button>
+    </div>
+  )
+
+  if (analysisMode === "grid") {
+    return (
+      <div className="space-y-6">
+        {modeSelector}
+        <SensitivityGrid counterparty={counterparty} calculationOptions={calculationOptions} />
+      </div>
+    )
+  }
+
+  if (analysisMode === "tornado") {
+    return (
+      <div className="space-y-6">
+        {modeSelector}
+        <TornadoChart
+          counterparty={counterparty}
+          counterparties={counterparties ?? [counterparty]}
+          calculationOptions={calculationOptions}
+        />
+      </div>
+    )
+  }
+
   return (
     <div className="space-y-6">
+      {modeSelector}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Card>
           <CardHeader className="pb-2">
@@ -556,7 +681,7 @@ export function SensitivityAnalysis({ counterparty }) {
                       </Button>
                     </div>
 
-                    {targetRWA !== null && (
+                    {targetRWA !== null && targetImpact !== null && (
                       <div className="mt-2 text-sm">
                         <div className="flex justify-between">
                           <span>Target RWA:</span>
@@ -0,0 +1,309 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Download } from "lucide-react"
+import {
+  calculateSensitivityGrid,
+  getGridCellShocks,
+  MAX_GRID_STEPS,
+  SENSITIVITY_METRIC_LABELS,
+  sensitivityGridToCsv,
+} from "@/lib/sensitivity-grid"
+import { addWhatIfScenario, WHAT_IF_PARAMETER_LABELS } from "@/lib/what-if-scenarios"
+import type {
+  CalculationOptions,
+  Counterparty,
+  SensitivityGridAxis,
+  SensitivityGridCell,
+  SensitivityMetric,
+  WhatIfParameter,
+} from "@/lib/types"
+
+interface SensitivityGridProps {
+  counterparty: Counterparty
+  calculationOptions: CalculationOptions
+}
+
+const compactNumber = new Intl.NumberFormat(undefined, { notation: "compact", maximumFractionDigits: 1 })
+
+// Parameter values as they are shown on the axes
+const formatParameterValue = (parameter: WhatIfParameter, value: number) => {
+  if (parameter === "pd") return `${(value * 100).toFixed(2)}%`
+  if (parameter === "lgd") return `${(value * 100).toFixed(1)}%`
+  if (parameter === "ead") return `$${compactNumber.format(value)}`
+  return `${value.toFixed(2)}y`
+}
+
+const formatMetric = (metric: SensitivityMetric, value: number) => {
+  if (metric === "rwa") return `$${compactNumber.format(value)}`
+  return `${(value * 100).toFixed(metric === "k" ? 2 : 1)}%`
+}
+
+// Red for RWA increases and green for decreases, stronger the further the cell is from the baseline
+const getCellColor = (change: number, maxChange: number) => {
+  const intensity = maxChange > 0 ? Math.min(1, Math.abs(change) / maxChange) : 0
+  const hue = change >= 0 ? 0 : 142
+  return `hsla(${hue}, 72%, 50%, ${(0.08 + intensity * 0.72).toFixed(2)})`
+}
+
+// Parse a number input, keeping the previous value while the entry is incomplete
+const parseAxisInput = (value: string, previous: number) => {
+  const parsed = Number.parseFloat(value)
+  return isNaN(parsed) ? previous : parsed
+}
+
+// Two-parameter sensitivity of a counterparty, rendered as a heatmap with the baseline cell highlighted
+export function SensitivityGrid({ counterparty, calculationOptions }: SensitivityGridProps) {
+  const [xAxis, setXAxis] = useState<SensitivityGridAxis>({ parameter: "pd", min: 0.5, max: 2, steps: 7 })
+  const [yAxis, setYAxis] = useState<SensitivityGridAxis>({ parameter: "lgd", min: 0.5, max: 1.5, steps: 5 })
+  const [metric, setMetric] = useState<SensitivityMetric>("rwa")
+  const [selectedCell, setSelectedCell] = useState<SensitivityGridCell | null>(null)
+  const [savedScenarioName, setSavedScenarioName] = useState<string | null>(null)
+
+  const grid = useMemo(
+    () => calculateSensitivityGrid(counterparty, calculationOptions, xAxis, yAxis),
+    [counterparty, calculationOptions, xAxis, yAxis],
+  )
+
+  const maxChange = useMemo(() => Math.max(0, ...grid.cells.flat().map((cell) => Math.abs(cell.change))), [grid])
+
+  // The selection follows the grid, so it is dropped when its multipliers are no longer on it
+  const selected = selectedCell
+    ? grid.cells
+        .flat()
+        .find((cell) => cell.xMultiplier === selectedCell.xMultiplier && cell.yMultiplier === selectedCell.yMultiplier)
+    : undefined
+
+  const updateAxis = (
+    setAxis: React.Dispatch<React.SetStateAction<SensitivityGridAxis>>,
+    changes: Partial<SensitivityGridAxis>,
+  ) => {
+    setAxis((prev) => ({ ...prev, ...changes }))
+    setSavedScenarioName(null)
+  }
+
+  const selectCell = (cell: SensitivityGridCell) => {
+    setSelectedCell(cell)
+    setSavedScenarioName(null)
+  }
+
+  const exportCsv = () => {
+    const blob = new Blob([sensitivityGridToCsv(grid, metric)], { type: "text/csv" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `sensitivity-${counterparty.id}-${xAxis.parameter}-${yAxis.parameter}-${metric}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const saveAsWhatIf = (cell: SensitivityGridCell) => {
+    const describeAxis = (parameter: WhatIfParameter, multiplier: number) =>
+      `${WHAT_IF_PARAMETER_LABELS[parameter]} x${multiplier.toFixed(2)}`
+    const shocks = [describeAxis(xAxis.parameter, cell.xMultiplier), describeAxis(yAxis.parameter, cell.yMultiplier)]
+    const name = `${counterparty.name}: ${shocks.join(", ")}`
+    addWhatIfScenario({
+      id: `what-if-${Date.now()}`,
+      name,
+      shocks: getGridCellShocks(counterparty.id, xAxis.parameter, cell.xMultiplier, yAxis.parameter, cell.yMultiplier),
+      updatedAt: new Date().toISOString(),
+    })
+    setSavedScenarioName(name)
+  }
+
+  const axisControls = (
+    id: string,
+    label: string,
+    axis: SensitivityGridAxis,
+    baseline: number,
+    otherParameter: WhatIfParameter,
+    setAxis: React.Dispatch<React.SetStateAction<SensitivityGridAxis>>,
+  ) => (
+    <div className="space-y-2 rounded-md border p-3">
+      <Label htmlFor={`${id}-parameter`}>{label}</Label>
+      <Select
+        value={axis.parameter}
+        onValueChange={(value) => updateAxis(setAxis, { parameter: value as WhatIfParameter })}
+      >
+        <SelectTrigger id={`${id}-parameter`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(WHAT_IF_PARAMETER_LABELS) as WhatIfParameter[])
+            .filter((parameter) => parameter !== otherParameter)
+            .map((parameter) => (
+              <SelectItem key={parameter} value={parameter}>
+                {WHAT_IF_PARAMETER_LABELS[parameter]}
+              </SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-min`} className="text-xs">
+            Min multiplier
+          </Label>
+          <Input
+            id={`${id}-min`}
+            type="number"
+            min={0}
+            step={0.1}
+            value={axis.min}
+            onChange={(e) => updateAxis(setAxis, { min: parseAxisInput(e.target.value, axis.min) })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-max`} className="text-xs">
+            Max multiplier
+          </Label>
+          <Input
+            id={`${id}-max`}
+            type="number"
+            min={0}
+            step={0.1}
+            value={axis.max}
+            onChange={(e) => updateAxis(setAxis, { max: parseAxisInput(e.target.value, axis.max) })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-steps`} className="text-xs">
+            Steps
+          </Label>
+          <Input
+            id={`${id}-steps`}
+            type="number"
+            min={2}
+            max={MAX_GRID_STEPS}
+            value={axis.steps}
+            onChange={(e) => updateAxis(setAxis, { steps: parseAxisInput(e.target.value, axis.steps) })}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">Current value {formatParameterValue(axis.parameter, baseline)}</p>
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {axisControls("grid-x", "Columns (x axis)", xAxis, grid.x.baseline, yAxis.parameter, setXAxis)}
+        {axisControls("grid-y", "Rows (y axis)", yAxis, grid.y.baseline, xAxis.parameter, setYAxis)}
+        <div className="space-y-2 rounded-md border p-3">
+          <Label htmlFor="grid-metric">Metric</Label>
+          <Select value={metric} onValueChange={(value) => setMetric(value as SensitivityMetric)}>
+            <SelectTrigger id="grid-metric">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SENSITIVITY_METRIC_LABELS) as SensitivityMetric[]).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {SENSITIVITY_METRIC_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" className="w-full" onClick={exportCsv}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Colours show the RWA change from the baseline cell, which is outlined. Click a cell to see it as a what-if.
+          </p>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="border-separate border-spacing-1 text-xs">
+          <thead>
+            <tr>
+              <th className="p-1 text-left font-medium text-muted-foreground">
+                {WHAT_IF_PARAMETER_LABELS[yAxis.parameter]} \ {WHAT_IF_PARAMETER_LABELS[xAxis.parameter]}
+              </th>
+              {grid.x.multipliers.map((multiplier) => (
+                <th key={multiplier} className="p-1 font-medium">
+                  {formatParameterValue(xAxis.parameter, multiplier * grid.x.baseline)}
+                  <div className="font-normal text-muted-foreground">x{multiplier.toFixed(2)}</div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {grid.cells.map((row, rowIndex) => (
+              <tr key={grid.y.multipliers[rowIndex]}>
+                <th className="p-1 text-left font-medium">
+                  {formatParameterValue(yAxis.parameter, grid.y.multipliers[rowIndex] * grid.y.baseline)}
+                  <div className="font-normal text-muted-foreground">x{grid.y.multipliers[rowIndex].toFixed(2)}</div>
+                </th>
+                {row.map((cell) => {
+                  const isSelected = cell === selected
+                  return (
+                    <td key={cell.xMultiplier} className="p-0">
+                      <button
+                        type="button"
+                        onClick={() => selectCell(cell)}
+                        title={`${cell.change >= 0 ? "+" : ""}${cell.change.toFixed(2)}% RWA`}
+                        className={`w-full min-w-[4rem] rounded px-2 py-2 font-mono ${
+                          cell.isBaseline ? "ring-2 ring-blue-500" : ""
+                        } ${isSelected ? "outline outline-2 outline-offset-1 outline-foreground" : ""}`}
+                        style={{ backgroundColor: getCellColor(cell.change, maxChange) }}
+                      >
+                        {formatMetric(metric, cell[metric])}
+                      </button>
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {selected && (
+        <Card>
+          <CardHeader className="pb-2">
+            <div className="flex items-center justify-between">
+              <CardTitle>What-If</CardTitle>
+              {selected.isBaseline && <Badge variant="outline">Baseline</Badge>}
+            </div>
+            <CardDescription>
+              {WHAT_IF_PARAMETER_LABELS[xAxis.parameter]}{" "}
+              {formatParameterValue(xAxis.parameter, selected.xMultiplier * grid.x.baseline)} (x
+              {selected.xMultiplier.toFixed(2)}) and {WHAT_IF_PARAMETER_LABELS[yAxis.parameter]}{" "}
+              {formatParameterValue(yAxis.parameter, selected.yMultiplier * grid.y.baseline)} (x
+              {selected.yMultiplier.toFixed(2)})
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {(Object.keys(SENSITIVITY_METRIC_LABELS) as SensitivityMetric[]).map((option) => (
+                <div key={option} className="space-y-1">
+                  <div className="text-sm font-medium">{SENSITIVITY_METRIC_LABELS[option]}</div>
+                  <div className="text-2xl font-bold">{formatMetric(option, selected[option])}</div>
+                  <p className="text-xs text-muted-foreground">
+                    Baseline {formatMetric(option, grid.baseline[option])}
+                  </p>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center gap-4">
+              <Button variant="outline" onClick={() => saveAsWhatIf(selected)} disabled={selected.isBaseline}>
+                Save as What-If Scenario
+              </Button>
+              {savedScenarioName && (
+                <p className="text-sm text-muted-foreground">
+                  Saved &quot;{savedScenarioName}&quot; to the what-if scenario library.
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
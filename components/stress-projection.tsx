@@ -0,0 +1,272 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { CAPITAL_TIER_LABELS } from "@/lib/capital-ratios"
+import { getMacroScenario, MACRO_SCENARIOS } from "@/lib/macro-scenarios"
+import { projectStress, STRESS_HORIZON_YEARS } from "@/lib/stress-projection"
+import type {
+  CalculationOptions,
+  CapitalBufferSettings,
+  CapitalResources,
+  Counterparty,
+  MacroScenarioId,
+} from "@/lib/types"
+
+interface StressProjectionProps {
+  counterparties: Counterparty[]
+  calculationOptions: CalculationOptions
+  // Capital entered in the capital panel
+  capitalResources: CapitalResources
+  capitalBuffers: CapitalBufferSettings
+}
+
+// Counterparties listed before the drill-down is expanded
+const TOP_DRIVER_COUNT = 10
+
+const formatCurrency = (value: number) => `$${Math.round(value).toLocaleString()}`
+
+const formatDelta = (value: number) => `${value >= 0 ? "+" : "-"}$${Math.abs(Math.round(value)).toLocaleString()}`
+
+const formatPercent = (value: number, digits = 2) => `${(value * 100).toFixed(digits)}%`
+
+const formatMillions = (value: number) => `$${(value / 1000000).toFixed(0)}m`
+
+const yearLabel = (year: number) => (year === 0 ? "Current" : `Year ${year}`)
+
+const deltaClass = (value: number) =>
+  value > 0 ? "text-red-600 dark:text-red-400" : value < 0 ? "text-green-600 dark:text-green-400" : ""
+
+// Year-by-year projection of portfolio RWA, expected loss and capital ratios under a macroeconomic scenario
+export function StressProjection({
+  counterparties,
+  calculationOptions,
+  capitalResources,
+  capitalBuffers,
+}: StressProjectionProps) {
+  const [scenarioId, setScenarioId] = useState<MacroScenarioId>("severelyAdverse")
+  const [showAllDrivers, setShowAllDrivers] = useState(false)
+
+  const projection = useMemo(
+    () =>
+      projectStress(counterparties, scenarioId, calculationOptions, {
+        resources: capitalResources,
+        buffers: capitalBuffers,
+      }),
+    [counterparties, scenarioId, calculationOptions, capitalResources, capitalBuffers],
+  )
+
+  const current = projection.years[0]
+  const final = projection.years[STRESS_HORIZON_YEARS]
+  const rwaIncrease = final.rwa - current.rwa
+  // Lowest CET1 ratio over the horizon, the usual headline of a stress test
+  const troughYear = projection.years.reduce((lowest, year) =>
+    year.capitalRatios.ratios.cet1.ratio < lowest.capitalRatios.ratios.cet1.ratio ? year : lowest,
+  )
+
+  const chartData = projection.years.map((year) => ({
+    name: yearLabel(year.year),
+    rwa: year.rwa,
+    expectedLoss: year.expectedLoss,
+    cet1Ratio: year.capitalRatios.ratios.cet1.ratio * 100,
+  }))
+
+  const drivers = showAllDrivers ? projection.counterparties : projection.counterparties.slice(0, TOP_DRIVER_COUNT)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Stress Projection</CardTitle>
+        <CardDescription>
+          PD and LGD are stressed by the change in each region and industry's macroeconomic index from the live
+          scenario, maturities roll down a year at a time and RWA, expected loss and capital ratios are recalculated for
+          each year. Capital resources and buffers are held at the levels entered in the capital panel.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="stress-scenario">Stress scenario</Label>
+            <Select value={scenarioId} onValueChange={(value) => setScenarioId(value as MacroScenarioId)}>
+              <SelectTrigger id="stress-scenario" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(MACRO_SCENARIOS).map((scenario) => (
+                  <SelectItem key={scenario.id} value={scenario.id}>
+                    {scenario.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{getMacroScenario(scenarioId).description}</p>
+          </div>
+          <div className="space-y-2">
+            <Label>Starting conditions</Label>
+            <div className="p-2 border rounded-md bg-muted">{getMacroScenario(projection.currentScenario).name}</div>
+            <p className="text-xs text-muted-foreground">
+              The live scenario's current year, against which the stress multipliers are measured
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <div className="text-sm font-medium">RWA in {yearLabel(STRESS_HORIZON_YEARS)}</div>
+            <div className="text-2xl font-bold">{formatCurrency(final.rwa)}</div>
+            <p className={`text-xs ${deltaClass(rwaIncrease)}`}>
+              {formatDelta(rwaIncrease)}
+              {current.rwa > 0 ? ` (${((rwaIncrease / current.rwa) * 100).toFixed(1)}%)` : ""} from current
+            </p>
+          </div>
+          <div className="space-y-1">
+            <div className="text-sm font-medium">Expected loss in {yearLabel(STRESS_HORIZON_YEARS)}</div>
+            <div className="text-2xl font-bold">{formatCurrency(final.expectedLoss)}</div>
+            <p className={`text-xs ${deltaClass(final.expectedLoss - current.expectedLoss)}`}>
+              {formatDelta(final.expectedLoss - current.expectedLoss)} from current
+            </p>
+          </div>
+          <div className="space-y-1">
+            <div className="text-sm font-medium">Lowest {CAPITAL_TIER_LABELS.cet1} ratio</div>
+            <div className="text-2xl font-bold">{formatPercent(troughYear.capitalRatios.ratios.cet1.ratio)}</div>
+            <p className="text-xs text-muted-foreground">
+              {yearLabel(troughYear.year)}, requirement{" "}
+              {formatPercent(troughYear.capitalRatios.ratios.cet1.requirement)}
+            </p>
+          </div>
+        </div>
+
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis yAxisId="amount" tickFormatter={formatMillions} />
+              <YAxis yAxisId="ratio" orientation="right" tickFormatter={(value: number) => `${value.toFixed(1)}%`} />
+              <Tooltip
+                formatter={(value: number, name: string) => [
+                  name === "CET1 ratio" ? `${value.toFixed(2)}%` : formatCurrency(value),
+                  name,
+                ]}
+              />
+              <Legend />
+              <Bar yAxisId="amount" dataKey="rwa" name="RWA" fill="#3b82f6" />
+              <Bar yAxisId="amount" dataKey="expectedLoss" name="Expected loss" fill="#f59e0b" />
+              <Line yAxisId="ratio" type="monotone" dataKey="cet1Ratio" name="CET1 ratio" stroke="#ef4444" />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Year</TableHead>
+                <TableHead>EAD</TableHead>
+                <TableHead>Avg PD</TableHead>
+                <TableHead>Avg LGD</TableHead>
+                <TableHead>RWA</TableHead>
+                <TableHead>Expected Loss</TableHead>
+                <TableHead>Provisions</TableHead>
+                {(["cet1", "tier1", "total"] as const).map((tier) => (
+                  <TableHead key={tier}>{CAPITAL_TIER_LABELS[tier]}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {projection.years.map((year) => (
+                <TableRow key={year.year}>
+                  <TableCell className="font-medium">{yearLabel(year.year)}</TableCell>
+                  <TableCell>{formatCurrency(year.ead)}</TableCell>
+                  <TableCell>{formatPercent(year.averagePd)}</TableCell>
+                  <TableCell>{formatPercent(year.averageLgd, 1)}</TableCell>
+                  <TableCell>
+                    {formatCurrency(year.rwa)}
+                    {year.rwa > year.irbRwa && (
+                      <div className="text-xs text-muted-foreground">Output floor binding</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{formatCurrency(year.expectedLoss)}</TableCell>
+                  <TableCell>{formatCurrency(year.provisions)}</TableCell>
+                  {(["cet1", "tier1", "total"] as const).map((tier) => {
+                    const line = year.capitalRatios.ratios[tier]
+                    return (
+                      <TableCell
+                        key={tier}
+                        className={line.isBreached ? "text-red-600 dark:text-red-400 font-medium" : undefined}
+                      >
+                        {formatPercent(line.ratio)}
+                      </TableCell>
+                    )
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium">
+              Counterparties Driving the Change to {yearLabel(projection.peakYear)}, the Peak RWA Year
+            </h4>
+            {projection.counterparties.length > TOP_DRIVER_COUNT && (
+              <Button variant="outline" size="sm" onClick={() => setShowAllDrivers((prev) => !prev)}>
+                {showAllDrivers ? `Show top ${TOP_DRIVER_COUNT}` : `Show all ${projection.counterparties.length}`}
+              </Button>
+            )}
+          </div>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Counterparty</TableHead>
+                  {projection.years.map((year) => (
+                    <TableHead key={year.year}>{yearLabel(year.year)} RWA</TableHead>
+                  ))}
+                  <TableHead>Change to {yearLabel(projection.peakYear)}</TableHead>
+                  <TableHead>Share</TableHead>
+                  <TableHead>{yearLabel(projection.peakYear)} Multipliers</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drivers.map((row) => {
+                  const peakMultipliers = row.multipliers[projection.peakYear - 1]
+                  return (
+                    <TableRow key={row.id}>
+                      <TableCell className="font-medium">
+                        {row.name}
+                        <div className="text-xs text-muted-foreground">
+                          {row.industry} | {row.region}
+                        </div>
+                      </TableCell>
+                      {row.rwa.map((rwa, year) => (
+                        <TableCell key={year}>{formatCurrency(rwa)}</TableCell>
+                      ))}
+                      <TableCell className={`font-medium ${deltaClass(row.rwaChange)}`}>
+                        {formatDelta(row.rwaChange)}
+                      </TableCell>
+                      <TableCell>{formatPercent(row.shareOfChange, 1)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          <Badge variant="outline">PD x{peakMultipliers.pd.toFixed(2)}</Badge>
+                          <Badge variant="outline">LGD x{peakMultipliers.lgd.toFixed(2)}</Badge>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
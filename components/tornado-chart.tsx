@@ -0,0 +1,203 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { calculateTornado, DEFAULT_TORNADO_SETTINGS, TORNADO_PARAMETER_LABELS } from "@/lib/tornado-analysis"
+import { matchesWhatIfTarget } from "@/lib/what-if-scenarios"
+import type { CalculationOptions, Counterparty, TornadoParameter, WhatIfTarget, WhatIfTargetType } from "@/lib/types"
+
+interface TornadoChartProps {
+  counterparty: Counterparty
+  // Portfolio the segment scopes are drawn from
+  counterparties: Counterparty[]
+  calculationOptions: CalculationOptions
+}
+
+const formatCurrency = (value: number) => `$${Math.round(value).toLocaleString()}`
+
+const formatDelta = (value: number) => `${value >= 0 ? "+" : "-"}$${Math.abs(Math.round(value)).toLocaleString()}`
+
+const deltaClass = (value: number) =>
+  value > 0 ? "text-red-600 dark:text-red-400" : value < 0 ? "text-green-600 dark:text-green-400" : ""
+
+// Parse a number input, treating an empty or invalid entry as zero
+const parseAmount = (value: string) => {
+  const parsed = Number.parseFloat(value)
+  return isNaN(parsed) ? 0 : parsed
+}
+
+// Parameters ranked by how far a shock down and up moves RWA, for the counterparty or the segment it belongs to
+export function TornadoChart({ counterparty, counterparties, calculationOptions }: TornadoChartProps) {
+  const [shockPercent, setShockPercent] = useState(DEFAULT_TORNADO_SETTINGS.shock * 100)
+  const [notches, setNotches] = useState(DEFAULT_TORNADO_SETTINGS.notches)
+  const [scopeType, setScopeType] = useState<WhatIfTargetType>("counterparty")
+
+  // Segments are those of the selected counterparty
+  const scope = useMemo((): WhatIfTarget => {
+    switch (scopeType) {
+      case "portfolio":
+        return { type: "portfolio" }
+      case "counterparty":
+        return { type: "counterparty", counterpartyId: counterparty.id }
+      case "industry":
+        return { type: "industry", industry: counterparty.industry }
+      case "region":
+        return { type: "region", region: counterparty.region }
+    }
+  }, [scopeType, counterparty])
+
+  const scopeLabels: Record<WhatIfTargetType, string> = {
+    counterparty: counterparty.name,
+    industry: `${counterparty.industry} industry`,
+    region: `${counterparty.region} region`,
+    portfolio: "Whole portfolio",
+  }
+
+  const tornado = useMemo(() => {
+    const selected =
+      scope.type === "counterparty" ? [counterparty] : counterparties.filter((cp) => matchesWhatIfTarget(cp, scope))
+    return calculateTornado(selected, calculationOptions, { shock: shockPercent / 100, notches })
+  }, [scope, counterparty, counterparties, calculationOptions, shockPercent, notches])
+
+  const getShockLabel = (parameter: TornadoParameter, direction: "down" | "up") => {
+    if (parameter === "rating") {
+      return `${direction === "up" ? "Downgrade" : "Upgrade"} ${notches} notch${notches === 1 ? "" : "es"}`
+    }
+    return `${direction === "up" ? "+" : "-"}${shockPercent}%`
+  }
+
+  const chartData = tornado.bars.map((bar) => ({
+    name: TORNADO_PARAMETER_LABELS[bar.parameter],
+    down: bar.downChange,
+    up: bar.upChange,
+  }))
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="tornado-scope">Scope</Label>
+          <Select value={scopeType} onValueChange={(value) => setScopeType(value as WhatIfTargetType)}>
+            <SelectTrigger id="tornado-scope">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(scopeLabels) as WhatIfTargetType[]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {scopeLabels[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {tornado.counterparties} counterpart{tornado.counterparties === 1 ? "y" : "ies"}, baseline RWA{" "}
+            {formatCurrency(tornado.baselineRwa)}
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tornado-shock">Parameter shock (±%)</Label>
+          <Input
+            id="tornado-shock"
+            type="number"
+            min={0}
+            max={100}
+            step={5}
+            value={shockPercent}
+            onChange={(e) => setShockPercent(Math.min(100, Math.max(0, parseAmount(e.target.value))))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tornado-notches">Rating shock (± notches)</Label>
+          <Input
+            id="tornado-notches"
+            type="number"
+            min={0}
+            max={5}
+            step={1}
+            value={notches}
+            onChange={(e) => setNotches(Math.min(5, Math.max(0, Math.round(parseAmount(e.target.value)))))}
+          />
+        </div>
+      </div>
+
+      <div className="h-[300px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} layout="vertical" stackOffset="sign" margin={{ top: 10, right: 30, left: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis type="number" tickFormatter={formatDelta} />
+            <YAxis type="category" dataKey="name" width={80} />
+            <Tooltip formatter={(value: number, name: string) => [formatDelta(value), name]} />
+            <Legend />
+            <ReferenceLine x={0} stroke="#64748b" />
+            <Bar dataKey="down" name="Shocked down" stackId="impact">
+              {chartData.map((entry) => (
+                <Cell key={entry.name} fill={entry.down >= 0 ? "#ef4444" : "#10b981"} />
+              ))}
+            </Bar>
+            <Bar dataKey="up" name="Shocked up" stackId="impact">
+              {chartData.map((entry) => (
+                <Cell key={entry.name} fill={entry.up >= 0 ? "#ef4444" : "#10b981"} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Parameter</TableHead>
+            <TableHead>Shocked Down</TableHead>
+            <TableHead>Shocked Up</TableHead>
+            <TableHead>Largest Impact</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {tornado.bars.map((bar) => (
+            <TableRow key={bar.parameter}>
+              <TableCell className="font-medium">{TORNADO_PARAMETER_LABELS[bar.parameter]}</TableCell>
+              <TableCell>
+                {formatCurrency(bar.downRwa)}
+                <div className={`text-xs ${deltaClass(bar.downChange)}`}>
+                  {getShockLabel(bar.parameter, "down")}: {formatDelta(bar.downChange)}
+                </div>
+              </TableCell>
+              <TableCell>
+                {formatCurrency(bar.upRwa)}
+                <div className={`text-xs ${deltaClass(bar.upChange)}`}>
+                  {getShockLabel(bar.parameter, "up")}: {formatDelta(bar.upChange)}
+                </div>
+              </TableCell>
+              <TableCell className="font-medium">
+                {formatCurrency(bar.impact)}
+                <div className="text-xs text-muted-foreground">
+                  {tornado.baselineRwa > 0 ? `${((bar.impact / tornado.baselineRwa) * 100).toFixed(2)}% of RWA` : "-"}
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <p className="text-xs text-muted-foreground">
+        PIT PD moves RWA through the TTC PD derived from it, while the TTC PD shock moves the TTC PD used in the
+        calculation directly. Defaulted and slotted counterparties have no PD or rating to shock.
+      </p>
+    </div>
+  )
+}
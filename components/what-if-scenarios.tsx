@@ -0,0 +1,453 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { PlusCircle, Trash2 } from "lucide-react"
+import {
+  loadWhatIfScenarios,
+  runWhatIfScenario,
+  saveWhatIfScenarios,
+  WHAT_IF_LIBRARY_EVENT,
+  WHAT_IF_OPERATION_LABELS,
+  WHAT_IF_PARAMETER_LABELS,
+  WHAT_IF_TARGET_LABELS,
+} from "@/lib/what-if-scenarios"
+import type {
+  CalculationOptions,
+  Counterparty,
+  WhatIfOperation,
+  WhatIfParameter,
+  WhatIfScenario,
+  WhatIfShock,
+  WhatIfTarget,
+  WhatIfTargetType,
+  WhatIfTotals,
+} from "@/lib/types"
+
+interface WhatIfScenariosProps {
+  counterparties: Counterparty[]
+  calculationOptions: CalculationOptions
+}
+
+// Values that leave a parameter unchanged, used when a shock's parameter or operation changes
+const NEUTRAL_SHOCK_VALUES: Record<WhatIfOperation, number> = {
+  multiply: 1,
+  add: 0,
+}
+
+const DEFAULT_SHOCK: WhatIfShock = { parameter: "pd", operation: "multiply", value: 1.5, target: { type: "portfolio" } }
+
+const createScenario = (): WhatIfScenario => ({
+  id: `what-if-${Date.now()}`,
+  name: "",
+  shocks: [DEFAULT_SHOCK],
+  updatedAt: new Date().toISOString(),
+})
+
+// Added PD and LGD amounts are entered in percentage points and stored as decimals
+const isPercentagePointShock = (shock: Pick<WhatIfShock, "parameter" | "operation">) =>
+  shock.operation === "add" && (shock.parameter === "pd" || shock.parameter === "lgd")
+
+// Round away floating point noise such as 5.000000000000001
+const toInputValue = (shock: WhatIfShock) =>
+  Number((shock.value * (isPercentagePointShock(shock) ? 100 : 1)).toFixed(6))
+
+const getValueUnit = (shock: Pick<WhatIfShock, "parameter" | "operation">) => {
+  if (shock.operation === "multiply") return "x"
+  if (isPercentagePointShock(shock)) return "pp"
+  return shock.parameter === "ead" ? "$" : "years"
+}
+
+const formatCurrency = (value: number) => `$${Math.round(value).toLocaleString()}`
+
+const formatDelta = (value: number) => `${value >= 0 ? "+" : "-"}$${Math.abs(Math.round(value)).toLocaleString()}`
+
+const deltaClass = (value: number) =>
+  value > 0 ? "text-red-600 dark:text-red-400" : value < 0 ? "text-green-600 dark:text-green-400" : ""
+
+function describeChange(shock: WhatIfShock): string {
+  const value = toInputValue(shock)
+  if (shock.operation === "multiply") return `x${value}`
+  const sign = value >= 0 ? "+" : "-"
+  return shock.parameter === "ead"
+    ? `${sign}${formatCurrency(Math.abs(value))}`
+    : `${sign}${Math.abs(value)} ${getValueUnit(shock)}`
+}
+
+function describeTarget(target: WhatIfTarget, counterparties: Counterparty[]): string {
+  switch (target.type) {
+    case "portfolio":
+      return "portfolio"
+    case "counterparty":
+      return counterparties.find((cp) => cp.id === target.counterpartyId)?.name ?? target.counterpartyId
+    case "industry":
+      return target.industry
+    case "region":
+      return target.region
+  }
+}
+
+// One-line summary of a shock, e.g. "PD x1.5, Energy"
+const describeShock = (shock: WhatIfShock, counterparties: Counterparty[]) =>
+  `${WHAT_IF_PARAMETER_LABELS[shock.parameter]} ${describeChange(shock)}, ${describeTarget(shock.target, counterparties)}`
+
+// Editor and library for scenarios that apply several parameter shocks at once, compared with the baseline
+export function WhatIfScenarios({ counterparties, calculationOptions }: WhatIfScenariosProps) {
+  const [library, setLibrary] = useState<WhatIfScenario[]>([])
+  const [draft, setDraft] = useState<WhatIfScenario>(createScenario)
+
+  // Browser storage is only available after mounting; other tools can add scenarios to the library later
+  useEffect(() => {
+    const reload = () => setLibrary(loadWhatIfScenarios())
+    reload()
+    window.addEventListener(WHAT_IF_LIBRARY_EVENT, reload)
+    return () => window.removeEventListener(WHAT_IF_LIBRARY_EVENT, reload)
+  }, [])
+
+  const industries = useMemo(() => [...new Set(counterparties.map((cp) => cp.industry))].sort(), [counterparties])
+  const regions = useMemo(() => [...new Set(counterparties.map((cp) => cp.region))].sort(), [counterparties])
+
+  const result = useMemo(
+    () => runWhatIfScenario(counterparties, draft, calculationOptions),
+    [counterparties, draft, calculationOptions],
+  )
+
+  const isSaved = library.some((scenario) => scenario.id === draft.id)
+
+  const updateLibrary = (scenarios: WhatIfScenario[]) => {
+    setLibrary(scenarios)
+    saveWhatIfScenarios(scenarios)
+  }
+
+  const handleSave = () => {
+    const saved = { ...draft, name: draft.name.trim(), updatedAt: new Date().toISOString() }
+    setDraft(saved)
+    updateLibrary(
+      isSaved ? library.map((scenario) => (scenario.id === saved.id ? saved : scenario)) : [...library, saved],
+    )
+  }
+
+  const handleDelete = (id: string) => {
+    updateLibrary(library.filter((scenario) => scenario.id !== id))
+    if (draft.id === id) setDraft(createScenario())
+  }
+
+  const updateShock = (index: number, changes: Partial<WhatIfShock>) => {
+    setDraft((prev) => ({
+      ...prev,
+      shocks: prev.shocks.map((shock, i) => (i === index ? { ...shock, ...changes } : shock)),
+    }))
+  }
+
+  // Values are entered in the units shown next to the input
+  const updateShockValue = (index: number, shock: WhatIfShock, input: string) => {
+    const parsed = Number.parseFloat(input)
+    const value = isNaN(parsed) ? 0 : parsed
+    updateShock(index, { value: isPercentagePointShock(shock) ? value / 100 : value })
+  }
+
+  // A new target type starts on the first counterparty, industry or region in the portfolio
+  const getDefaultTarget = (type: WhatIfTargetType): WhatIfTarget => {
+    switch (type) {
+      case "portfolio":
+        return { type }
+      case "counterparty":
+        return { type, counterpartyId: counterparties[0]?.id ?? "" }
+      case "industry":
+        return { type, industry: industries[0] ?? "" }
+      case "region":
+        return { type, region: regions[0] ?? "" }
+    }
+  }
+
+  const getTargetOptions = (target: WhatIfTarget) => {
+    switch (target.type) {
+      case "portfolio":
+        return null
+      case "counterparty":
+        return {
+          value: target.counterpartyId,
+          options: counterparties.map((cp) => ({ value: cp.id, label: cp.name })),
+          toTarget: (value: string): WhatIfTarget => ({ type: "counterparty", counterpartyId: value }),
+        }
+      case "industry":
+        return {
+          value: target.industry,
+          options: industries.map((industry) => ({ value: industry, label: industry })),
+          toTarget: (value: string): WhatIfTarget => ({ type: "industry", industry: value }),
+        }
+      case "region":
+        return {
+          value: target.region,
+          options: regions.map((region) => ({ value: region, label: region })),
+          toTarget: (value: string): WhatIfTarget => ({ type: "region", region: value }),
+        }
+    }
+  }
+
+  const summaryMetric = (label: string, key: keyof WhatIfTotals) => {
+    const change = result.scenario[key] - result.baseline[key]
+    return (
+      <div className="space-y-1">
+        <div className="text-sm font-medium">{label}</div>
+        <div className="text-2xl font-bold">{formatCurrency(result.scenario[key])}</div>
+        <p className="text-xs text-muted-foreground">
+          Baseline {formatCurrency(result.baseline[key])}{" "}
+          <span className={deltaClass(change)}>
+            ({formatDelta(change)}
+            {result.baseline[key] > 0 ? `, ${((change / result.baseline[key]) * 100).toFixed(2)}%` : ""})
+          </span>
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>What-If Scenarios</CardTitle>
+        <CardDescription>
+          Apply several parameter shocks at once to the whole portfolio or to a counterparty, industry or region, and
+          compare the result with the baseline. Saved scenarios are kept in this browser and re-run against the current
+          portfolio.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Scenario Library</h4>
+          {library.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No saved scenarios yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {library.map((scenario) => (
+                <div
+                  key={scenario.id}
+                  className={`flex items-center justify-between gap-4 rounded-md border p-3 ${
+                    scenario.id === draft.id ? "border-primary" : ""
+                  }`}
+                >
+                  <div className="space-y-1">
+                    <div className="font-medium">{scenario.name}</div>
+                    <div className="flex flex-wrap gap-1">
+                      {scenario.shocks.map((shock, index) => (
+                        <Badge key={index} variant="outline">
+                          {describeShock(shock, counterparties)}
+                        </Badge>
+                      ))}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      Saved {new Date(scenario.updatedAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setDraft(scenario)}>
+                      Run
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(scenario.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4 rounded-md border p-4">
+          <div className="flex flex-col md:flex-row md:items-end gap-4">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="what-if-name">Scenario name</Label>
+              <Input
+                id="what-if-name"
+                value={draft.name}
+                placeholder="e.g. Energy downturn"
+                onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setDraft(createScenario())}>
+                New
+              </Button>
+              <Button onClick={handleSave} disabled={draft.name.trim() === "" || draft.shocks.length === 0}>
+                {isSaved ? "Update" : "Save"}
+              </Button>
+            </div>
+          </div>
+
+          {draft.shocks.map((shock, index) => {
+            const targetOptions = getTargetOptions(shock.target)
+            return (
+              <div key={index} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+                <div className="space-y-1">
+                  <Label className="text-xs">Parameter</Label>
+                  <Select
+                    value={shock.parameter}
+                    onValueChange={(value) =>
+                      updateShock(index, {
+                        parameter: value as WhatIfParameter,
+                        value: NEUTRAL_SHOCK_VALUES[shock.operation],
+                      })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(WHAT_IF_PARAMETER_LABELS) as WhatIfParameter[]).map((parameter) => (
+                        <SelectItem key={parameter} value={parameter}>
+                          {WHAT_IF_PARAMETER_LABELS[parameter]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Change</Label>
+                  <Select
+                    value={shock.operation}
+                    onValueChange={(value) =>
+                      updateShock(index, {
+                        operation: value as WhatIfOperation,
+                        value: NEUTRAL_SHOCK_VALUES[value as WhatIfOperation],
+                      })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(WHAT_IF_OPERATION_LABELS) as WhatIfOperation[]).map((operation) => (
+                        <SelectItem key={operation} value={operation}>
+                          {WHAT_IF_OPERATION_LABELS[operation]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Value ({getValueUnit(shock)})</Label>
+                  <Input
+                    type="number"
+                    step={shock.operation === "multiply" ? 0.1 : 1}
+                    value={toInputValue(shock)}
+                    onChange={(e) => updateShockValue(index, shock, e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Applies to</Label>
+                  <Select
+                    value={shock.target.type}
+                    onValueChange={(value) =>
+                      updateShock(index, { target: getDefaultTarget(value as WhatIfTargetType) })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(WHAT_IF_TARGET_LABELS) as WhatIfTargetType[]).map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {WHAT_IF_TARGET_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  {targetOptions && (
+                    <>
+                      <Label className="text-xs">{WHAT_IF_TARGET_LABELS[shock.target.type]}</Label>
+                      <Select
+                        value={targetOptions.value}
+                        onValueChange={(value) => updateShock(index, { target: targetOptions.toTarget(value) })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {targetOptions.options.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDraft((prev) => ({ ...prev, shocks: prev.shocks.filter((_, i) => i !== index) }))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )
+          })}
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDraft((prev) => ({ ...prev, shocks: [...prev.shocks, DEFAULT_SHOCK] }))}
+          >
+            <PlusCircle className="h-4 w-4 mr-2" />
+            Add Shock
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {summaryMetric("RWA", "rwa")}
+          {summaryMetric("Expected Loss", "expectedLoss")}
+          {summaryMetric("EAD", "ead")}
+        </div>
+
+        {result.counterparties.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No counterparty is affected by the shocks.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Counterparty</TableHead>
+                  <TableHead>Shocks</TableHead>
+                  <TableHead>Baseline RWA</TableHead>
+                  <TableHead>Scenario RWA</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Baseline EL</TableHead>
+                  <TableHead>Scenario EL</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.counterparties.map((row) => (
+                  <TableRow key={row.id}>
+                    <TableCell className="font-medium">
+                      {row.name}
+                      <div className="text-xs text-muted-foreground">
+                        {row.industry} | {row.region}
+                      </div>
+                    </TableCell>
+                    <TableCell>{row.shocksApplied}</TableCell>
+                    <TableCell>{formatCurrency(row.baseline.rwa)}</TableCell>
+                    <TableCell>{formatCurrency(row.scenario.rwa)}</TableCell>
+                    <TableCell className={`font-medium ${deltaClass(row.rwaChange)}`}>
+                      {formatDelta(row.rwaChange)}
+                    </TableCell>
+                    <TableCell>{formatCurrency(row.baseline.expectedLoss)}</TableCell>
+                    <TableCell>{formatCurrency(row.scenario.expectedLoss)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,120 @@
+// Capital Ratio Calculator
+// Compares capital resources with the Basel III minimum ratios and buffers (Basel RBC20 and RBC30)
+
+import type {
+  CapitalBufferSettings,
+  CapitalRatioLine,
+  CapitalRatioResult,
+  CapitalResources,
+  CapitalTier,
+  ProvisionCapitalResult,
+} from "@/lib/types"
+
+// Pillar 1 minimum ratios
+export const MINIMUM_CAPITAL_RATIOS: Record<CapitalTier, number> = {
+  cet1: 0.045,
+  tier1: 0.06,
+  total: 0.08,
+}
+
+// Display names for capital tiers
+export const CAPITAL_TIER_LABELS: Record<CapitalTier, string> = {
+  cet1: "CET1",
+  tier1: "Tier 1",
+  total: "Total Capital",
+}
+
+// Illustrative capital resources of the bank holding the portfolio
+export const DEFAULT_CAPITAL_RESOURCES: CapitalResources = {
+  cet1: 60000000,
+  additionalTier1: 8000000,
+  tier2: 10000000,
+}
+
+// Capital conservation buffer
+export const CAPITAL_CONSERVATION_BUFFER = 0.025
+
+// Countercyclical buffer rates can be set between 0% and 2.5% by each jurisdiction
+export const MAX_COUNTERCYCLICAL_BUFFER = 0.025
+
+// Illustrative countercyclical buffer rates for the regions in the portfolio
+export const DEFAULT_COUNTERCYCLICAL_RATES: Record<string, number> = {
+  "North America": 0,
+  Europe: 0.01,
+  "Asia Pacific": 0.005,
+  "Latin America": 0,
+  "Middle East": 0,
+}
+
+export const DEFAULT_CAPITAL_BUFFERS: CapitalBufferSettings = {
+  conservationBuffer: CAPITAL_CONSERVATION_BUFFER,
+  countercyclicalRates: DEFAULT_COUNTERCYCLICAL_RATES,
+  systemicBuffer: 0,
+}
+
+// Bank-specific countercyclical buffer: the RWA-weighted average of the regional rates
+// Regions without a rate carry a 0% buffer
+export function calculateCountercyclicalBuffer(
+  rwaByRegion: Record<string, number>,
+  rates: Record<string, number>,
+): number {
+  const totalRwa = Object.values(rwaByRegion).reduce((sum, rwa) => sum + rwa, 0)
+  if (totalRwa <= 0) {
+    return 0
+  }
+  return Object.entries(rwaByRegion).reduce((sum, [region, rwa]) => sum + (rates[region] ?? 0) * rwa, 0) / totalRwa
+}
+
+// Calculate the CET1, Tier 1 and Total Capital ratios and their headroom over minimum plus combined buffer
+// A provision shortfall is deducted from CET1 and the eligible excess is added to Tier 2
+export function calculateCapitalRatios(
+  resources: CapitalResources,
+  buffers: CapitalBufferSettings,
+  rwa: number,
+  rwaByRegion: Record<string, number>,
+  provisionCapital?: Pick<ProvisionCapitalResult, "cet1Deduction" | "tier2AddBack">,
+): CapitalRatioResult {
+  const countercyclicalBuffer = calculateCountercyclicalBuffer(rwaByRegion, buffers.countercyclicalRates)
+  // The combined buffer is met with CET1 and raises every ratio requirement
+  const combinedBuffer = buffers.conservationBuffer + countercyclicalBuffer + buffers.systemicBuffer
+
+  const adjustedResources: CapitalResources = {
+    cet1: resources.cet1 - (provisionCapital?.cet1Deduction ?? 0),
+    additionalTier1: resources.additionalTier1,
+    tier2: resources.tier2 + (provisionCapital?.tier2AddBack ?? 0),
+  }
+  const capital: Record<CapitalTier, number> = {
+    cet1: adjustedResources.cet1,
+    tier1: adjustedResources.cet1 + adjustedResources.additionalTier1,
+    total: adjustedResources.cet1 + adjustedResources.additionalTier1 + adjustedResources.tier2,
+  }
+
+  const calculateLine = (tier: CapitalTier): CapitalRatioLine => {
+    const minimum = MINIMUM_CAPITAL_RATIOS[tier]
+    const requirement = minimum + combinedBuffer
+    const ratio = rwa > 0 ? capital[tier] / rwa : 0
+    const requiredCapital = requirement * rwa
+    return {
+      capital: capital[tier],
+      ratio,
+      minimum,
+      requirement,
+      requiredCapital,
+      headroom: capital[tier] - requiredCapital,
+      ratioHeadroom: ratio - requirement,
+      isBreached: capital[tier] < requiredCapital,
+    }
+  }
+
+  return {
+    rwa,
+    countercyclicalBuffer,
+    combinedBuffer,
+    resources: adjustedResources,
+    ratios: {
+      cet1: calculateLine("cet1"),
+      tier1: calculateLine("tier1"),
+      total: calculateLine("total"),
+    },
+  }
+}
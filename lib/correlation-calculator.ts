@@ -0,0 +1,66 @@
+// Asset Correlation Calculator
+// Implements the Basel IRB correlation formulas for each asset class
+
+import type { AssetClass, CorrelationBounds } from "@/lib/types"
+
+// Display names for asset classes
+export const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  corporate: "Corporate",
+  residentialMortgage: "Residential Mortgage",
+  qualifyingRevolvingRetail: "Qualifying Revolving Retail",
+  otherRetail: "Other Retail",
+}
+
+// Corporate correlation falls from 24% to 12% as PD rises (CRE31.5)
+export const CORPORATE_CORRELATION_BOUNDS: CorrelationBounds = { low: 0.12, high: 0.24 }
+
+// Other retail correlation falls from 16% to 3% (CRE31.15)
+export const OTHER_RETAIL_CORRELATION_BOUNDS: CorrelationBounds = { low: 0.03, high: 0.16 }
+
+// Fixed correlations for retail classes that do not depend on PD
+export const RESIDENTIAL_MORTGAGE_CORRELATION = 0.15
+export const QRRE_CORRELATION = 0.04
+
+// Annual sales below which the SME firm-size adjustment applies (EUR, revenue is taken as EUR)
+export const SME_SALES_THRESHOLD = 50000000
+
+// Retail exposures have no maturity adjustment, SME adjustment or AVC multiplier
+export function isRetailAssetClass(assetClass: AssetClass): boolean {
+  return assetClass !== "corporate"
+}
+
+// Correlation interpolated between a low and high value as PD rises
+// k sets how quickly the correlation falls from high to low
+function interpolateCorrelation(pd: number, low: number, high: number, k: number): number {
+  const weight = (1 - Math.exp(-k * pd)) / (1 - Math.exp(-k))
+  return low * weight + high * (1 - weight)
+}
+
+// Calculate base correlation for an asset class using the Basel formulas
+// The corporate bounds come from the regulatory profile
+export function calculateBaseCorrelation(
+  pd: number,
+  assetClass: AssetClass = "corporate",
+  corporateBounds: CorrelationBounds = CORPORATE_CORRELATION_BOUNDS,
+): number {
+  switch (assetClass) {
+    case "residentialMortgage":
+      return RESIDENTIAL_MORTGAGE_CORRELATION
+    case "qualifyingRevolvingRetail":
+      return QRRE_CORRELATION
+    case "otherRetail":
+      return interpolateCorrelation(pd, OTHER_RETAIL_CORRELATION_BOUNDS.low, OTHER_RETAIL_CORRELATION_BOUNDS.high, 35)
+    default:
+      return interpolateCorrelation(pd, corporateBounds.low, corporateBounds.high, 50)
+  }
+}
+
+// Calculate the SME firm-size correlation reduction (Basel CRE31.9)
+// Sales are in EUR millions and floored at 5m, so the reduction ranges from 0.04 down to 0
+export function calculateSmeAdjustment(revenue: number | undefined): number {
+  if (revenue === undefined || revenue >= SME_SALES_THRESHOLD) {
+    return 0
+  }
+  const sales = Math.max(5, revenue / 1000000)
+  return 0.04 * (1 - (sales - 5) / 45)
+}
@@ -1,5 +1,8 @@
 // Generate synthetic data for the RWA model
 
+import { REGULATORY_CCF } from "@/lib/ead-calculator"
+import { parseCounterparties, type Collateral, type Counterparty, type Facility, type FacilityType } from "@/lib/types"
+
 const counterpartyNames = [
   "Acme Corporation",
   "Globex Industries",
@@ -18,22 +21,28 @@ const counterpartyNames = [
   "Nakatomi Trading Corp",
 ]
 
-export function generateSyntheticData(count = 10) {
-  return Array.from({ length: Math.min(count, counterpartyNames.length) }, (_, i) => {
+export function generateSyntheticData(count = 10): Counterparty[] {
+  const counterparties = Array.from({ length: Math.min(count, counterpartyNames.length) }, (_, i) => {
     // Generate PD between 0.1% and 5%
     const pd = 0.001 + Math.random() * 0.049
 
     // Generate LGD between 30% and 70%
     const lgd = 0.3 + Math.random() * 0.4
 
-    // Generate EAD between $1M and $50M
-    const ead = 1000000 + Math.random() * 49000000
+    // Generate total commitments between $1M and $50M, split across facilities
+    const facilities = generateFacilities(`cp-${i + 1}`, 1000000 + Math.random() * 49000000, lgd)
+
+    // EAD at regulatory CCFs, kept as the flat exposure for consumers that ignore facilities
+    const ead = facilities.reduce(
+      (sum, facility) => sum + facility.drawn + facility.undrawn * REGULATORY_CCF[facility.facilityType],
+      0,
+    )
 
     // Generate maturity between 1 and 5 years
     const maturity = 1 + Math.random() * 4
 
-    // Generate revenue between $10M and $1B
-    const revenue = 10000000 + Math.random() * 990000000
+    // Generate revenue between $10M and $1B, with every fourth name an SME with revenue between $2M and $50M
+    const revenue = i % 4 === 2 ? 2000000 + Math.random() * 48000000 : 10000000 + Math.random() * 990000000
 
     // Generate asset size between $50M and $5B
     const assetSize = 50000000 + Math.random() * 4950000000
@@ -55,6 +64,9 @@ export function generateSyntheticData(count = 10) {
     // Calculate TTC PD (slightly higher than PIT PD in good economic conditions)
     const ttcPd = pd * (1 + (0.5 - macroeconomicIndex) * cyclicality * 2)
 
+    // Generate provisions between 50% and 150% of expected loss, so some names are under-provisioned
+    const provisions = ttcPd * lgd * ead * (0.5 + Math.random())
+
     return {
       id: `cp-${i + 1}`,
       name: counterpartyNames[i],
@@ -62,6 +74,7 @@ export function generateSyntheticData(count = 10) {
       ttcPd,
       lgd,
       ead,
+      facilities,
       maturity,
       revenue,
       assetSize,
@@ -74,12 +87,84 @@ export function generateSyntheticData(count = 10) {
       macroeconomicIndex,
       longTermAverage,
       cyclicality,
+      // F-IRB inputs (counterparties start on A-IRB)
+      irbApproach: "AIRB" as const,
+      seniority: i % 5 === 4 ? ("subordinated" as const) : ("senior" as const),
+      collateral: generateCollateral(ead),
+      // The eighth name is project finance without a reliable PD, so it is slotted
+      specialisedLending:
+        i === 7 ? { type: "projectFinance" as const, category: getRandomSlottingCategory() } : undefined,
+      provisions,
       // Credit review data (initially null)
       creditRating: null,
       creditReviewDate: null,
       useCredRatingPd: false,
     }
   })
+
+  // Validate the generated data so that a bad field fails here rather than inside the calculator
+  return parseCounterparties(counterparties)
+}
+
+const facilityTypes: FacilityType[] = [
+  "termLoan",
+  "revolvingCredit",
+  "unconditionallyCancellable",
+  "tradeFinance",
+  "performanceGuarantee",
+  "financialGuarantee",
+]
+
+// Split a total commitment across 1-3 facilities with random utilisation, maturity and seniority
+function generateFacilities(counterpartyId: string, commitment: number, lgd: number): Facility[] {
+  const count = 1 + Math.floor(Math.random() * 3)
+  const weights = Array.from({ length: count }, () => 0.5 + Math.random())
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+
+  return weights.map((weight, index) => {
+    // The first facility is always a term loan so every counterparty has a drawn balance
+    const facilityType = index === 0 ? "termLoan" : facilityTypes[Math.floor(Math.random() * facilityTypes.length)]
+    const limit = (commitment * weight) / totalWeight
+    // Guarantees are fully off-balance sheet, loans are 40%-100% drawn
+    const utilisation = facilityType.endsWith("Guarantee") ? 0 : 0.4 + Math.random() * 0.6
+
+    const facility: Facility = {
+      id: `${counterpartyId}-f${index + 1}`,
+      facilityType,
+      drawn: limit * utilisation,
+      undrawn: limit * (1 - utilisation),
+    }
+
+    // The first facility uses the counterparty LGD and maturity, the others get their own maturity
+    // between 1 and 5 years and are sometimes subordinated with a higher LGD
+    if (index > 0) {
+      facility.maturity = 1 + Math.random() * 4
+      if (Math.random() > 0.7) {
+        facility.seniority = "subordinated"
+        facility.lgd = Math.min(1, lgd + 0.25)
+      }
+    }
+
+    return facility
+  })
+}
+
+// Generate a random collateral package worth up to 80% of the exposure
+function generateCollateral(ead: number): Collateral[] {
+  const collateral: Collateral[] = []
+
+  if (Math.random() > 0.6) {
+    collateral.push({ type: "financial", value: ead * (0.1 + Math.random() * 0.2), haircut: 0.15 })
+  }
+  if (Math.random() > 0.5) {
+    const type = Math.random() > 0.5 ? "realEstate" : "otherPhysical"
+    collateral.push({ type, value: ead * (0.2 + Math.random() * 0.6) })
+  }
+  if (Math.random() > 0.7) {
+    collateral.push({ type: "receivables", value: ead * (0.1 + Math.random() * 0.3) })
+  }
+
+  return collateral
 }
 
 function getRandomFinancialIndustry() {
@@ -102,16 +187,21 @@ function getRandomNonFinancialIndustry() {
   return industries[Math.floor(Math.random() * industries.length)]
 }
 
+function getRandomSlottingCategory() {
+  const categories = ["strong", "good", "satisfactory", "weak"] as const
+  return categories[Math.floor(Math.random() * categories.length)]
+}
+
 function getRandomRegion() {
   const regions = ["North America", "Europe", "Asia Pacific", "Latin America", "Middle East"]
   return regions[Math.floor(Math.random() * regions.length)]
 }
 
 // Add this function to export all counterparties for dropdown options
-export function getAllCounterparties() {
+export function getAllCounterparties(): Counterparty[] {
   // This is a placeholder - in a real implementation, this would fetch all counterparties
   // For now, we'll return a sample set of counterparties with all possible values
-  return [
+  return parseCounterparties([
     {
       id: "c1",
       name: "Bank of America",
@@ -252,7 +342,7 @@ export function getAllCounterparties() {
       ead: 2500000,
       maturity: 3.0,
     },
-  ]
+  ])
 }
 
 export const generateCounterparties = generateSyntheticData
@@ -0,0 +1,23 @@
+// Defaulted Exposure Calculator
+// Capital for exposures already in default (Basel CRE31.3), where the IRB formula no longer applies
+
+import type { DefaultReason } from "@/lib/types"
+
+// A PD at or above this level means the counterparty is in default, e.g. rating "D"
+export const DEFAULTED_PD = 1
+
+// Highest PD a stress or shock can take a performing exposure to without moving it into default
+export const MAX_PERFORMING_PD = 0.999
+
+// Display names for default triggers
+export const DEFAULT_REASON_LABELS: Record<DefaultReason, string> = {
+  pastDue90: "More than 90 days past due",
+  unlikelyToPay: "Unlikely to pay",
+  distressedRestructuring: "Distressed restructuring",
+  bankruptcy: "Bankruptcy or insolvency",
+}
+
+// Capital requirement (K) for a defaulted exposure: the unexpected loss above the best-estimate expected loss
+export function calculateDefaultedCapital(lgd: number, elbe: number): number {
+  return Math.max(0, lgd - elbe)
+}
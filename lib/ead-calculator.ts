@@ -0,0 +1,77 @@
+// Exposure at Default (EAD) Calculator
+// Converts drawn balances and undrawn commitments into EAD with credit conversion factors (CCF)
+
+import type { Counterparty, ExposureResult, Facility, FacilityExposure, FacilityType } from "@/lib/types"
+
+// Regulatory CCF applied to the undrawn amount of each facility type
+export const REGULATORY_CCF: Record<FacilityType, number> = {
+  termLoan: 0.75,
+  revolvingCredit: 0.75,
+  unconditionallyCancellable: 0.1,
+  tradeFinance: 0.2,
+  performanceGuarantee: 0.5,
+  financialGuarantee: 1.0,
+}
+
+// Display names for facility types
+export const FACILITY_TYPE_LABELS: Record<FacilityType, string> = {
+  termLoan: "Term Loan",
+  revolvingCredit: "Revolving Credit",
+  unconditionallyCancellable: "Unconditionally Cancellable",
+  tradeFinance: "Trade Finance",
+  performanceGuarantee: "Performance Guarantee",
+  financialGuarantee: "Financial Guarantee",
+}
+
+// Calculate the EAD of a single facility
+// undrawnUtilisation replaces the CCF, e.g. to stress drawdowns ahead of default
+export function calculateFacilityExposure(facility: Facility, undrawnUtilisation: number | null = null): FacilityExposure {
+  const ccf = undrawnUtilisation ?? facility.ccfOverride ?? REGULATORY_CCF[facility.facilityType]
+
+  return {
+    id: facility.id,
+    name: facility.name ?? FACILITY_TYPE_LABELS[facility.facilityType],
+    facilityType: facility.facilityType,
+    drawn: facility.drawn,
+    undrawn: facility.undrawn,
+    ccf,
+    isCcfOverridden: undrawnUtilisation === null && facility.ccfOverride !== undefined,
+    ead: facility.drawn + facility.undrawn * ccf,
+  }
+}
+
+// Calculate counterparty EAD from its facilities, falling back to the flat EAD when it has none
+export function calculateExposure(counterparty: Counterparty, undrawnUtilisation: number | null = null): ExposureResult {
+  const facilities = counterparty.facilities ?? []
+
+  if (facilities.length === 0) {
+    return { drawn: counterparty.ead, undrawn: 0, ead: counterparty.ead, facilities: [] }
+  }
+
+  const facilityExposures = facilities.map((facility) => calculateFacilityExposure(facility, undrawnUtilisation))
+
+  return {
+    drawn: facilityExposures.reduce((sum, facility) => sum + facility.drawn, 0),
+    undrawn: facilityExposures.reduce((sum, facility) => sum + facility.undrawn, 0),
+    ead: facilityExposures.reduce((sum, facility) => sum + facility.ead, 0),
+    facilities: facilityExposures,
+  }
+}
+
+// Effective CCF across all facilities (off-balance-sheet EAD / undrawn), used as the utilisation baseline
+export function getEffectiveCcf(exposure: ExposureResult): number {
+  return exposure.undrawn > 0 ? (exposure.ead - exposure.drawn) / exposure.undrawn : 0
+}
+
+// Scale a counterparty's exposure, including every facility, by a multiplier
+export function scaleExposure(counterparty: Counterparty, multiplier: number): Counterparty {
+  return {
+    ...counterparty,
+    ead: counterparty.ead * multiplier,
+    facilities: counterparty.facilities?.map((facility) => ({
+      ...facility,
+      drawn: facility.drawn * multiplier,
+      undrawn: facility.undrawn * multiplier,
+    })),
+  }
+}
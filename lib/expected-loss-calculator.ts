@@ -0,0 +1,38 @@
+// Expected Loss Calculator
+// Compares IRB expected loss with provisions and derives the capital treatment (Basel CRE35)
+
+import type { ExpectedLossResult, ProvisionCapitalResult } from "@/lib/types"
+
+// Share of credit RWA up to which an excess of provisions over expected loss counts as Tier 2 (CRE35.4)
+export const TIER2_PROVISION_CAP = 0.006
+
+// Compare expected loss with provisions; only one of shortfall and excess is non-zero
+export function compareWithProvisions(expectedLoss: number, provisions: number): ExpectedLossResult {
+  return {
+    expectedLoss,
+    provisions,
+    shortfall: Math.max(0, expectedLoss - provisions),
+    excess: Math.max(0, provisions - expectedLoss),
+  }
+}
+
+// Portfolio shortfall is deducted from CET1, while an excess is added to Tier 2 up to the cap
+// Expected loss and provisions are netted across the whole IRB portfolio
+export function calculateProvisionCapital(
+  results: Pick<ExpectedLossResult, "expectedLoss" | "provisions">[],
+  creditRwa: number,
+  tier2Cap = TIER2_PROVISION_CAP,
+): ProvisionCapitalResult {
+  const expectedLoss = results.reduce((sum, result) => sum + result.expectedLoss, 0)
+  const provisions = results.reduce((sum, result) => sum + result.provisions, 0)
+  const comparison = compareWithProvisions(expectedLoss, provisions)
+  const cap = creditRwa * tier2Cap
+
+  return {
+    ...comparison,
+    cet1Deduction: comparison.shortfall,
+    tier2AddBack: Math.min(comparison.excess, cap),
+    tier2Cap: cap,
+    isTier2CapBinding: comparison.excess > cap,
+  }
+}
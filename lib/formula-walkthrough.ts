@@ -0,0 +1,509 @@
+// Formula Walkthrough
+// Builds each calculation module's formulas with the values of a calculation trace substituted step by step
+// Every number comes from the trace recorded by calculateRWA, so the walkthrough follows the engine
+
+import { ASSET_CLASS_LABELS, OTHER_RETAIL_CORRELATION_BOUNDS, SME_SALES_THRESHOLD } from "@/lib/correlation-calculator"
+import { getMacroScenario } from "@/lib/macro-scenarios"
+import { getRegulatoryProfile } from "@/lib/regulatory-profiles"
+import { SLOTTING_CATEGORY_LABELS } from "@/lib/slotting-calculator"
+import type {
+  AssetClass,
+  CalculationTraceStage,
+  CalculationTraceStep,
+  FormulaWalkthroughStep,
+  MacroScenarioId,
+  RegulatoryProfileId,
+  SlottingCategory,
+  TraceValue,
+} from "@/lib/types"
+
+type TraceValues = CalculationTraceStep["values"]
+
+// Rates and factors to four significant digits, without trailing zeros
+const formatFactor = (value: number) => String(Number(value.toPrecision(4)))
+
+const formatAmount = (value: number) => Math.round(value).toLocaleString()
+
+const formatFlag = (value: TraceValue | undefined) => (value ? "Yes" : "No")
+
+const getNumber = (values: TraceValues, key: string) => {
+  const value = values[key]
+  return typeof value === "number" ? value : NaN
+}
+
+const findStep = (trace: CalculationTraceStep[], stage: CalculationTraceStage, label?: string) =>
+  trace.find((step) => step.stage === stage && (label === undefined || step.label === label))
+
+// Build the steps for every capital calculation, prefixing labels with the exposure when there are facilities
+function forEachExposure(
+  trace: CalculationTraceStep[],
+  build: (values: TraceValues) => FormulaWalkthroughStep[],
+): FormulaWalkthroughStep[] {
+  const capitalSteps = trace.filter((step) => step.stage === "capital")
+  return capitalSteps.flatMap((step) =>
+    build(step.values).map((line) =>
+      capitalSteps.length > 1 ? { ...line, label: `${step.label}: ${line.label}` } : line,
+    ),
+  )
+}
+
+function getTtcPdWalkthrough(trace: CalculationTraceStep[]): FormulaWalkthroughStep[] {
+  const pd = findStep(trace, "pd")?.values
+  if (!pd) return []
+
+  const steps: FormulaWalkthroughStep[] = []
+  const cycleAdjustment = getNumber(pd, "cycleAdjustment")
+  const modelTtcPd = getNumber(pd, "modelTtcPd")
+
+  if (Number.isNaN(cycleAdjustment)) {
+    steps.push({
+      label: "Model TTC PD",
+      formula: "TTC PD = Counterparty TTC PD",
+      substitution: "TTC PD as held on the counterparty",
+      result: formatFactor(modelTtcPd),
+    })
+  } else {
+    if (pd.macroScenario) {
+      steps.push({
+        label: "Economic index",
+        formula: "Index = 0.5 + Σ Industry Weight × (Value - Regional Neutral) / Scale",
+        substitution: `${getMacroScenario(pd.macroScenario as MacroScenarioId).name}, ${pd.region}, ${pd.industry}: GDP ${getNumber(pd, "gdpGrowth")}%, unemployment ${getNumber(pd, "unemployment")}%, rates ${getNumber(pd, "interestRate")}%`,
+        result: formatFactor(getNumber(pd, "macroeconomicIndex")),
+      })
+    }
+    steps.push(
+      {
+        label: "Cycle adjustment",
+        formula: "A = 1 + (0.5 - Economic Index) × Cyclicality × 2",
+        substitution: `A = 1 + (0.5 - ${formatFactor(getNumber(pd, "macroeconomicIndex"))}) × ${formatFactor(getNumber(pd, "cyclicality"))} × 2`,
+        result: formatFactor(cycleAdjustment),
+      },
+      {
+        label: "Model TTC PD",
+        formula: "TTC PD = PIT PD × A × 0.7 + Long-Term Average × 0.3",
+        substitution: `TTC PD = ${formatFactor(getNumber(pd, "pitPd"))} × ${formatFactor(cycleAdjustment)} × 0.7 + ${formatFactor(getNumber(pd, "longTermAverage"))} × 0.3`,
+        result: formatFactor(modelTtcPd),
+      },
+    )
+  }
+
+  const ratingPd = getNumber(pd, "ratingPd")
+  if (!Number.isNaN(ratingPd)) {
+    steps.push({
+      label: "Credit review",
+      formula: "PD = Rating-Based PD",
+      substitution: `PD = ${formatFactor(ratingPd)}`,
+      result: formatFactor(ratingPd),
+    })
+  }
+
+  const pdFloor = getNumber(pd, "pdFloor")
+  if (!Number.isNaN(pdFloor)) {
+    steps.push({
+      label: "PD floor",
+      formula: "PD = max(TTC PD, PD Floor)",
+      substitution: `PD = max(${formatFactor(getNumber(pd, "preFloorTtcPd"))}, ${formatFactor(pdFloor)})`,
+      result: formatFactor(getNumber(pd, "ttcPd")),
+    })
+  }
+
+  return steps
+}
+
+function getLgdWalkthrough(trace: CalculationTraceStep[]): FormulaWalkthroughStep[] {
+  return forEachExposure(trace, (values) => {
+    const lgdFloor = getNumber(values, "lgdFloor")
+    return [
+      lgdFloor > 0
+        ? {
+            label: "LGD floor",
+            formula: "LGD = max(Modelled LGD, LGD Floor)",
+            substitution: `LGD = max(${formatFactor(getNumber(values, "preFloorLgd"))}, ${formatFactor(lgdFloor)})`,
+            result: formatFactor(getNumber(values, "lgd")),
+          }
+        : {
+            label: "LGD",
+            formula: "LGD = Modelled LGD",
+            substitution: "No LGD floor applies",
+            result: formatFactor(getNumber(values, "lgd")),
+          },
+    ]
+  })
+}
+
+function getEadWalkthrough(trace: CalculationTraceStep[]): FormulaWalkthroughStep[] {
+  const exposure = findStep(trace, "input", "Exposure at default")?.values
+  if (!exposure) return []
+
+  const steps: FormulaWalkthroughStep[] = [
+    {
+      label: "Exposure at default",
+      formula: "EAD = Drawn + Undrawn × CCF",
+      substitution: `EAD = ${formatAmount(getNumber(exposure, "drawn"))} + ${formatAmount(getNumber(exposure, "undrawn"))} × ${formatFactor(getNumber(exposure, "effectiveCcf"))}`,
+      result: formatAmount(getNumber(exposure, "calculatedEad")),
+    },
+  ]
+
+  const eadOverride = getNumber(exposure, "eadOverride")
+  if (!Number.isNaN(eadOverride)) {
+    steps.push({
+      label: "EAD override",
+      formula: "EAD = EAD Override",
+      substitution: `EAD = ${formatAmount(eadOverride)}`,
+      result: formatAmount(getNumber(exposure, "ead")),
+    })
+  }
+
+  return steps
+}
+
+function getCorrelationWalkthrough(trace: CalculationTraceStep[]): FormulaWalkthroughStep[] {
+  const correlation = findStep(trace, "correlation")?.values
+  const defaults = findStep(trace, "default")?.values
+  const pd = findStep(trace, "pd")?.values
+  if (!correlation || !defaults || !pd) return []
+
+  if (findStep(trace, "capital")?.values.slottingCategory) {
+    return [
+      {
+        label: "Correlation",
+        formula: "R = 0",
+        substitution: "Slotted exposures use supervisory risk weights",
+        result: "0",
+      },
+    ]
+  }
+
+  const baseCorrelation = getNumber(correlation, "baseCorrelation")
+  const correlationOverride = getNumber(defaults, "correlationOverride")
+  const ttcPd = formatFactor(getNumber(pd, "ttcPd"))
+  const steps: FormulaWalkthroughStep[] = []
+
+  if (!Number.isNaN(correlationOverride)) {
+    steps.push({
+      label: "Correlation override",
+      formula: "R = Correlation Override",
+      substitution: `R = ${formatFactor(correlationOverride)}`,
+      result: formatFactor(baseCorrelation),
+    })
+  } else if (correlation.assetClass === "corporate" || correlation.assetClass === "otherRetail") {
+    const isCorporate = correlation.assetClass === "corporate"
+    const bounds = isCorporate
+      ? getRegulatoryProfile(defaults.regulatoryProfile as RegulatoryProfileId).corporateCorrelation
+      : OTHER_RETAIL_CORRELATION_BOUNDS
+    const k = isCorporate ? 50 : 35
+    steps.push({
+      label: "Base correlation",
+      formula: `R = Low × W + High × (1 - W), W = (1 - e^(-${k} × PD)) / (1 - e^(-${k}))`,
+      substitution: `R = ${formatFactor(bounds.low)} × W + ${formatFactor(bounds.high)} × (1 - W), W = (1 - e^(-${k} × ${ttcPd})) / (1 - e^(-${k}))`,
+      result: formatFactor(baseCorrelation),
+    })
+  } else {
+    steps.push({
+      label: "Base correlation",
+      formula: "R = Fixed Correlation",
+      substitution: `R = ${formatFactor(baseCorrelation)} for ${ASSET_CLASS_LABELS[correlation.assetClass as AssetClass]}`,
+      result: formatFactor(baseCorrelation),
+    })
+  }
+
+  steps.push({
+    label: "Asset correlation",
+    formula: "R = (Base R - SME Adjustment) × AVC Multiplier",
+    substitution: `R = (${formatFactor(baseCorrelation)} - ${formatFactor(getNumber(correlation, "smeAdjustment"))}) × ${formatFactor(getNumber(correlation, "avcMultiplier"))}`,
+    result: formatFactor(getNumber(correlation, "correlation")),
+  })
+
+  return steps
+}
+
+function getSmeWalkthrough(trace: CalculationTraceStep[]): FormulaWalkthroughStep[] {
+  const correlation = findStep(trace, "correlation")?.values
+  const inputs = findStep(trace, "input", "Counterparty inputs")?.values
+  if (!correlation || !inputs) return []
+
+  const smeAdjustment = getNumber(correlation, "smeAdjustment")
+  const revenue = getNumber(inputs, "revenue")
+
+  if (smeAdjustment === 0) {
+    const reason = Number.isNaN(revenue)
+      ? "No sales figure for the counterparty"
+      : revenue >= SME_SALES_THRESHOLD
+        ? `Sales of ${formatAmount(revenue)} are not below ${formatAmount(SME_SALES_THRESHOLD)}`
+        : "Not applied to this counterparty or asset class"
+    return [{ label: "SME adjustment", formula: "SME Adjustment = 0", substitution: reason, result: "0" }]
+  }
+
+  const sales = Math.max(5, revenue / 1000000)
+  return [
+    {
+      label: "Sales",
+      formula: "S = max(5, Sales / 1,000,000)",
+      substitution: `S = max(5, ${formatAmount(revenue)} / 1,000,000)`,
+      result: formatFactor(sales),
+    },
+    {
+      label: "SME adjustment",
+      formula: "SME Adjustment = 0.04 × (1 - (S - 5) / 45)",
+      substitution: `SME Adjustment = 0.04 × (1 - (${formatFactor(sales)} - 5) / 45)`,
+      result: formatFactor(smeAdjustment),
+    },
+  ]
+}
+
+function getAvcWalkthrough(trace: CalculationTraceStep[]): FormulaWalkthroughStep[] {
+  const correlation = findStep(trace, "correlation")?.values
+  const inputs = findStep(trace, "input", "Counterparty inputs")?.values
+  const defaults = findStep(trace, "default")?.values
+  if (!correlation || !inputs || !defaults) return []
+
+  return [
+    {
+      label: "AVC multiplier",
+      formula: "AVC = Profile AVC if Financial and (Large or Unregulated), otherwise 1",
+      substitution: `Financial: ${formatFlag(inputs.isFinancial)}, Large: ${formatFlag(inputs.isLargeFinancial)}, Regulated: ${formatFlag(inputs.isRegulated)}, Profile AVC: ${formatFactor(getNumber(defaults, "avcMultiplier"))}`,
+      result: formatFactor(getNumber(correlation, "avcMultiplier")),
+    },
+  ]
+}
+
+function getMaturityWalkthrough(trace: CalculationTraceStep[]): FormulaWalkthroughStep[] {
+  const defaults = findStep(trace, "default")?.values
+  if (!defaults) return []
+  const profile = getRegulatoryProfile(defaults.regulatoryProfile as RegulatoryProfileId)
+
+  return forEachExposure(trace, (values) => {
+    const b = getNumber(values, "b")
+    if (Number.isNaN(b)) {
+      return [
+        {
+          label: "Maturity adjustment",
+          formula: "MA = 1",
+          substitution: "No maturity adjustment for this exposure",
+          result: formatFactor(getNumber(values, "maturityAdjustment")),
+        },
+      ]
+    }
+
+    const effectiveMaturity = formatFactor(getNumber(values, "effectiveMaturity"))
+    return [
+      {
+        label: "Effective maturity",
+        formula: "M = min(Max, max(Min, Maturity))",
+        substitution: `M = min(${profile.maxMaturity}, max(${profile.minMaturity}, ${formatFactor(getNumber(values, "maturity"))}))`,
+        result: effectiveMaturity,
+      },
+      {
+        label: "b",
+        formula: "b = [0.11852 - 0.05478 × ln(PD)]²",
+        substitution: `b = [0.11852 - 0.05478 × ln(${formatFactor(getNumber(values, "pd"))})]²`,
+        result: formatFactor(b),
+      },
+      {
+        label: "Maturity adjustment",
+        formula: "MA = (1 + (M - 2.5) × b) / (1 - 1.5 × b)",
+        substitution: `MA = (1 + (${effectiveMaturity} - 2.5) × ${formatFactor(b)}) / (1 - 1.5 × ${formatFactor(b)})`,
+        result: formatFactor(getNumber(values, "maturityAdjustment")),
+      },
+    ]
+  })
+}
+
+// K for whichever method produced it: slotting, defaulted, the IRB formula or the simplified formula
+function getCapitalSteps(values: TraceValues): FormulaWalkthroughStep[] {
+  const k = formatFactor(getNumber(values, "k"))
+  const lgd = formatFactor(getNumber(values, "lgd"))
+  const pd = formatFactor(getNumber(values, "pd"))
+
+  if (values.slottingCategory) {
+    return [
+      {
+        label: "Capital requirement",
+        formula: "K = Risk Weight / 12.5",
+        substitution: `K = ${formatFactor(getNumber(values, "riskWeight"))} / 12.5 (${SLOTTING_CATEGORY_LABELS[values.slottingCategory as SlottingCategory]})`,
+        result: k,
+      },
+    ]
+  }
+
+  const elbe = getNumber(values, "elbe")
+  if (!Number.isNaN(elbe)) {
+    return [
+      {
+        label: "Capital requirement",
+        formula: "K = max(0, LGD - ELBE)",
+        substitution: `K = max(0, ${lgd} - ${formatFactor(elbe)})`,
+        result: k,
+      },
+    ]
+  }
+
+  const conditionalPd = getNumber(values, "conditionalPd")
+  if (Number.isNaN(conditionalPd)) {
+    return [{ label: "Capital requirement", formula: "K = LGD × PD", substitution: `K = ${lgd} × ${pd}`, result: k }]
+  }
+
+  const correlation = formatFactor(getNumber(values, "correlation"))
+  return [
+    {
+      label: "Conditional PD",
+      formula: "Conditional PD = N[(G(PD) + √R × G(Confidence)) / √(1 - R)]",
+      substitution: `Conditional PD = N[(G(${pd}) + √${correlation} × G(${getNumber(values, "confidenceLevel")})) / √(1 - ${correlation})]`,
+      result: formatFactor(conditionalPd),
+    },
+    {
+      label: "Capital requirement",
+      formula: "K = LGD × (Conditional PD - PD) × MA",
+      substitution: `K = ${lgd} × (${formatFactor(conditionalPd)} - ${pd}) × ${formatFactor(getNumber(values, "maturityAdjustment"))}`,
+      result: k,
+    },
+  ]
+}
+
+function getRwaSteps(values: TraceValues): FormulaWalkthroughStep[] {
+  return [
+    {
+      label: "Risk-weighted assets",
+      formula: "RWA = K × (12.5 × Scaling) × EAD",
+      substitution: `RWA = ${formatFactor(getNumber(values, "k"))} × ${formatFactor(getNumber(values, "rwaFactor"))} × ${formatAmount(getNumber(values, "ead"))}`,
+      result: formatAmount(getNumber(values, "rwa")),
+    },
+  ]
+}
+
+// Formula of an RWA adjustment, by adjustment type
+function getAdjustmentStep(step: CalculationTraceStep): FormulaWalkthroughStep {
+  const before = formatAmount(step.before ?? 0)
+  const result = formatAmount(step.after ?? 0)
+
+  switch (step.values.type) {
+    case "absolute":
+      return { label: step.label, formula: "RWA = Adjusted RWA", substitution: `RWA = ${result}`, result }
+    case "additive":
+      return {
+        label: step.label,
+        formula: "RWA = RWA + Adjustment",
+        substitution: `RWA = ${before} + ${formatAmount(getNumber(step.values, "adjustment"))}`,
+        result,
+      }
+    case "multiplicative":
+      return {
+        label: step.label,
+        formula: "RWA = RWA × Multiplier",
+        substitution: `RWA = ${before} × ${formatFactor(getNumber(step.values, "multiplier"))}`,
+        result,
+      }
+    default:
+      return {
+        label: step.label,
+        formula: "RWA = RWA × (1 + Percentage / 100)",
+        substitution: `RWA = ${before} × (1 + ${formatFactor(getNumber(step.values, "value"))} / 100)`,
+        result,
+      }
+  }
+}
+
+function getRwaWalkthrough(trace: CalculationTraceStep[]): FormulaWalkthroughStep[] {
+  const steps = forEachExposure(trace, (values) => [...getCapitalSteps(values), ...getRwaSteps(values)])
+  const result = findStep(trace, "result")
+
+  return [
+    ...steps,
+    ...trace.filter((step) => step.stage === "adjustment").map(getAdjustmentStep),
+    ...(result?.after !== undefined
+      ? [
+          {
+            label: "Final RWA",
+            formula: "RWA = RWA after all adjustments",
+            substitution: `RWA = ${formatAmount(result.after)}`,
+            result: formatAmount(result.after),
+          },
+        ]
+      : []),
+  ]
+}
+
+function getDefaultWalkthrough(trace: CalculationTraceStep[]): FormulaWalkthroughStep[] {
+  if (findStep(trace, "pd")?.values.isDefaulted !== true) {
+    return [
+      {
+        label: "Default status",
+        formula: "K from the IRB formula",
+        substitution: "The counterparty is not in default",
+        result: "-",
+      },
+    ]
+  }
+  return forEachExposure(trace, (values) => [...getCapitalSteps(values), ...getRwaSteps(values)])
+}
+
+function getSlottingWalkthrough(trace: CalculationTraceStep[]): FormulaWalkthroughStep[] {
+  if (!findStep(trace, "capital")?.values.slottingCategory) {
+    return [
+      {
+        label: "Slotting",
+        formula: "K from the IRB formula",
+        substitution: "The counterparty is not specialised lending",
+        result: "-",
+      },
+    ]
+  }
+  return forEachExposure(trace, (values) => [...getCapitalSteps(values), ...getRwaSteps(values)])
+}
+
+function getExpectedLossWalkthrough(trace: CalculationTraceStep[]): FormulaWalkthroughStep[] {
+  return forEachExposure(trace, (values) => {
+    const elbe = getNumber(values, "elbe")
+    const ead = formatAmount(getNumber(values, "ead"))
+    const result = formatAmount(getNumber(values, "expectedLoss"))
+
+    if (values.slottingCategory) {
+      return [
+        {
+          label: "Expected loss",
+          formula: "EL = Slotting EL Rate × EAD",
+          substitution: `EL = Rate for ${SLOTTING_CATEGORY_LABELS[values.slottingCategory as SlottingCategory]} × ${ead}`,
+          result,
+        },
+      ]
+    }
+    if (!Number.isNaN(elbe)) {
+      return [
+        {
+          label: "Expected loss",
+          formula: "EL = ELBE × EAD",
+          substitution: `EL = ${formatFactor(elbe)} × ${ead}`,
+          result,
+        },
+      ]
+    }
+    return [
+      {
+        label: "Expected loss",
+        formula: "EL = PD × LGD × EAD",
+        substitution: `EL = ${formatFactor(getNumber(values, "pd"))} × ${formatFactor(getNumber(values, "lgd"))} × ${ead}`,
+        result,
+      },
+    ]
+  })
+}
+
+const WALKTHROUGH_BUILDERS: Record<string, (trace: CalculationTraceStep[]) => FormulaWalkthroughStep[]> = {
+  ttcpd: getTtcPdWalkthrough,
+  lgd: getLgdWalkthrough,
+  ead: getEadWalkthrough,
+  correlation: getCorrelationWalkthrough,
+  sme: getSmeWalkthrough,
+  avc: getAvcWalkthrough,
+  maturity: getMaturityWalkthrough,
+  default: getDefaultWalkthrough,
+  slotting: getSlottingWalkthrough,
+  rwa: getRwaWalkthrough,
+  el: getExpectedLossWalkthrough,
+}
+
+// Walkthrough of a module's formulas from a calculation trace, empty for modules without a formula
+export function getFormulaWalkthrough(moduleId: string, trace: CalculationTraceStep[]): FormulaWalkthroughStep[] {
+  const build = WALKTHROUGH_BUILDERS[moduleId.toLowerCase()]
+  return build ? build(trace) : []
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest"
+import { calculateFirbLgd } from "@/lib/lgd-calculator"
+import { REFERENCE_COUNTERPARTY } from "@/lib/regression-cases"
+import { getRegulatoryProfile } from "@/lib/regulatory-profiles"
+import type { Counterparty, RegulatoryProfileId } from "@/lib/types"
+
+// F-IRB LGD of the counterparty under the supervisory LGD and collateral rules of a profile
+function firbLgd(counterparty: Counterparty, profileId: RegulatoryProfileId) {
+  const { supervisoryLgd, collateralRules } = getRegulatoryProfile(profileId)
+  return calculateFirbLgd(counterparty, counterparty.ead, supervisoryLgd, collateralRules)
+}
+
+describe("F-IRB collateral rules by regulatory profile", () => {
+  it("secures real estate at 140% coverage and 35% LGD under Basel II, after a 40% haircut at 20% under Basel III", () => {
+    const counterparty = { ...REFERENCE_COUNTERPARTY, collateral: [{ type: "realEstate" as const, value: 500000 }] }
+
+    const baselII = firbLgd(counterparty, "baselII")
+    const baselIII = firbLgd(counterparty, "baselIII")
+
+    expect(baselII.securedPortions[0].securedExposure).toBeCloseTo(500000 / 1.4, 6)
+    expect(baselII.lgd).toBeCloseTo(((500000 / 1.4) * 0.35 + (1000000 - 500000 / 1.4) * 0.45) / 1000000, 10)
+    expect(baselIII.securedPortions[0].securedExposure).toBeCloseTo(300000, 6)
+    expect(baselIII.lgd).toBeCloseTo(0.34, 10)
+    expect(baselIII.lgd).not.toBeCloseTo(baselII.lgd, 4)
+  })
+
+  it("only applies the 30% minimum coverage under Basel II", () => {
+    const counterparty = { ...REFERENCE_COUNTERPARTY, collateral: [{ type: "realEstate" as const, value: 200000 }] }
+
+    const baselII = firbLgd(counterparty, "baselII")
+    const baselIII = firbLgd(counterparty, "baselIII")
+
+    expect(baselII.meetsPhysicalThreshold).toBe(false)
+    expect(baselII.lgd).toBeCloseTo(0.45, 10)
+    expect(baselIII.securedPortions[0].securedExposure).toBeCloseTo(120000, 6)
+    expect(baselIII.lgd).toBeCloseTo(0.376, 10)
+  })
+})
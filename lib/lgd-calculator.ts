@@ -0,0 +1,162 @@
+// Foundation IRB (F-IRB) LGD Calculator
+// Derives LGD from the seniority of the claim and the collateral recognised under the Basel framework
+
+import type {
+  AssetClass,
+  Collateral,
+  CollateralRules,
+  CollateralType,
+  Counterparty,
+  FirbLgdResult,
+  LgdFloors,
+  SecuredPortion,
+  SupervisoryLgd,
+} from "@/lib/types"
+
+// Supervisory LGD for unsecured claims, 45% for every senior claim under Basel II
+export const BASEL_II_SUPERVISORY_LGD: SupervisoryLgd = {
+  senior: 0.45,
+  seniorFinancial: 0.45,
+  subordinated: 0.75,
+}
+
+// Basel III lowers senior claims on non-financial corporates to 40% (CRE32.3-32.4)
+export const BASEL_III_SUPERVISORY_LGD: SupervisoryLgd = {
+  senior: 0.4,
+  seniorFinancial: 0.45,
+  subordinated: 0.75,
+}
+
+// Default supervisory haircut for financial collateral when none is specified
+export const DEFAULT_FINANCIAL_HAIRCUT = 0.15
+
+// Basel II recognition rules for non-financial collateral, with a 30% minimum coverage for physical collateral
+export const BASEL_II_COLLATERAL_RULES: CollateralRules = {
+  receivables: { lgd: 0.35, minimumCoverage: 0, fullCoverage: 1.25 },
+  realEstate: { lgd: 0.35, minimumCoverage: 0.3, fullCoverage: 1.4 },
+  otherPhysical: { lgd: 0.4, minimumCoverage: 0.3, fullCoverage: 1.4 },
+}
+
+// Basel III haircut on non-financial collateral (CRE32.10); collateral of C secures C x (1 - H) of the exposure
+export const BASEL_III_COLLATERAL_HAIRCUT = 0.4
+
+// Basel III drops the minimum coverage and lowers the secured LGDs (CRE32.9-32.11)
+export const BASEL_III_COLLATERAL_RULES: CollateralRules = {
+  receivables: { lgd: 0.2, minimumCoverage: 0, fullCoverage: 1 / (1 - BASEL_III_COLLATERAL_HAIRCUT) },
+  realEstate: { lgd: 0.2, minimumCoverage: 0, fullCoverage: 1 / (1 - BASEL_III_COLLATERAL_HAIRCUT) },
+  otherPhysical: { lgd: 0.25, minimumCoverage: 0, fullCoverage: 1 / (1 - BASEL_III_COLLATERAL_HAIRCUT) },
+}
+
+// Basel III A-IRB LGD floors (CRE32.16-32.17 for corporates, CRE32.24 for retail)
+export const A_IRB_LGD_FLOORS: LgdFloors = {
+  unsecured: 0.25,
+  financial: 0,
+  receivables: 0.1,
+  realEstate: 0.1,
+  otherPhysical: 0.15,
+  residentialMortgage: 0.05,
+  qualifyingRevolvingRetail: 0.5,
+  otherRetail: 0.3,
+}
+
+// Display names for collateral types
+export const COLLATERAL_TYPE_LABELS: Record<CollateralType, string> = {
+  financial: "Financial",
+  receivables: "Receivables",
+  realEstate: "Real Estate",
+  otherPhysical: "Other Physical",
+}
+
+// Sum the value of all collateral items of a given type
+function sumCollateral(collateral: Collateral[], type: CollateralType): number {
+  return collateral.filter((item) => item.type === type).reduce((sum, item) => sum + item.value, 0)
+}
+
+// Calculate the F-IRB LGD for a counterparty, with the supervisory LGD and collateral rules of the regulatory profile
+export function calculateFirbLgd(
+  counterparty: Counterparty,
+  ead = counterparty.ead,
+  supervisoryLgd: SupervisoryLgd = BASEL_III_SUPERVISORY_LGD,
+  collateralRules: CollateralRules = BASEL_III_COLLATERAL_RULES,
+): FirbLgdResult {
+  const seniority = counterparty.seniority ?? "senior"
+  const collateral = counterparty.collateral ?? []
+  const unsecuredLgd =
+    seniority === "subordinated"
+      ? supervisoryLgd.subordinated
+      : counterparty.isFinancial
+        ? supervisoryLgd.seniorFinancial
+        : supervisoryLgd.senior
+
+  // Financial collateral reduces the exposure after haircuts (E* = max(0, E - C x (1 - H)))
+  const adjustedFinancialCollateral = collateral
+    .filter((item) => item.type === "financial")
+    .reduce((sum, item) => sum + item.value * (1 - (item.haircut ?? DEFAULT_FINANCIAL_HAIRCUT)), 0)
+  const exposureAfterFinancialCollateral = Math.max(0, ead - adjustedFinancialCollateral)
+
+  // Real estate and other physical collateral are only recognised above the C* threshold
+  const physicalCollateral = sumCollateral(collateral, "realEstate") + sumCollateral(collateral, "otherPhysical")
+  const meetsPhysicalThreshold =
+    exposureAfterFinancialCollateral > 0 &&
+    physicalCollateral / exposureAfterFinancialCollateral >= collateralRules.realEstate.minimumCoverage
+
+  // Allocate the remaining exposure to each collateral type, lowest LGD first
+  const securedPortions: SecuredPortion[] = []
+  let unsecuredExposure = exposureAfterFinancialCollateral
+
+  for (const type of ["receivables", "realEstate", "otherPhysical"] as const) {
+    const rule = collateralRules[type]
+    const collateralValue = sumCollateral(collateral, type)
+
+    if (collateralValue <= 0 || unsecuredExposure <= 0) continue
+    if (rule.minimumCoverage > 0 && !meetsPhysicalThreshold) continue
+
+    // Collateral of C** x exposure secures that exposure in full
+    const securedExposure = Math.min(unsecuredExposure, collateralValue / rule.fullCoverage)
+    securedPortions.push({ type, collateralValue, securedExposure, lgd: rule.lgd })
+    unsecuredExposure -= securedExposure
+  }
+
+  // Exposure-weighted LGD, with the part covered by financial collateral carrying no loss
+  const expectedLoss =
+    securedPortions.reduce((sum, portion) => sum + portion.securedExposure * portion.lgd, 0) +
+    unsecuredExposure * unsecuredLgd
+  const lgd = ead > 0 ? expectedLoss / ead : unsecuredLgd
+
+  return {
+    seniority,
+    unsecuredLgd,
+    ead,
+    adjustedFinancialCollateral,
+    exposureAfterFinancialCollateral,
+    meetsPhysicalThreshold,
+    securedPortions,
+    unsecuredExposure,
+    lgd,
+  }
+}
+
+// Calculate the A-IRB LGD floor for a counterparty
+// Corporate exposures blend the collateral floors over the secured portions recognised for F-IRB under Basel III,
+// the only profiles with LGD floors
+export function calculateLgdFloor(
+  counterparty: Counterparty,
+  ead: number,
+  floors: LgdFloors,
+  assetClass: AssetClass = "corporate",
+): number {
+  if (assetClass !== "corporate") {
+    return floors[assetClass]
+  }
+  if (ead <= 0) {
+    return floors.unsecured
+  }
+
+  const { exposureAfterFinancialCollateral, securedPortions, unsecuredExposure } = calculateFirbLgd(counterparty, ead)
+  const flooredLoss =
+    (ead - exposureAfterFinancialCollateral) * floors.financial +
+    securedPortions.reduce((sum, portion) => sum + portion.securedExposure * floors[portion.type], 0) +
+    unsecuredExposure * floors.unsecured
+
+  return flooredLoss / ead
+}
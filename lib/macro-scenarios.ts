@@ -0,0 +1,138 @@
+// Macroeconomic Scenarios
+// Named scenarios with GDP, unemployment and interest rate paths per region, mapped to the macroeconomic index
+// that drives the PIT-to-TTC PD conversion for each region and industry
+
+import type { MacroConditions, MacroScenario, MacroScenarioId, MacroVariable } from "@/lib/types"
+
+export const DEFAULT_MACRO_SCENARIO: MacroScenarioId = "baseline"
+
+// Regions without their own path follow the global one
+export const GLOBAL_REGION = "Global"
+
+// Display names for macroeconomic variables
+export const MACRO_VARIABLE_LABELS: Record<MacroVariable, string> = {
+  gdpGrowth: "GDP growth",
+  unemployment: "Unemployment",
+  interestRate: "Interest rate",
+}
+
+// Long-run conditions of each region, where the macroeconomic index is neutral (0.5)
+const NEUTRAL_CONDITIONS: Record<string, MacroConditions> = {
+  "North America": { gdpGrowth: 2.0, unemployment: 4.5, interestRate: 3.5 },
+  Europe: { gdpGrowth: 1.3, unemployment: 6.5, interestRate: 2.5 },
+  "Asia Pacific": { gdpGrowth: 3.8, unemployment: 4.0, interestRate: 3.0 },
+  "Latin America": { gdpGrowth: 2.3, unemployment: 7.0, interestRate: 8.0 },
+  "Middle East": { gdpGrowth: 3.2, unemployment: 6.5, interestRate: 4.5 },
+  [GLOBAL_REGION]: { gdpGrowth: 2.7, unemployment: 5.5, interestRate: 4.0 },
+}
+
+// Percentage point deviation from neutral that moves the index by 0.5, with the sign of its effect on credit
+const VARIABLE_SCALES: Record<MacroVariable, number> = {
+  gdpGrowth: 5,
+  unemployment: -5,
+  interestRate: -5,
+}
+
+// How much each variable drives defaults in an industry; the weights of each industry sum to 1
+const DEFAULT_INDUSTRY_WEIGHTS: Record<MacroVariable, number> = { gdpGrowth: 0.4, unemployment: 0.3, interestRate: 0.3 }
+const FINANCIAL_WEIGHTS: Record<MacroVariable, number> = { gdpGrowth: 0.4, unemployment: 0.2, interestRate: 0.4 }
+const CONSUMER_WEIGHTS: Record<MacroVariable, number> = { gdpGrowth: 0.3, unemployment: 0.5, interestRate: 0.2 }
+const INDUSTRIAL_WEIGHTS: Record<MacroVariable, number> = { gdpGrowth: 0.6, unemployment: 0.2, interestRate: 0.2 }
+
+export const INDUSTRY_MACRO_WEIGHTS: Record<string, Record<MacroVariable, number>> = {
+  Banking: FINANCIAL_WEIGHTS,
+  "Financial Services": FINANCIAL_WEIGHTS,
+  "Investment Banking": FINANCIAL_WEIGHTS,
+  "Asset Management": FINANCIAL_WEIGHTS,
+  Insurance: FINANCIAL_WEIGHTS,
+  "Real Estate": { gdpGrowth: 0.3, unemployment: 0.2, interestRate: 0.5 },
+  Construction: { gdpGrowth: 0.3, unemployment: 0.2, interestRate: 0.5 },
+  Retail: CONSUMER_WEIGHTS,
+  "Consumer Goods": CONSUMER_WEIGHTS,
+  Energy: INDUSTRIAL_WEIGHTS,
+  Manufacturing: INDUSTRIAL_WEIGHTS,
+  Automotive: INDUSTRIAL_WEIGHTS,
+  Transportation: INDUSTRIAL_WEIGHTS,
+}
+
+// Yearly conditions from one series per variable
+function path(gdpGrowth: number[], unemployment: number[], interestRate: number[]): MacroConditions[] {
+  return gdpGrowth.map((growth, year) => ({
+    gdpGrowth: growth,
+    unemployment: unemployment[year],
+    interestRate: interestRate[year],
+  }))
+}
+
+// Illustrative three-year scenarios in the style of supervisory stress tests
+export const MACRO_SCENARIOS: Record<MacroScenarioId, MacroScenario> = {
+  baseline: {
+    id: "baseline",
+    name: "Baseline",
+    description: "Consensus outlook: growth close to trend and policy rates easing gradually",
+    paths: {
+      "North America": path([2.1, 1.9, 2.0], [4.3, 4.4, 4.4], [4.0, 3.5, 3.3]),
+      Europe: path([1.2, 1.4, 1.5], [6.4, 6.3, 6.2], [2.3, 2.0, 2.0]),
+      "Asia Pacific": path([4.0, 3.9, 3.8], [3.8, 3.8, 3.9], [3.0, 2.8, 2.8]),
+      "Latin America": path([2.2, 2.4, 2.5], [7.0, 6.8, 6.7], [9.5, 8.5, 7.8]),
+      "Middle East": path([3.5, 3.6, 3.5], [6.5, 6.4, 6.3], [5.0, 4.5, 4.3]),
+      [GLOBAL_REGION]: path([2.8, 2.8, 2.9], [5.4, 5.3, 5.3], [4.3, 3.9, 3.7]),
+    },
+  },
+  adverse: {
+    id: "adverse",
+    name: "Adverse",
+    description: "Moderate recession with rising unemployment and rates held high by persistent inflation",
+    paths: {
+      "North America": path([-0.8, 0.6, 1.6], [6.0, 6.6, 6.0], [5.0, 4.5, 4.0]),
+      Europe: path([-1.2, 0.2, 1.0], [8.2, 8.8, 8.3], [3.5, 3.0, 2.5]),
+      "Asia Pacific": path([1.5, 2.5, 3.2], [4.8, 5.2, 4.9], [4.0, 3.5, 3.3]),
+      "Latin America": path([-1.0, 0.8, 1.8], [9.0, 9.8, 9.2], [11.5, 10.5, 9.5]),
+      "Middle East": path([0.5, 1.8, 2.8], [8.0, 8.5, 8.0], [6.0, 5.5, 5.0]),
+      [GLOBAL_REGION]: path([0.2, 1.4, 2.3], [7.0, 7.5, 7.0], [5.5, 5.0, 4.5]),
+    },
+  },
+  severelyAdverse: {
+    id: "severelyAdverse",
+    name: "Severely Adverse",
+    description: "Deep global recession with a sharp rise in unemployment and a spike in funding rates",
+    paths: {
+      "North America": path([-4.0, -1.0, 1.2], [8.5, 10.0, 9.0], [6.0, 5.0, 4.0]),
+      Europe: path([-4.5, -1.5, 0.6], [10.5, 11.5, 10.8], [4.5, 3.8, 3.0]),
+      "Asia Pacific": path([-1.5, 1.0, 2.8], [6.0, 6.8, 6.2], [5.0, 4.3, 3.5]),
+      "Latin America": path([-5.0, -1.5, 1.0], [11.5, 12.8, 12.0], [14.0, 12.5, 10.5]),
+      "Middle East": path([-3.0, 0.0, 2.0], [10.0, 11.0, 10.2], [7.5, 6.5, 5.5]),
+      [GLOBAL_REGION]: path([-3.2, -0.6, 1.6], [9.0, 10.0, 9.3], [7.0, 6.0, 5.0]),
+    },
+  },
+}
+
+// Look up a scenario, falling back to the baseline for a missing id
+export function getMacroScenario(id: MacroScenarioId = DEFAULT_MACRO_SCENARIO): MacroScenario {
+  return MACRO_SCENARIOS[id]
+}
+
+// Conditions of a region in a year of the scenario; years past the end of the path keep its last year
+export function getMacroConditions(scenarioId: MacroScenarioId, region: string, year = 0): MacroConditions {
+  const { paths } = getMacroScenario(scenarioId)
+  const regionPath = paths[region] ?? paths[GLOBAL_REGION]
+  return regionPath[Math.min(Math.max(0, year), regionPath.length - 1)]
+}
+
+// Map conditions to a macroeconomic index between 0 (severe downturn) and 1 (strong economy)
+// Each variable's deviation from the region's neutral level is weighted by the industry's sensitivity to it
+export function calculateMacroeconomicIndex(conditions: MacroConditions, region: string, industry: string): number {
+  const neutral = NEUTRAL_CONDITIONS[region] ?? NEUTRAL_CONDITIONS[GLOBAL_REGION]
+  const weights = INDUSTRY_MACRO_WEIGHTS[industry] ?? DEFAULT_INDUSTRY_WEIGHTS
+  const score = (Object.keys(VARIABLE_SCALES) as MacroVariable[]).reduce(
+    (sum, variable) =>
+      sum + (weights[variable] * (conditions[variable] - neutral[variable])) / VARIABLE_SCALES[variable],
+    0,
+  )
+  return Math.max(0, Math.min(1, 0.5 + score * 0.5))
+}
+
+// Macroeconomic index of a region and industry in a year of the scenario
+export function getMacroeconomicIndex(scenarioId: MacroScenarioId, region: string, industry: string, year = 0): number {
+  return calculateMacroeconomicIndex(getMacroConditions(scenarioId, region, year), region, industry)
+}
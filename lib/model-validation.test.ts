@@ -0,0 +1,313 @@
+// Model Validation
+// Golden-value checks that reconcile the statistics functions and the IRB formula to published reference values,
+// regression checks against recorded engine outputs and property checks over a grid of inputs
+
+import { describe, expect, it } from "vitest"
+import { calculateBaseCorrelation } from "@/lib/correlation-calculator"
+import { getRatingFromPd } from "@/lib/credit-ratings"
+import {
+  calculateRegressionValues,
+  getRegressionCounterparty,
+  RATING_CASES,
+  REFERENCE_COUNTERPARTY,
+  REGRESSION_CASES,
+  REGRESSION_OPTIONS,
+  TTC_PD_CASES,
+} from "@/lib/regression-cases"
+import { getRegulatoryProfile } from "@/lib/regulatory-profiles"
+import { calculateCapitalRequirement, calculateMaturityAdjustment, calculateRWA } from "@/lib/rwa-calculator"
+import { normalCdf, normalInv } from "@/lib/statistics"
+import { calculateTtcPd } from "@/lib/ttc-pd-calculator"
+import type { CalculationOptions, Counterparty, RegressionValues } from "@/lib/types"
+
+// Groups of checks run by the model validation suite
+type ValidationCategory = "normalCdf" | "normalInv" | "baselRiskWeight" | "regression" | "ttcPd" | "rating" | "property"
+
+// One computed value checked against a reference or baseline value
+// Property checks compare a count of violations with an expected zero
+interface ValidationCheck {
+  category: ValidationCategory
+  name: string
+  expected: number | string
+  actual: number | string
+  tolerance: number
+  // Absolute or relative difference, Infinity when the value is not a number or a string does not match
+  error: number
+  passed: boolean
+}
+
+// Display names for validation categories
+const VALIDATION_CATEGORY_LABELS: Record<ValidationCategory, string> = {
+  normalCdf: "Normal CDF",
+  normalInv: "Inverse normal CDF",
+  baselRiskWeight: "Basel corporate risk weights",
+  regression: "Regression baselines",
+  ttcPd: "TTC PD baselines",
+  rating: "Rating mapping",
+  property: "Properties",
+}
+
+const DISTRIBUTION_TOLERANCE = 1e-14
+// Far-tail values are far below the absolute tolerance, so they are checked relative to the reference instead
+const DISTRIBUTION_TAIL_TOLERANCE = 1e-8
+const INVERSE_TOLERANCE = 1e-12
+// Published risk weights are rounded to two decimals of a percent
+const RISK_WEIGHT_TOLERANCE = 0.0001
+// Baselines are recorded at full precision, so only floating point noise is tolerated
+const REGRESSION_TOLERANCES: RegressionValues = { correlation: 1e-12, maturityAdjustment: 1e-12, k: 1e-12, rwa: 1e-6 }
+
+// Reference values of the standard normal CDF, including the edge cases
+const NORMAL_CDF_REFERENCE: { x: number; expected: number; tail?: boolean }[] = [
+  { x: 0, expected: 0.5 },
+  { x: 1, expected: 0.8413447460685429 },
+  { x: -1.96, expected: 0.024997895148220435 },
+  { x: -3, expected: 0.0013498980316300946 },
+  { x: -5, expected: 2.866515718791939e-7, tail: true },
+  { x: -10, expected: 7.61985302416047e-24, tail: true },
+  { x: Infinity, expected: 1 },
+  { x: -Infinity, expected: 0 },
+  { x: NaN, expected: NaN },
+]
+
+// Reference quantiles of the standard normal distribution, including the edge cases
+const NORMAL_INV_REFERENCE: { p: number; expected: number }[] = [
+  { p: 0.5, expected: 0 },
+  { p: 0.975, expected: 1.959963984540054 },
+  { p: 0.999, expected: 3.090232306167813 },
+  { p: 0.001, expected: -3.090232306167813 },
+  { p: 1e-10, expected: -6.361340902404056 },
+  { p: 0, expected: -Infinity },
+  { p: 1, expected: Infinity },
+  { p: NaN, expected: NaN },
+  { p: 1.5, expected: NaN },
+]
+
+// Illustrative IRB risk weights for corporate exposures with LGD 45% and M 2.5 years, before any scaling factor
+// Basel II framework (June 2006), Annex 5
+const BASEL_CORPORATE_RISK_WEIGHTS: { pd: number; riskWeight: number }[] = [
+  { pd: 0.0003, riskWeight: 0.1444 },
+  { pd: 0.0005, riskWeight: 0.1965 },
+  { pd: 0.001, riskWeight: 0.2965 },
+  { pd: 0.0025, riskWeight: 0.4947 },
+  { pd: 0.004, riskWeight: 0.6272 },
+  { pd: 0.005, riskWeight: 0.6961 },
+  { pd: 0.0075, riskWeight: 0.8278 },
+  { pd: 0.01, riskWeight: 0.9232 },
+  { pd: 0.013, riskWeight: 1.0095 },
+  { pd: 0.015, riskWeight: 1.0559 },
+  { pd: 0.02, riskWeight: 1.1486 },
+  { pd: 0.025, riskWeight: 1.2216 },
+  { pd: 0.03, riskWeight: 1.2844 },
+  { pd: 0.04, riskWeight: 1.3958 },
+  { pd: 0.05, riskWeight: 1.4986 },
+  { pd: 0.06, riskWeight: 1.5961 },
+  { pd: 0.1, riskWeight: 1.9309 },
+  { pd: 0.15, riskWeight: 2.2154 },
+  { pd: 0.2, riskWeight: 2.3823 },
+]
+
+const REFERENCE_LGD = 0.45
+const REFERENCE_MATURITY = 2.5
+
+// Grids the property checks run over
+const PROPERTY_PDS = [0.0005, 0.001, 0.005, 0.01, 0.03, 0.05, 0.1, 0.2]
+const PROPERTY_LGDS = [0.05, 0.15, 0.25, 0.35, 0.45, 0.55, 0.65, 0.75, 0.85, 0.95]
+const PROPERTY_EADS = [0, 1000, 100000, 1000000, 50000000]
+const PROPERTY_MATURITIES = [1, 1.5, 2.5, 3.5, 5]
+const PROPERTY_COUNTERPARTIES: Counterparty[] = [
+  REFERENCE_COUNTERPARTY,
+  getRegressionCounterparty({ counterparty: { revenue: 20000000 } }),
+  getRegressionCounterparty({ counterparty: { isFinancial: true, isLargeFinancial: true, isRegulated: true } }),
+  getRegressionCounterparty({ counterparty: { assetClass: "otherRetail" } }),
+]
+
+// Compare a value with its reference, treating matching infinities, NaNs and strings as exact
+// A relative check scales the difference by the reference value
+function check(
+  category: ValidationCategory,
+  name: string,
+  expected: number | string,
+  actual: number | string,
+  tolerance: number,
+  relative = false,
+): ValidationCheck {
+  const difference =
+    typeof expected === "number" && typeof actual === "number"
+      ? Math.abs(actual - expected) / (relative ? Math.abs(expected) : 1)
+      : NaN
+  const error = Object.is(actual, expected) ? 0 : Number.isNaN(difference) ? Infinity : difference
+
+  return { category, name, expected, actual, tolerance, error, passed: error <= tolerance }
+}
+
+// Corporate risk weight (K x 12.5) from the IRB formula with the Basel III profile's formula constants
+function calculateReferenceRiskWeight(pd: number): number {
+  const profile = getRegulatoryProfile("baselIII")
+  const correlation = calculateBaseCorrelation(pd, "corporate", profile.corporateCorrelation)
+  const maturityAdjustment = calculateMaturityAdjustment(pd, REFERENCE_MATURITY, profile)
+  const k = calculateCapitalRequirement(pd, REFERENCE_LGD, correlation, maturityAdjustment, profile.confidenceLevel)
+
+  return k * profile.rwaMultiplier
+}
+
+// RWA of a property counterparty under the regression profile
+function calculatePropertyRwa(counterparty: Counterparty, options: CalculationOptions): number {
+  return calculateRWA(counterparty, { ...REGRESSION_OPTIONS, ...options }).rwa
+}
+
+// Number of steps where a sequence decreases by more than rounding noise
+function countDecreases(values: number[]): number {
+  return values.slice(1).filter((value, index) => value < values[index] - 1e-6).length
+}
+
+// A property holds when it has no violations over the grid
+function propertyCheck(name: string, violations: number): ValidationCheck {
+  return check("property", name, 0, violations, 0)
+}
+
+// Properties of the engine that must hold for every counterparty type and grid point
+function runPropertyChecks(): ValidationCheck[] {
+  const sumOverGrid = (countViolations: (counterparty: Counterparty, pd: number) => number) =>
+    PROPERTY_COUNTERPARTIES.reduce(
+      (total, counterparty) => total + PROPERTY_PDS.reduce((sum, pd) => sum + countViolations(counterparty, pd), 0),
+      0,
+    )
+
+  return [
+    propertyCheck(
+      "RWA is monotonic in LGD",
+      sumOverGrid((counterparty, pd) =>
+        countDecreases(
+          PROPERTY_LGDS.map((lgd) => calculatePropertyRwa(counterparty, { ttcPdOverride: pd, lgdOverride: lgd })),
+        ),
+      ),
+    ),
+    propertyCheck(
+      "RWA is monotonic in EAD",
+      sumOverGrid((counterparty, pd) =>
+        countDecreases(
+          PROPERTY_EADS.map((ead) => calculatePropertyRwa(counterparty, { ttcPdOverride: pd, eadOverride: ead })),
+        ),
+      ),
+    ),
+    propertyCheck(
+      "RWA is proportional to EAD",
+      sumOverGrid((counterparty, pd) => {
+        const rwa = calculatePropertyRwa(counterparty, { ttcPdOverride: pd, eadOverride: 1000000 })
+        const doubledRwa = calculatePropertyRwa(counterparty, { ttcPdOverride: pd, eadOverride: 2000000 })
+        return Math.abs(doubledRwa - 2 * rwa) > 1e-6 ? 1 : 0
+      }),
+    ),
+    propertyCheck(
+      "RWA is monotonic in PD up to 20%",
+      PROPERTY_COUNTERPARTIES.reduce(
+        (sum, counterparty) =>
+          sum + countDecreases(PROPERTY_PDS.map((pd) => calculatePropertyRwa(counterparty, { ttcPdOverride: pd }))),
+        0,
+      ),
+    ),
+    propertyCheck(
+      "RWA is monotonic in maturity",
+      sumOverGrid((counterparty, pd) =>
+        countDecreases(
+          PROPERTY_MATURITIES.map((maturity) =>
+            calculatePropertyRwa(counterparty, { ttcPdOverride: pd, maturityOverride: maturity }),
+          ),
+        ),
+      ),
+    ),
+    propertyCheck(
+      "K is non-negative",
+      sumOverGrid(
+        (counterparty, pd) =>
+          PROPERTY_LGDS.filter(
+            (lgd) => calculateRWA(counterparty, { ...REGRESSION_OPTIONS, ttcPdOverride: pd, lgdOverride: lgd }).k < 0,
+          ).length,
+      ),
+    ),
+    propertyCheck(
+      "Neutral adjustments leave RWA unchanged",
+      sumOverGrid((counterparty, pd) => {
+        const rwa = calculatePropertyRwa(counterparty, { ttcPdOverride: pd })
+        const neutralCounterparties: Counterparty[] = [
+          { ...counterparty, rwaAdjustment: { type: "additive", adjustment: 0 } },
+          { ...counterparty, rwaAdjustment: { type: "multiplicative", multiplier: 1 } },
+          { ...counterparty, rwaAdjustment: { type: "percentage", value: 0 } },
+          { ...counterparty, portfolioRwaAdjustment: { type: "multiplicative", multiplier: 1 } },
+        ]
+        return neutralCounterparties.filter(
+          (neutral) => Math.abs(calculatePropertyRwa(neutral, { ttcPdOverride: pd }) - rwa) > 1e-6,
+        ).length
+      }),
+    ),
+  ]
+}
+
+// Statistics functions and IRB risk weights against published reference values
+function runGoldenValueChecks(): ValidationCheck[] {
+  return [
+    ...NORMAL_CDF_REFERENCE.map(({ x, expected, tail = false }) =>
+      check(
+        "normalCdf",
+        `N(${x})`,
+        expected,
+        normalCdf(x),
+        tail ? DISTRIBUTION_TAIL_TOLERANCE : DISTRIBUTION_TOLERANCE,
+        tail,
+      ),
+    ),
+    ...NORMAL_INV_REFERENCE.map(({ p, expected }) =>
+      check("normalInv", `G(${p})`, expected, normalInv(p), INVERSE_TOLERANCE),
+    ),
+    ...BASEL_CORPORATE_RISK_WEIGHTS.map(({ pd, riskWeight }) =>
+      check(
+        "baselRiskWeight",
+        `PD ${(pd * 100).toFixed(2)}%`,
+        riskWeight,
+        calculateReferenceRiskWeight(pd),
+        RISK_WEIGHT_TOLERANCE,
+      ),
+    ),
+  ]
+}
+
+// Reference counterparties, TTC PDs and rating mappings against their recorded baselines
+function runRegressionChecks(): ValidationCheck[] {
+  return [
+    ...REGRESSION_CASES.flatMap((testCase) => {
+      const actual = calculateRegressionValues(testCase)
+      return (Object.keys(testCase.expected) as (keyof RegressionValues)[]).map((field) =>
+        check(
+          "regression",
+          `${testCase.name}: ${field}`,
+          testCase.expected[field],
+          actual[field],
+          REGRESSION_TOLERANCES[field],
+        ),
+      )
+    }),
+    ...TTC_PD_CASES.map(({ name, inputs, expected }) =>
+      check("ttcPd", name, expected, calculateTtcPd(inputs), REGRESSION_TOLERANCES.correlation),
+    ),
+    ...RATING_CASES.map(({ pd, expected }) =>
+      check("rating", `PD ${(pd * 100).toFixed(2)}%`, expected, getRatingFromPd(pd), 0),
+    ),
+  ]
+}
+
+// One test per check, grouped by category
+function describeChecks(checks: ValidationCheck[]) {
+  const categories = [...new Set(checks.map((check) => check.category))] as ValidationCategory[]
+
+  categories.forEach((category) => {
+    describe(VALIDATION_CATEGORY_LABELS[category], () => {
+      it.each(checks.filter((check) => check.category === category))("$name", (check) => {
+        expect(check.error, `expected ${check.expected}, got ${check.actual}`).toBeLessThanOrEqual(check.tolerance)
+      })
+    })
+  })
+}
+
+describeChecks(runGoldenValueChecks())
+describeChecks(runRegressionChecks())
+describeChecks(runPropertyChecks())
@@ -1,4 +1,5 @@
-// This file provides the source code for each module in the RWA model
+// This file is generated by scripts/generate-module-code.mjs from the engine source, do not edit it by hand
+// Run npm run generate:module-code after changing a calculator
 
 export function getModuleCode(moduleId: string): string {
   const moduleCode = moduleCodeMap[moduleId.toLowerCase()]
@@ -6,276 +7,1096 @@ export function getModuleCode(moduleId: string): string {
 }
 
 const moduleCodeMap: Record<string, string> = {
-  pd: `/**
- * PD (Probability of Default) Calculator Module
- * 
- * This module calculates the probability of default based on
- * counterparty financial data and market conditions.
- */
-export function calculatePD(
-  financialRatio: number,
-  marketCondition: number,
-  industryFactor: number
-): number {
-  // Base PD calculation using logistic function
-  const basePD = 1 / (1 + Math.exp(-1 * (financialRatio * 2.5 - 1.2)))
-  
-  // Apply market condition adjustment
-  const marketAdjustedPD = basePD * (1 + (marketCondition - 0.5) * 0.4)
-  
-  // Apply industry factor
-  const finalPD = marketAdjustedPD * industryFactor
-  
-  // Ensure PD is between 0 and 1
-  return Math.max(0, Math.min(1, finalPD))
+  exposure: `// lib/ead-calculator.ts
+
+// Calculate the EAD of a single facility
+// undrawnUtilisation replaces the CCF, e.g. to stress drawdowns ahead of default
+export function calculateFacilityExposure(facility: Facility, undrawnUtilisation: number | null = null): FacilityExposure {
+  const ccf = undrawnUtilisation ?? facility.ccfOverride ?? REGULATORY_CCF[facility.facilityType]
+
+  return {
+    id: facility.id,
+    name: facility.name ?? FACILITY_TYPE_LABELS[facility.facilityType],
+    facilityType: facility.facilityType,
+    drawn: facility.drawn,
+    undrawn: facility.undrawn,
+    ccf,
+    isCcfOverridden: undrawnUtilisation === null && facility.ccfOverride !== undefined,
+    ead: facility.drawn + facility.undrawn * ccf,
+  }
+}
+
+// Calculate counterparty EAD from its facilities, falling back to the flat EAD when it has none
+export function calculateExposure(counterparty: Counterparty, undrawnUtilisation: number | null = null): ExposureResult {
+  const facilities = counterparty.facilities ?? []
+
+  if (facilities.length === 0) {
+    return { drawn: counterparty.ead, undrawn: 0, ead: counterparty.ead, facilities: [] }
+  }
+
+  const facilityExposures = facilities.map((facility) => calculateFacilityExposure(facility, undrawnUtilisation))
+
+  return {
+    drawn: facilityExposures.reduce((sum, facility) => sum + facility.drawn, 0),
+    undrawn: facilityExposures.reduce((sum, facility) => sum + facility.undrawn, 0),
+    ead: facilityExposures.reduce((sum, facility) => sum + facility.ead, 0),
+    facilities: facilityExposures,
+  }
 }`,
+  facilities: `// lib/ead-calculator.ts
 
-  ttcpd: `/**
- * TTC PD (Through-The-Cycle Probability of Default) Calculator
- * 
- * Converts point-in-time PD to through-the-cycle PD by
- * applying cyclical adjustments based on economic data.
- */
-export function calculateTTCPD(
-  pointInTimePD: number,
-  economicCycle: number,
-  longTermAverage: number
-): number {
-  // Calculate the cyclical adjustment factor
-  const cyclicalFactor = (economicCycle > 0.5) 
-    ? Math.pow(economicCycle, -0.5) 
-    : Math.pow(1 - economicCycle, -0.5)
-  
-  // Apply the cyclical adjustment to move towards long-term average
-  const ttcPD = pointInTimePD * (1 - 0.4) + longTermAverage * 0.4
-  
-  // Apply the cyclical factor
-  const adjustedPD = ttcPD * cyclicalFactor
-  
-  // Ensure PD is between 0 and 1
-  return Math.max(0, Math.min(1, adjustedPD))
+// Calculate counterparty EAD from its facilities, falling back to the flat EAD when it has none
+export function calculateExposure(counterparty: Counterparty, undrawnUtilisation: number | null = null): ExposureResult {
+  const facilities = counterparty.facilities ?? []
+
+  if (facilities.length === 0) {
+    return { drawn: counterparty.ead, undrawn: 0, ead: counterparty.ead, facilities: [] }
+  }
+
+  const facilityExposures = facilities.map((facility) => calculateFacilityExposure(facility, undrawnUtilisation))
+
+  return {
+    drawn: facilityExposures.reduce((sum, facility) => sum + facility.drawn, 0),
+    undrawn: facilityExposures.reduce((sum, facility) => sum + facility.undrawn, 0),
+    ead: facilityExposures.reduce((sum, facility) => sum + facility.ead, 0),
+    facilities: facilityExposures,
+  }
+}
+
+// lib/rwa-calculator.ts
+
+// Apply a counterparty or facility RWA adjustment to a model RWA
+function applyRwaAdjustment(rwa: number, adjustment: RwaAdjustment): number {
+  if (adjustment.type === "absolute") {
+    // For absolute adjustments, use the provided adjustedRWA directly
+    return adjustment.adjustedRWA ?? rwa
+  } else if (adjustment.type === "additive") {
+    // For additive adjustments, add the adjustment to the base RWA
+    return rwa + (adjustment.adjustment ?? 0)
+  } else if (adjustment.type === "multiplicative") {
+    // For multiplicative adjustments, multiply the base RWA by the multiplier
+    return rwa * (adjustment.multiplier ?? 1)
+  } else if (adjustment.type === "percentage") {
+    // For percentage adjustments, calculate based on percentage value
+    return rwa * (1 + (adjustment.value ?? 0) / 100)
+  }
+  return rwa
 }`,
+  pd: `// lib/ttc-pd-calculator.ts
 
-  creditreview: `/**
- * Credit Review Module
- * 
- * Converts external credit ratings to internal PD values
- * and allows for expert judgment overrides.
- */
-export function creditRatingToPD(
-  rating: string,
-  ratingAgency: string = "S&P"
-): number {
-  // S&P rating to PD mapping (simplified)
-  const ratingToPD: Record<string, number> = {
-    "AAA": 0.0001,
-    "AA+": 0.0002,
-    "AA": 0.0003,
-    "AA-": 0.0004,
-    "A+": 0.0005,
-    "A": 0.0007,
-    "A-": 0.0009,
-    "BBB+": 0.0011,
-    "BBB": 0.0015,
-    "BBB-": 0.0030,
-    "BB+": 0.0050,
-    "BB": 0.0070,
-    "BB-": 0.0100,
-    "B+": 0.0150,
-    "B": 0.0200,
-    "B-": 0.0400,
-    "CCC+": 0.0600,
-    "CCC": 0.0900,
-    "CCC-": 0.1300,
-    "CC": 0.2000,
-    "C": 0.3500,
-    "D": 1.0000
-  }
-  
-  // Return the mapped PD or a default value
-  return ratingToPD[rating] || 0.05
+// TTC PD with the inputs after defaults and the cycle adjustment, used to explain the calculation
+export function calculateTtcPdComponents(inputs: TtcPdInputs) {
+  const { pointInTimePd, macroeconomicIndex, longTermAverage, cyclicality } = inputs
+
+  // Check for invalid inputs and provide defaults
+  const safePd = isNaN(pointInTimePd) ? 0.01 : pointInTimePd
+  const safeIndex = macroeconomicIndex === undefined || isNaN(macroeconomicIndex) ? 0.5 : macroeconomicIndex
+  const safeAverage = longTermAverage === undefined || isNaN(longTermAverage) ? 0.02 : longTermAverage
+  const safeCyclicality = cyclicality === undefined || isNaN(cyclicality) ? 0.5 : cyclicality
+
+  // Calculate economic adjustment factor
+  // When economy is strong (index close to 1), PIT PD is lower than TTC PD
+  // When economy is weak (index close to 0), PIT PD is higher than TTC PD
+  const economicDeviation = 0.5 - safeIndex // Deviation from neutral economy
+
+  // Calculate adjustment based on cyclicality and economic conditions
+  const adjustment = 1 + economicDeviation * safeCyclicality * 2
+
+  // Calculate TTC PD by adjusting PIT PD with the economic cycle
+  let ttcPd = safePd * adjustment
+
+  // Blend with long-term average to ensure stability
+  ttcPd = ttcPd * 0.7 + safeAverage * 0.3
+
+  return {
+    pointInTimePd: safePd,
+    macroeconomicIndex: safeIndex,
+    longTermAverage: safeAverage,
+    cyclicality: safeCyclicality,
+    cycleAdjustment: adjustment,
+    // Ensure PD is within reasonable bounds
+    ttcPd: Math.max(0.0001, Math.min(1, ttcPd)),
+  }
 }`,
+  lgd: `// lib/lgd-calculator.ts
+
+// Calculate the F-IRB LGD for a counterparty, with the supervisory LGD and collateral rules of the regulatory profile
+export function calculateFirbLgd(
+  counterparty: Counterparty,
+  ead = counterparty.ead,
+  supervisoryLgd: SupervisoryLgd = BASEL_III_SUPERVISORY_LGD,
+  collateralRules: CollateralRules = BASEL_III_COLLATERAL_RULES,
+): FirbLgdResult {
+  const seniority = counterparty.seniority ?? "senior"
+  const collateral = counterparty.collateral ?? []
+  const unsecuredLgd =
+    seniority === "subordinated"
+      ? supervisoryLgd.subordinated
+      : counterparty.isFinancial
+        ? supervisoryLgd.seniorFinancial
+        : supervisoryLgd.senior
+
+  // Financial collateral reduces the exposure after haircuts (E* = max(0, E - C x (1 - H)))
+  const adjustedFinancialCollateral = collateral
+    .filter((item) => item.type === "financial")
+    .reduce((sum, item) => sum + item.value * (1 - (item.haircut ?? DEFAULT_FINANCIAL_HAIRCUT)), 0)
+  const exposureAfterFinancialCollateral = Math.max(0, ead - adjustedFinancialCollateral)
+
+  // Real estate and other physical collateral are only recognised above the C* threshold
+  const physicalCollateral = sumCollateral(collateral, "realEstate") + sumCollateral(collateral, "otherPhysical")
+  const meetsPhysicalThreshold =
+    exposureAfterFinancialCollateral > 0 &&
+    physicalCollateral / exposureAfterFinancialCollateral >= collateralRules.realEstate.minimumCoverage
+
+  // Allocate the remaining exposure to each collateral type, lowest LGD first
+  const securedPortions: SecuredPortion[] = []
+  let unsecuredExposure = exposureAfterFinancialCollateral
+
+  for (const type of ["receivables", "realEstate", "otherPhysical"] as const) {
+    const rule = collateralRules[type]
+    const collateralValue = sumCollateral(collateral, type)
+
+    if (collateralValue <= 0 || unsecuredExposure <= 0) continue
+    if (rule.minimumCoverage > 0 && !meetsPhysicalThreshold) continue
+
+    // Collateral of C** x exposure secures that exposure in full
+    const securedExposure = Math.min(unsecuredExposure, collateralValue / rule.fullCoverage)
+    securedPortions.push({ type, collateralValue, securedExposure, lgd: rule.lgd })
+    unsecuredExposure -= securedExposure
+  }
+
+  // Exposure-weighted LGD, with the part covered by financial collateral carrying no loss
+  const expectedLoss =
+    securedPortions.reduce((sum, portion) => sum + portion.securedExposure * portion.lgd, 0) +
+    unsecuredExposure * unsecuredLgd
+  const lgd = ead > 0 ? expectedLoss / ead : unsecuredLgd
 
-  avc: `/**
- * AVC (Asset Value Correlation) Module
- * 
- * Calculates the asset value correlation multiplier
- * based on counterparty size and systemic importance.
- */
-export function calculateAVCMultiplier(
-  counterpartySize: number,
-  systemicImportance: number
+  return {
+    seniority,
+    unsecuredLgd,
+    ead,
+    adjustedFinancialCollateral,
+    exposureAfterFinancialCollateral,
+    meetsPhysicalThreshold,
+    securedPortions,
+    unsecuredExposure,
+    lgd,
+  }
+}
+
+// Calculate the A-IRB LGD floor for a counterparty
+// Corporate exposures blend the collateral floors over the secured portions recognised for F-IRB under Basel III,
+// the only profiles with LGD floors
+export function calculateLgdFloor(
+  counterparty: Counterparty,
+  ead: number,
+  floors: LgdFloors,
+  assetClass: AssetClass = "corporate",
 ): number {
-  // Base multiplier
-  let multiplier = 1.0
-  
-  // Adjust for counterparty size (larger counterparties get higher correlation)
-  if (counterpartySize > 50000000) {
-    multiplier *= 1.25
-  }
-  
-  // Adjust for systemic importance
-  multiplier *= (1 + systemicImportance * 0.5)
-  
-  // Cap the multiplier
-  return Math.min(1.5, multiplier)
+  if (assetClass !== "corporate") {
+    return floors[assetClass]
+  }
+  if (ead <= 0) {
+    return floors.unsecured
+  }
+
+  const { exposureAfterFinancialCollateral, securedPortions, unsecuredExposure } = calculateFirbLgd(counterparty, ead)
+  const flooredLoss =
+    (ead - exposureAfterFinancialCollateral) * floors.financial +
+    securedPortions.reduce((sum, portion) => sum + portion.securedExposure * floors[portion.type], 0) +
+    unsecuredExposure * floors.unsecured
+
+  return flooredLoss / ead
 }`,
+  collateral: `// lib/lgd-calculator.ts
 
-  correlation: `/**
- * Correlation Module
- * 
- * Calculates asset correlation based on PD and AVC multiplier
- * following Basel regulatory formulas.
- */
-export function calculateCorrelation(
-  ttcPD: number,
-  avcMultiplier: number
-): number {
-  // Basel formula for correlation
-  const baseCorrelation = 0.12 * (1 - Math.exp(-50 * ttcPD)) / (1 - Math.exp(-50)) +
-                          0.24 * (1 - (1 - Math.exp(-50 * ttcPD)) / (1 - Math.exp(-50)))
-  
-  // Apply AVC multiplier
-  const finalCorrelation = baseCorrelation * avcMultiplier
-  
-  // Ensure correlation is between 0 and 1
-  return Math.max(0, Math.min(1, finalCorrelation))
+// Sum the value of all collateral items of a given type
+function sumCollateral(collateral: Collateral[], type: CollateralType): number {
+  return collateral.filter((item) => item.type === type).reduce((sum, item) => sum + item.value, 0)
+}
+
+// Calculate the F-IRB LGD for a counterparty, with the supervisory LGD and collateral rules of the regulatory profile
+export function calculateFirbLgd(
+  counterparty: Counterparty,
+  ead = counterparty.ead,
+  supervisoryLgd: SupervisoryLgd = BASEL_III_SUPERVISORY_LGD,
+  collateralRules: CollateralRules = BASEL_III_COLLATERAL_RULES,
+): FirbLgdResult {
+  const seniority = counterparty.seniority ?? "senior"
+  const collateral = counterparty.collateral ?? []
+  const unsecuredLgd =
+    seniority === "subordinated"
+      ? supervisoryLgd.subordinated
+      : counterparty.isFinancial
+        ? supervisoryLgd.seniorFinancial
+        : supervisoryLgd.senior
+
+  // Financial collateral reduces the exposure after haircuts (E* = max(0, E - C x (1 - H)))
+  const adjustedFinancialCollateral = collateral
+    .filter((item) => item.type === "financial")
+    .reduce((sum, item) => sum + item.value * (1 - (item.haircut ?? DEFAULT_FINANCIAL_HAIRCUT)), 0)
+  const exposureAfterFinancialCollateral = Math.max(0, ead - adjustedFinancialCollateral)
+
+  // Real estate and other physical collateral are only recognised above the C* threshold
+  const physicalCollateral = sumCollateral(collateral, "realEstate") + sumCollateral(collateral, "otherPhysical")
+  const meetsPhysicalThreshold =
+    exposureAfterFinancialCollateral > 0 &&
+    physicalCollateral / exposureAfterFinancialCollateral >= collateralRules.realEstate.minimumCoverage
+
+  // Allocate the remaining exposure to each collateral type, lowest LGD first
+  const securedPortions: SecuredPortion[] = []
+  let unsecuredExposure = exposureAfterFinancialCollateral
+
+  for (const type of ["receivables", "realEstate", "otherPhysical"] as const) {
+    const rule = collateralRules[type]
+    const collateralValue = sumCollateral(collateral, type)
+
+    if (collateralValue <= 0 || unsecuredExposure <= 0) continue
+    if (rule.minimumCoverage > 0 && !meetsPhysicalThreshold) continue
+
+    // Collateral of C** x exposure secures that exposure in full
+    const securedExposure = Math.min(unsecuredExposure, collateralValue / rule.fullCoverage)
+    securedPortions.push({ type, collateralValue, securedExposure, lgd: rule.lgd })
+    unsecuredExposure -= securedExposure
+  }
+
+  // Exposure-weighted LGD, with the part covered by financial collateral carrying no loss
+  const expectedLoss =
+    securedPortions.reduce((sum, portion) => sum + portion.securedExposure * portion.lgd, 0) +
+    unsecuredExposure * unsecuredLgd
+  const lgd = ead > 0 ? expectedLoss / ead : unsecuredLgd
+
+  return {
+    seniority,
+    unsecuredLgd,
+    ead,
+    adjustedFinancialCollateral,
+    exposureAfterFinancialCollateral,
+    meetsPhysicalThreshold,
+    securedPortions,
+    unsecuredExposure,
+    lgd,
+  }
 }`,
+  ead: `// lib/ead-calculator.ts
+
+// Calculate the EAD of a single facility
+// undrawnUtilisation replaces the CCF, e.g. to stress drawdowns ahead of default
+export function calculateFacilityExposure(facility: Facility, undrawnUtilisation: number | null = null): FacilityExposure {
+  const ccf = undrawnUtilisation ?? facility.ccfOverride ?? REGULATORY_CCF[facility.facilityType]
+
+  return {
+    id: facility.id,
+    name: facility.name ?? FACILITY_TYPE_LABELS[facility.facilityType],
+    facilityType: facility.facilityType,
+    drawn: facility.drawn,
+    undrawn: facility.undrawn,
+    ccf,
+    isCcfOverridden: undrawnUtilisation === null && facility.ccfOverride !== undefined,
+    ead: facility.drawn + facility.undrawn * ccf,
+  }
+}
 
-  lgd: `/**
- * LGD (Loss Given Default) Calculator
- * 
- * Calculates the loss given default based on collateral,
- * seniority, and industry recovery rates.
- */
-export function calculateLGD(
-  collateralValue: number,
-  exposure: number,
-  seniority: string,
-  industryRecoveryRate: number
+// Calculate counterparty EAD from its facilities, falling back to the flat EAD when it has none
+export function calculateExposure(counterparty: Counterparty, undrawnUtilisation: number | null = null): ExposureResult {
+  const facilities = counterparty.facilities ?? []
+
+  if (facilities.length === 0) {
+    return { drawn: counterparty.ead, undrawn: 0, ead: counterparty.ead, facilities: [] }
+  }
+
+  const facilityExposures = facilities.map((facility) => calculateFacilityExposure(facility, undrawnUtilisation))
+
+  return {
+    drawn: facilityExposures.reduce((sum, facility) => sum + facility.drawn, 0),
+    undrawn: facilityExposures.reduce((sum, facility) => sum + facility.undrawn, 0),
+    ead: facilityExposures.reduce((sum, facility) => sum + facility.ead, 0),
+    facilities: facilityExposures,
+  }
+}
+
+// Effective CCF across all facilities (off-balance-sheet EAD / undrawn), used as the utilisation baseline
+export function getEffectiveCcf(exposure: ExposureResult): number {
+  return exposure.undrawn > 0 ? (exposure.ead - exposure.drawn) / exposure.undrawn : 0
+}`,
+  maturity: `// lib/rwa-calculator.ts
+
+// Calculate maturity adjustment
+export function calculateMaturityAdjustment(
+  pd: number,
+  maturity: number,
+  bounds: Pick<RegulatoryProfile, "minMaturity" | "maxMaturity">,
 ): number {
-  // Base LGD calculation
-  let baseLGD = 0.45 // Unsecured baseline
-  
-  // Adjust for collateral
-  const collateralRatio = Math.min(1, collateralValue / exposure)
-  baseLGD *= (1 - collateralRatio * 0.8) // Collateral reduces LGD
-  
-  // Adjust for seniority
-  const seniorityFactor = {
-    "senior": 0.75,
-    "subordinated": 1.2,
-    "junior": 1.5
-  }[seniority] || 1.0
-  
-  baseLGD *= seniorityFactor
-  
-  // Adjust for industry recovery rates
-  const industryAdjustedLGD = baseLGD * (1 - industryRecoveryRate * 0.5)
-  
-  // Ensure LGD is between 0 and 1
-  return Math.max(0, Math.min(1, industryAdjustedLGD))
+  const effectiveMaturity = calculateEffectiveMaturity(maturity, bounds)
+  const b = calculateMaturityParameter(pd)
+
+  // Calculate maturity adjustment
+  return (1 + (effectiveMaturity - 2.5) * b) / (1 - 1.5 * b)
+}
+
+// Ensure maturity is within the profile's bounds (1-5 years under Basel)
+function calculateEffectiveMaturity(
+  maturity: number,
+  bounds: Pick<RegulatoryProfile, "minMaturity" | "maxMaturity">,
+): number {
+  return Math.max(bounds.minMaturity, Math.min(bounds.maxMaturity, maturity))
+}
+
+// Calculate b parameter of the maturity adjustment
+function calculateMaturityParameter(pd: number): number {
+  return Math.pow(0.11852 - 0.05478 * Math.log(pd), 2)
 }`,
+  sme: `// lib/correlation-calculator.ts
+
+// Calculate the SME firm-size correlation reduction (Basel CRE31.9)
+// Sales are in EUR millions and floored at 5m, so the reduction ranges from 0.04 down to 0
+export function calculateSmeAdjustment(revenue: number | undefined): number {
+  if (revenue === undefined || revenue >= SME_SALES_THRESHOLD) {
+    return 0
+  }
+  const sales = Math.max(5, revenue / 1000000)
+  return 0.04 * (1 - (sales - 5) / 45)
+}`,
+  default: `// lib/default-calculator.ts
+
+// Capital requirement (K) for a defaulted exposure: the unexpected loss above the best-estimate expected loss
+export function calculateDefaultedCapital(lgd: number, elbe: number): number {
+  return Math.max(0, lgd - elbe)
+}`,
+  slotting: `// lib/slotting-calculator.ts
+
+// Bucket a remaining maturity in years
+export function getSlottingMaturityBucket(maturity: number): SlottingMaturityBucket {
+  return maturity < SLOTTING_SHORT_MATURITY ? "lessThan2.5Years" : "atLeast2.5Years"
+}
+
+// Supervisory risk weight for a slotting category and remaining maturity bucket
+export function getSlottingRiskWeight(category: SlottingCategory, maturityBucket: SlottingMaturityBucket): number {
+  return SLOTTING_RISK_WEIGHTS[maturityBucket][category]
+}
 
-  ead: `/**
- * EAD (Exposure at Default) Calculator
- * 
- * Calculates the exposure at default based on current exposure,
- * undrawn commitments, and credit conversion factors.
- */
-export function calculateEAD(
-  drawnAmount: number,
-  undrawnAmount: number,
-  ccf: number, // Credit Conversion Factor
-  volatilityFactor: number
+// Expected loss rate for a slotting category and remaining maturity bucket
+export function getSlottingExpectedLossRate(
+  category: SlottingCategory,
+  maturityBucket: SlottingMaturityBucket,
 ): number {
-  // Calculate EAD using drawn amount plus a portion of undrawn
-  const baseEAD = drawnAmount + undrawnAmount * ccf
-  
-  // Apply volatility factor for potential exposure increase
-  const finalEAD = baseEAD * (1 + volatilityFactor)
-  
-  return Math.max(0, finalEAD)
+  return SLOTTING_EXPECTED_LOSS_RATES[maturityBucket][category]
 }`,
+  correlation: `// lib/correlation-calculator.ts
 
-  maturity: `/**
- * Maturity Adjustment Module
- * 
- * Calculates the maturity adjustment factor based on
- * effective maturity and PD following Basel formulas.
- */
-export function calculateMaturityAdjustment(
-  effectiveMaturity: number,
-  ttcPD: number
+// Correlation interpolated between a low and high value as PD rises
+// k sets how quickly the correlation falls from high to low
+function interpolateCorrelation(pd: number, low: number, high: number, k: number): number {
+  const weight = (1 - Math.exp(-k * pd)) / (1 - Math.exp(-k))
+  return low * weight + high * (1 - weight)
+}
+
+// Calculate base correlation for an asset class using the Basel formulas
+// The corporate bounds come from the regulatory profile
+export function calculateBaseCorrelation(
+  pd: number,
+  assetClass: AssetClass = "corporate",
+  corporateBounds: CorrelationBounds = CORPORATE_CORRELATION_BOUNDS,
 ): number {
-  // Basel formula for maturity adjustment
-  const b = (0.11852 - 0.05478 * Math.log(ttcPD)) ** 2
-  
-  // Calculate maturity adjustment
-  const maturityAdjustment = (1 + (effectiveMaturity - 2.5) * b) / 
-                             (1 - 1.5 * b)
-  
-  return Math.max(1, maturityAdjustment)
+  switch (assetClass) {
+    case "residentialMortgage":
+      return RESIDENTIAL_MORTGAGE_CORRELATION
+    case "qualifyingRevolvingRetail":
+      return QRRE_CORRELATION
+    case "otherRetail":
+      return interpolateCorrelation(pd, OTHER_RETAIL_CORRELATION_BOUNDS.low, OTHER_RETAIL_CORRELATION_BOUNDS.high, 35)
+    default:
+      return interpolateCorrelation(pd, corporateBounds.low, corporateBounds.high, 50)
+  }
 }`,
+  capital: `// lib/rwa-calculator.ts
 
-  rwa: `/**
- * RWA (Risk-Weighted Assets) Calculator
- * 
- * Calculates risk-weighted assets based on PD, LGD, EAD,
- * correlation, and maturity adjustment following Basel formulas.
- */
-export function calculateRWA(
+// Calculate capital requirement (K)
+export function calculateCapitalRequirement(
   pd: number,
   lgd: number,
-  ead: number,
   correlation: number,
   maturityAdjustment: number,
-  confidenceLevel: number = 0.999 // 99.9% confidence level
+  confidenceLevel: number,
 ): number {
-  // Calculate capital requirement (K)
-  const normalDistInverse = (p: number) => {
-    // Approximation of the inverse of the normal cumulative distribution function
-    const a1 = -39.6968302866538, a2 = 220.946098424521, a3 = -275.928510446969
-    const a4 = 138.357751867269, a5 = -30.6647980661472, a6 = 2.50662827745924
-    const b1 = -54.4760987982241, b2 = 161.585836858041, b3 = -155.698979859887
-    const b4 = 66.8013118877197, b5 = -13.2806815528857
-    const c1 = -7.78489400243029E-03, c2 = -0.322396458041136, c3 = -2.40075827716184
-    const c4 = -2.54973253934373, c5 = 4.37466414146497, c6 = 2.93816398269878
-    const d1 = 7.78469570904146E-03, d2 = 0.32246712907004, d3 = 2.445134137143
-    const d4 = 3.75440866190742
-    const p_low = 0.02425, p_high = 1 - p_low
-    let q, r
-    let retVal
-    
-    if ((p < 0) || (p > 1)) {
-      return 0
-    } else if (p < p_low) {
-      q = Math.sqrt(-2 * Math.log(p))
-      retVal = (((((c1 * q + c2) * q + c3) * q + c4) * q + c5) * q + c6) / ((((d1 * q + d2) * q + d3) * q + d4) * q + 1)
-    } else if (p <= p_high) {
-      q = p - 0.5
-      r = q * q
-      retVal = (((((a1 * r + a2) * r + a3) * r + a4) * r + a5) * r + a6) * q / (((((b1 * r + b2) * r + b3) * r + b4) * r + b5) * r + 1)
-    } else {
-      q = Math.sqrt(-2 * Math.log(1 - p))
-      retVal = -(((((c1 * q + c2) * q + c3) * q + c4) * q + c5) * q + c6) / ((((d1 * q + d2) * q + d3) * q + d4) * q + 1)
-    }
-    return retVal
-  }
-  
-  // Basel formula for capital requirement
-  const k = lgd * (
-    normalDistInverse(pd * (1 + (effectiveMaturity - 2.5) * b) / (1 - 1.5 * b)) * 
-    Math.sqrt((1 - correlation) / correlation) + 
-    normalDistInverse(confidenceLevel) * Math.sqrt(correlation)
-  ) - pd * lgd
-  
+  const conditionalPD = calculateConditionalPd(pd, correlation, confidenceLevel)
+
+  // Calculate capital requirement before maturity adjustment, net of expected loss
+  let k = lgd * (conditionalPD - pd)
+
   // Apply maturity adjustment
-  const kWithMaturity = k * maturityAdjustment
-  
-  // Calculate RWA
-  const rwa = ead * kWithMaturity * 12.5
-  
-  return Math.max(0, rwa)
+  k *= maturityAdjustment
+
+  return k
+}
+
+// PD conditional on the systematic factor at the confidence level
+export function calculateConditionalPd(pd: number, correlation: number, confidenceLevel: number): number {
+  const term1 = normalInv(pd)
+  const term2 = Math.sqrt(correlation) * normalInv(confidenceLevel)
+  const term3 = Math.sqrt(1 - correlation)
+
+  return normalCdf((term1 + term2) / term3)
+}
+
+// Simplified capital requirement (expected loss only), used for comparison with the IRB formula
+function calculateSimplifiedCapitalRequirement(pd: number, lgd: number): number {
+  return lgd * pd
+}
+
+// lib/statistics.ts
+
+// Standard normal cumulative distribution function, with an absolute error of about 1e-15
+export function normalCdf(x: number): number {
+  if (Number.isNaN(x)) return NaN
+
+  const absX = Math.abs(x)
+  let tail: number
+
+  if (absX > CDF_UNDERFLOW) {
+    tail = 0
+  } else if (absX < CDF_TAIL) {
+    tail = (Math.exp(-0.5 * absX * absX) * polynomial(HART_NUMERATOR, absX)) / polynomial(HART_DENOMINATOR, absX)
+  } else {
+    // Continued fraction for the far tail
+    let fraction = absX + 0.65
+    fraction = absX + 4 / fraction
+    fraction = absX + 3 / fraction
+    fraction = absX + 2 / fraction
+    fraction = absX + 1 / fraction
+    tail = Math.exp(-0.5 * absX * absX) / fraction / SQRT_2PI
+  }
+
+  return x > 0 ? 1 - tail : tail
+}
+
+// Inverse of the standard normal CDF (AS241), accurate to about 1e-16 relative
+// Returns -Infinity at 0, Infinity at 1 and NaN outside [0, 1]
+export function normalInv(p: number): number {
+  if (Number.isNaN(p) || p < 0 || p > 1) return NaN
+  if (p === 0) return -Infinity
+  if (p === 1) return Infinity
+
+  const q = p - 0.5
+
+  if (Math.abs(q) <= 0.425) {
+    const r = 0.180625 - q * q
+    return (q * polynomial(AS241_CENTRAL_NUMERATOR, r)) / polynomial(AS241_CENTRAL_DENOMINATOR, r)
+  }
+
+  // Work with the smaller tail probability to keep precision near 1
+  let r = Math.sqrt(-Math.log(q < 0 ? p : 1 - p))
+  let value: number
+
+  if (r <= 5) {
+    r -= 1.6
+    value = polynomial(AS241_INTERMEDIATE_NUMERATOR, r) / polynomial(AS241_INTERMEDIATE_DENOMINATOR, r)
+  } else {
+    r -= 5
+    value = polynomial(AS241_TAIL_NUMERATOR, r) / polynomial(AS241_TAIL_DENOMINATOR, r)
+  }
+
+  return q < 0 ? -value : value
+}`,
+  rwa: `// lib/rwa-calculator.ts
+
+// Main RWA calculation function
+export function calculateRWA(counterparty: Counterparty, options: CalculationOptions = {}): RwaResult {
+  // Steps are only recorded when a trace is requested
+  const trace: CalculationTraceStep[] | undefined = options.trace ? [] : undefined
+  const addTraceStep = (step: CalculationTraceStep) => {
+    trace?.push(step)
+  }
+
+  // Extract parameters from counterparty
+  const {
+    isFinancial,
+    isLargeFinancial,
+    isRegulated,
+    useCredRatingPd,
+    creditRatingPd,
+    rwaAdjustment,
+    portfolioRwaAdjustment,
+    specialisedLending,
+  } = counterparty
+
+  const {
+    pdOverride = null,
+    ttcPdOverride = null,
+    lgdOverride = null,
+    eadOverride = null,
+    maturityOverride = null,
+    correlationOverride = null,
+    undrawnUtilisation = null,
+    useSmeAdjustment = true,
+    useMaturityAdjustment = true,
+    useBaselFormula = true,
+    regulatoryProfile,
+    macroScenario,
+  } = options
+
+  // Formula constants, floors and scaling come from the regulatory profile; explicit options take precedence
+  const profile = getRegulatoryProfile(regulatoryProfile)
+  const pdFloor = options.pdFloor ?? profile.pdFloor
+  const lgdFloors = options.lgdFloors !== undefined ? options.lgdFloors : profile.lgdFloors
+  const financialAvcMultiplier = options.avcMultiplier ?? profile.avcMultiplier
+  // K is converted to RWA with 12.5, times the Basel II scaling factor where it applies
+  const rwaFactor = profile.rwaMultiplier * (options.scalingFactor ?? profile.scalingFactor)
+
+  addTraceStep({
+    stage: "input",
+    label: "Counterparty inputs",
+    values: {
+      pd: counterparty.pd,
+      ttcPd: counterparty.ttcPd,
+      lgd: counterparty.lgd,
+      ead: counterparty.ead,
+      maturity: counterparty.maturity,
+      facilities: counterparty.facilities?.length ?? 0,
+      isFinancial,
+      isLargeFinancial,
+      isRegulated,
+      revenue: counterparty.revenue ?? null,
+    },
+  })
+  addTraceStep({
+    stage: "default",
+    label: "Defaults and overrides",
+    values: {
+      regulatoryProfile: profile.id,
+      macroScenario: macroScenario ?? null,
+      assetClass: counterparty.assetClass ?? "corporate (default)",
+      irbApproach: counterparty.irbApproach ?? "AIRB (default)",
+      pdFloor,
+      lgdFloors: lgdFloors ? "applied" : "off",
+      rwaFactor,
+      avcMultiplier: financialAvcMultiplier,
+      pdOverride,
+      ttcPdOverride,
+      lgdOverride,
+      eadOverride,
+      maturityOverride,
+      correlationOverride,
+      undrawnUtilisation,
+      useSmeAdjustment,
+      useMaturityAdjustment,
+      useBaselFormula,
+    },
+  })
+
+  // Use overrides if provided
+  const pitPd = pdOverride ?? counterparty.pd
+  const exposure = calculateExposure(counterparty, undrawnUtilisation)
+  const ead = eadOverride ?? exposure.ead
+
+  addTraceStep({
+    stage: "input",
+    label: "Exposure at default",
+    values: {
+      drawn: exposure.drawn,
+      undrawn: exposure.undrawn,
+      effectiveCcf: getEffectiveCcf(exposure),
+      calculatedEad: exposure.ead,
+      eadOverride,
+      ead,
+    },
+  })
+
+  // Re-derive the model TTC PD when the PIT PD is overridden or a macro scenario sets the economic conditions
+  const macroConditions = macroScenario ? getMacroConditions(macroScenario, counterparty.region) : null
+  const ttcPdComponents =
+    pdOverride === null && !macroScenario
+      ? null
+      : calculateTtcPdComponents({
+          pointInTimePd: pitPd,
+          macroeconomicIndex: macroScenario
+            ? getMacroeconomicIndex(macroScenario, counterparty.region, counterparty.industry)
+            : counterparty.macroeconomicIndex,
+          longTermAverage: counterparty.longTermAverage,
+          cyclicality: counterparty.cyclicality,
+        })
+  const modelTtcPd = ttcPdComponents?.ttcPd ?? counterparty.ttcPd
+
+  // Use the rating-based PD when the credit review selected it
+  const ratingTtcPd = useCredRatingPd && creditRatingPd !== undefined ? creditRatingPd : modelTtcPd
+  const preFloorTtcPd = ttcPdOverride ?? ratingTtcPd
+
+  // Defaulted counterparties are flagged directly or detected from a PD of 100%, e.g. a "D" rating
+  // Slotted exposures default through their own category
+  const isDefaulted =
+    counterparty.isDefaulted === true ||
+    pitPd >= DEFAULTED_PD ||
+    preFloorTtcPd >= DEFAULTED_PD ||
+    specialisedLending?.category === "default"
+
+  // Regulatory input floors do not apply to slotted or defaulted exposures
+  const appliesFloors = !specialisedLending && !isDefaulted
+  const ttcPd = appliesFloors ? Math.max(preFloorTtcPd, pdFloor) : preFloorTtcPd
+
+  addTraceStep({
+    stage: "pd",
+    label: "Probability of default",
+    values: {
+      pitPd,
+      macroScenario: macroScenario ?? null,
+      region: counterparty.region,
+      industry: counterparty.industry,
+      gdpGrowth: macroConditions?.gdpGrowth ?? null,
+      unemployment: macroConditions?.unemployment ?? null,
+      interestRate: macroConditions?.interestRate ?? null,
+      macroeconomicIndex: ttcPdComponents?.macroeconomicIndex ?? null,
+      longTermAverage: ttcPdComponents?.longTermAverage ?? null,
+      cyclicality: ttcPdComponents?.cyclicality ?? null,
+      cycleAdjustment: ttcPdComponents?.cycleAdjustment ?? null,
+      modelTtcPd,
+      ratingPd: useCredRatingPd && creditRatingPd !== undefined ? creditRatingPd : null,
+      preFloorTtcPd,
+      pdFloor: appliesFloors ? pdFloor : null,
+      ttcPd,
+      isDefaulted,
+    },
+  })
+
+  // Calculate correlation using the Basel formula for the asset class
+  // The SME adjustment and AVC multiplier only apply to corporates and are skipped when the correlation is overridden
+  const assetClass = counterparty.assetClass ?? "corporate"
+  const calculateCorrelation = (exposureClass: AssetClass, pd = ttcPd) => {
+    // Slotting risk weights are supervisory, so no correlation applies
+    if (specialisedLending) {
+      return { baseCorrelation: 0, smeAdjustment: 0, avcMultiplier: 1.0, correlation: 0 }
+    }
+    const isCorporate = !isRetailAssetClass(exposureClass)
+    const baseCorrelation =
+      correlationOverride ?? calculateBaseCorrelation(pd, exposureClass, profile.corporateCorrelation)
+    const smeAdjustment =
+      correlationOverride === null && isCorporate && useSmeAdjustment && !isFinancial
+        ? calculateSmeAdjustment(counterparty.revenue)
+        : 0
+    const avcMultiplier =
+      correlationOverride === null && isCorporate
+        ? calculateAVCMultiplier(isFinancial, isLargeFinancial, isRegulated, financialAvcMultiplier)
+        : 1.0
+    const correlation = (baseCorrelation - smeAdjustment) * avcMultiplier
+    return { baseCorrelation, smeAdjustment, avcMultiplier, correlation }
+  }
+  const counterpartyCorrelation = calculateCorrelation(assetClass)
+  const { baseCorrelation, smeAdjustment, avcMultiplier } = counterpartyCorrelation
+
+  addTraceStep({ stage: "correlation", label: "Asset correlation", values: { assetClass, ...counterpartyCorrelation } })
+
+  // F-IRB derives LGD from seniority and collateral, A-IRB uses the modelled LGD
+  // Collateral is held at counterparty level and shared across facilities in proportion to EAD
+  // Specialised lending is slotted, which uses neither PD nor LGD
+  const irbApproach: IrbApproach = specialisedLending ? "SLOTTING" : (counterparty.irbApproach ?? "AIRB")
+  const getModelLgd = (seniority: Seniority | undefined, modelledLgd: number) =>
+    irbApproach === "FIRB"
+      ? calculateFirbLgd(
+          { ...counterparty, seniority: seniority ?? counterparty.seniority },
+          ead,
+          profile.supervisoryLgd,
+          profile.collateralRules,
+        ).lgd
+      : modelledLgd
+
+  // ELBE for defaulted exposures; F-IRB sets it equal to LGD, leaving no capital above expected loss
+  const slottingCategory = specialisedLending && (isDefaulted ? "default" : specialisedLending.category)
+  const defaultedElbe = isDefaulted && irbApproach === "AIRB" ? (counterparty.elbe ?? null) : null
+
+  // Capital requirement (K) and expected loss rate (EL / EAD) for one exposure, sharing the obligor PD
+  // Retail exposures have no maturity adjustment
+  const calculateExposureCapital = (exposureClass: AssetClass, pd: number, lgd: number, maturity: number) => {
+    // Slotted K is the supervisory risk weight / 12.5 so that RWA = risk weight x EAD before scaling
+    if (slottingCategory) {
+      const maturityBucket = getSlottingMaturityBucket(maturity)
+      const riskWeight = getSlottingRiskWeight(slottingCategory, maturityBucket)
+      return {
+        correlation: 0,
+        maturityAdjustment: 1,
+        k: riskWeight / profile.rwaMultiplier,
+        expectedLossRate: getSlottingExpectedLossRate(slottingCategory, maturityBucket),
+      }
+    }
+    const { correlation } = calculateCorrelation(exposureClass, pd)
+    // Defaulted exposures skip the IRB formula, which is undefined at a PD of 100%
+    // Their expected loss is the ELBE rather than PD x LGD
+    if (isDefaulted) {
+      const elbe = defaultedElbe ?? lgd
+      return { correlation, maturityAdjustment: 1, k: calculateDefaultedCapital(lgd, elbe), expectedLossRate: elbe }
+    }
+    const maturityAdjustment =
+      useMaturityAdjustment && !isRetailAssetClass(exposureClass)
+        ? calculateMaturityAdjustment(pd, maturity, profile)
+        : 1
+    const k = useBaselFormula
+      ? calculateCapitalRequirement(pd, lgd, correlation, maturityAdjustment, profile.confidenceLevel)
+      : calculateSimplifiedCapitalRequirement(pd, lgd)
+    return { correlation, maturityAdjustment, k, expectedLossRate: pd * lgd }
+  }
+
+  // Capital after the PD and LGD floors, with the pre-floor K kept to measure the RWA the floors add
+  // LGD floors only apply to the modelled LGD under A-IRB
+  const calculateFlooredCapital = (exposureClass: AssetClass, preFloorLgd: number, maturity: number) => {
+    const lgdFloor =
+      appliesFloors && irbApproach === "AIRB" && lgdFloors
+        ? calculateLgdFloor(counterparty, ead, lgdFloors, exposureClass)
+        : 0
+    const lgd = Math.max(preFloorLgd, lgdFloor)
+    const capital = calculateExposureCapital(exposureClass, ttcPd, lgd, maturity)
+    const isFloorBinding = lgd > preFloorLgd || ttcPd > preFloorTtcPd
+    const preFloorK = isFloorBinding
+      ? calculateExposureCapital(exposureClass, preFloorTtcPd, preFloorLgd, maturity).k
+      : capital.k
+    return { ...capital, lgd, preFloorLgd, lgdFloor, preFloorK }
+  }
+
+  // Record the capital calculation of one exposure, the counterparty itself or a facility
+  const traceExposureCapital = (
+    label: string,
+    exposureClass: AssetClass,
+    maturity: number,
+    capital: ReturnType<typeof calculateFlooredCapital>,
+    exposureEad: number,
+    rwa: number,
+  ) => {
+    const hasMaturityAdjustment =
+      !slottingCategory && !isDefaulted && useMaturityAdjustment && !isRetailAssetClass(exposureClass)
+    const usesIrbFormula = !slottingCategory && !isDefaulted && useBaselFormula
+    addTraceStep({
+      stage: "capital",
+      label,
+      values: {
+        assetClass: exposureClass,
+        pd: ttcPd,
+        correlation: capital.correlation,
+        preFloorLgd: capital.preFloorLgd,
+        lgdFloor: capital.lgdFloor,
+        lgd: capital.lgd,
+        maturity,
+        effectiveMaturity: hasMaturityAdjustment ? calculateEffectiveMaturity(maturity, profile) : null,
+        b: hasMaturityAdjustment ? calculateMaturityParameter(ttcPd) : null,
+        maturityAdjustment: capital.maturityAdjustment,
+        confidenceLevel: usesIrbFormula ? profile.confidenceLevel : null,
+        conditionalPd: usesIrbFormula
+          ? calculateConditionalPd(ttcPd, capital.correlation, profile.confidenceLevel)
+          : null,
+        slottingCategory: slottingCategory || null,
+        riskWeight: slottingCategory ? capital.k * profile.rwaMultiplier : null,
+        elbe: isDefaulted && !slottingCategory ? (defaultedElbe ?? capital.lgd) : null,
+        k: capital.k,
+        rwaFactor,
+        ead: exposureEad,
+        rwa,
+        expectedLoss: capital.expectedLossRate * exposureEad,
+      },
+    })
+  }
+
+  // Calculate RWA per facility; an EAD override is spread across facilities in proportion to their EAD
+  const eadScale = exposure.ead > 0 ? ead / exposure.ead : 0
+  const facilities = exposure.facilities.map((facilityExposure, index): FacilityRwaResult => {
+    const facility = (counterparty.facilities ?? [])[index]
+    const facilityEad = facilityExposure.ead * eadScale
+    const modelLgd = lgdOverride ?? getModelLgd(facility.seniority, facility.lgd ?? counterparty.lgd)
+    const maturity = maturityOverride ?? facility.maturity ?? counterparty.maturity
+    const facilityAssetClass = facility.assetClass ?? assetClass
+    const capital = calculateFlooredCapital(facilityAssetClass, modelLgd, maturity)
+    const { correlation, preFloorLgd, lgdFloor, lgd, maturityAdjustment, k, preFloorK, expectedLossRate } = capital
+    const facilityRwa = k * rwaFactor * facilityEad
+    traceExposureCapital(
+      \`Facility \${facility.name ?? facility.id}\`,
+      facilityAssetClass,
+      maturity,
+      capital,
+      facilityEad,
+      facilityRwa,
+    )
+    const adjustedFacilityRwa = facility.rwaAdjustment
+      ? applyRwaAdjustment(facilityRwa, facility.rwaAdjustment)
+      : facilityRwa
+    if (facility.rwaAdjustment) {
+      addTraceStep({
+        stage: "adjustment",
+        label: \`Facility \${facility.name ?? facility.id} adjustment\`,
+        values: { ...facility.rwaAdjustment },
+        before: facilityRwa,
+        after: adjustedFacilityRwa,
+      })
+    }
+
+    return {
+      ...facilityExposure,
+      ead: facilityEad,
+      assetClass: facilityAssetClass,
+      correlation,
+      preFloorLgd,
+      lgdFloor,
+      lgd,
+      maturity,
+      maturityAdjustment,
+      k,
+      rwa: adjustedFacilityRwa,
+      originalRwa: facilityRwa,
+      preFloorRwa: preFloorK * rwaFactor * facilityEad,
+      expectedLoss: expectedLossRate * facilityEad,
+      hasAdjustment: facility.rwaAdjustment !== undefined,
+    }
+  })
+
+  // Counterparty parameters are EAD-weighted averages of its facilities
+  const weightedAverage = (value: (facility: FacilityRwaResult) => number) =>
+    ead > 0 ? facilities.reduce((sum, facility) => sum + value(facility) * facility.ead, 0) / ead : 0
+
+  let correlation: number
+  let preFloorLgd: number
+  let lgdFloor: number
+  let lgd: number
+  let maturity: number
+  let maturityAdjustment: number
+  let k: number
+  let modelRWA: number
+  let preFloorRWA: number
+  let baseRWA: number
+  let expectedLoss: number
+
+  if (facilities.length > 0) {
+    correlation = weightedAverage((facility) => facility.correlation)
+    preFloorLgd = weightedAverage((facility) => facility.preFloorLgd)
+    lgdFloor = weightedAverage((facility) => facility.lgdFloor)
+    lgd = weightedAverage((facility) => facility.lgd)
+    maturity = weightedAverage((facility) => facility.maturity)
+    maturityAdjustment = weightedAverage((facility) => facility.maturityAdjustment)
+    k = weightedAverage((facility) => facility.k)
+    modelRWA = facilities.reduce((sum, facility) => sum + facility.originalRwa, 0)
+    preFloorRWA = facilities.reduce((sum, facility) => sum + facility.preFloorRwa, 0)
+    expectedLoss = facilities.reduce((sum, facility) => sum + facility.expectedLoss, 0)
+    // Facility adjustments are included before any counterparty adjustment
+    baseRWA = facilities.reduce((sum, facility) => sum + facility.rwa, 0)
+  } else {
+    // Counterparties without facilities are a single exposure
+    maturity = maturityOverride ?? counterparty.maturity
+    const capital = calculateFlooredCapital(
+      assetClass,
+      lgdOverride ?? getModelLgd(counterparty.seniority, counterparty.lgd),
+      maturity,
+    )
+    correlation = capital.correlation
+    preFloorLgd = capital.preFloorLgd
+    lgdFloor = capital.lgdFloor
+    lgd = capital.lgd
+    maturityAdjustment = capital.maturityAdjustment
+    k = capital.k
+    modelRWA = k * rwaFactor * ead
+    preFloorRWA = capital.preFloorK * rwaFactor * ead
+    expectedLoss = capital.expectedLossRate * ead
+    baseRWA = modelRWA
+    traceExposureCapital("Counterparty exposure", assetClass, maturity, capital, ead, modelRWA)
+  }
+
+  // Slotting details; facilities fall into maturity buckets individually
+  const slotting: SlottingResult | null =
+    specialisedLending && slottingCategory
+      ? {
+          type: specialisedLending.type,
+          category: slottingCategory,
+          riskWeight: ead > 0 ? modelRWA / ead : 0,
+          expectedLossRate: ead > 0 ? expectedLoss / ead : 0,
+        }
+      : null
+
+  // Apply any adjustments
+  let hasAdjustment = facilities.some((facility) => facility.hasAdjustment)
+  let hasPortfolioAdjustment = false
+  let adjustedRWA = baseRWA
+  const originalRwa = modelRWA
+
+  // Apply counterparty-specific adjustment if present
+  if (rwaAdjustment) {
+    hasAdjustment = true
+    adjustedRWA = applyRwaAdjustment(baseRWA, rwaAdjustment)
+
+    addTraceStep({
+      stage: "adjustment",
+      label: "Counterparty adjustment",
+      values: { ...rwaAdjustment },
+      before: baseRWA,
+      after: adjustedRWA,
+    })
+  }
+
+  // Apply portfolio-level adjustment if present
+  if (portfolioRwaAdjustment) {
+    hasPortfolioAdjustment = true
+    const beforePortfolioAdjustment = adjustedRWA
+
+    if (portfolioRwaAdjustment.type === "absolute") {
+      // For absolute adjustments, use the provided adjustedRWA directly
+      adjustedRWA = portfolioRwaAdjustment.adjustedRWA ?? adjustedRWA
+    } else if (portfolioRwaAdjustment.type === "additive") {
+      // For additive adjustments, add the adjustment to the current RWA
+      adjustedRWA = adjustedRWA + (portfolioRwaAdjustment.adjustment ?? 0)
+    } else if (portfolioRwaAdjustment.type === "multiplicative") {
+      // For multiplicative adjustments, multiply the current RWA by the multiplier
+      adjustedRWA = adjustedRWA * (portfolioRwaAdjustment.multiplier ?? 1)
+    }
+
+    addTraceStep({
+      stage: "adjustment",
+      label: "Portfolio adjustment",
+      values: { ...portfolioRwaAdjustment },
+      before: beforePortfolioAdjustment,
+      after: adjustedRWA,
+    })
+  }
+
+  // Calculate RWA density (RWA as percentage of EAD)
+  const rwaDensity = ead > 0 ? adjustedRWA / ead : 0
+
+  addTraceStep({
+    stage: "result",
+    label: "Result",
+    values: { correlation, maturityAdjustment, k, rwaDensity },
+    before: originalRwa,
+    after: adjustedRWA,
+  })
+
+  // Return the results
+  return {
+    methodologyVersion: METHODOLOGY_VERSION,
+    regulatoryProfile: profile.id,
+    irbApproach,
+    assetClass,
+    pd: pitPd,
+    ttcPd,
+    lgd,
+    ead,
+    maturity,
+    baseCorrelation,
+    smeAdjustment,
+    avcMultiplier,
+    correlation,
+    maturityAdjustment,
+    k,
+    rwa: adjustedRWA,
+    originalRwa: hasAdjustment || hasPortfolioAdjustment ? originalRwa : adjustedRWA,
+    hasAdjustment: hasAdjustment || hasPortfolioAdjustment,
+    hasPortfolioAdjustment,
+    rwaDensity,
+    facilities,
+    slotting,
+    isDefaulted,
+    elbe: isDefaulted && !slotting ? (defaultedElbe ?? lgd) : null,
+    floors: {
+      pdFloor: appliesFloors ? pdFloor : 0,
+      preFloorTtcPd,
+      isPdFloorBinding: ttcPd > preFloorTtcPd,
+      lgdFloor,
+      preFloorLgd,
+      isLgdFloorBinding: lgd > preFloorLgd,
+      rwaAddOn: modelRWA - preFloorRWA,
+    },
+    expectedLoss: compareWithProvisions(expectedLoss, counterparty.provisions ?? 0),
+    ...(trace ? { trace } : {}),
+  }
+}
+
+// Apply a counterparty or facility RWA adjustment to a model RWA
+function applyRwaAdjustment(rwa: number, adjustment: RwaAdjustment): number {
+  if (adjustment.type === "absolute") {
+    // For absolute adjustments, use the provided adjustedRWA directly
+    return adjustment.adjustedRWA ?? rwa
+  } else if (adjustment.type === "additive") {
+    // For additive adjustments, add the adjustment to the base RWA
+    return rwa + (adjustment.adjustment ?? 0)
+  } else if (adjustment.type === "multiplicative") {
+    // For multiplicative adjustments, multiply the base RWA by the multiplier
+    return rwa * (adjustment.multiplier ?? 1)
+  } else if (adjustment.type === "percentage") {
+    // For percentage adjustments, calculate based on percentage value
+    return rwa * (1 + (adjustment.value ?? 0) / 100)
+  }
+  return rwa
+}`,
+  el: `// lib/expected-loss-calculator.ts
+
+// Compare expected loss with provisions; only one of shortfall and excess is non-zero
+export function compareWithProvisions(expectedLoss: number, provisions: number): ExpectedLossResult {
+  return {
+    expectedLoss,
+    provisions,
+    shortfall: Math.max(0, expectedLoss - provisions),
+    excess: Math.max(0, provisions - expectedLoss),
+  }
+}`,
+  ttcpd: `// lib/ttc-pd-calculator.ts
+
+// Function to calculate TTC PD based on various inputs
+export function calculateTtcPd(inputs: TtcPdInputs): number {
+  return calculateTtcPdComponents(inputs).ttcPd
+}
+
+// TTC PD with the inputs after defaults and the cycle adjustment, used to explain the calculation
+export function calculateTtcPdComponents(inputs: TtcPdInputs) {
+  const { pointInTimePd, macroeconomicIndex, longTermAverage, cyclicality } = inputs
+
+  // Check for invalid inputs and provide defaults
+  const safePd = isNaN(pointInTimePd) ? 0.01 : pointInTimePd
+  const safeIndex = macroeconomicIndex === undefined || isNaN(macroeconomicIndex) ? 0.5 : macroeconomicIndex
+  const safeAverage = longTermAverage === undefined || isNaN(longTermAverage) ? 0.02 : longTermAverage
+  const safeCyclicality = cyclicality === undefined || isNaN(cyclicality) ? 0.5 : cyclicality
+
+  // Calculate economic adjustment factor
+  // When economy is strong (index close to 1), PIT PD is lower than TTC PD
+  // When economy is weak (index close to 0), PIT PD is higher than TTC PD
+  const economicDeviation = 0.5 - safeIndex // Deviation from neutral economy
+
+  // Calculate adjustment based on cyclicality and economic conditions
+  const adjustment = 1 + economicDeviation * safeCyclicality * 2
+
+  // Calculate TTC PD by adjusting PIT PD with the economic cycle
+  let ttcPd = safePd * adjustment
+
+  // Blend with long-term average to ensure stability
+  ttcPd = ttcPd * 0.7 + safeAverage * 0.3
+
+  return {
+    pointInTimePd: safePd,
+    macroeconomicIndex: safeIndex,
+    longTermAverage: safeAverage,
+    cyclicality: safeCyclicality,
+    cycleAdjustment: adjustment,
+    // Ensure PD is within reasonable bounds
+    ttcPd: Math.max(0.0001, Math.min(1, ttcPd)),
+  }
+}`,
+  avc: `// lib/rwa-calculator.ts
+
+// Calculate AVC multiplier for financial institutions
+function calculateAVCMultiplier(
+  isFinancial: boolean,
+  isLargeFinancial: boolean,
+  isRegulated: boolean,
+  multiplier: number,
+): number {
+  if (isFinancial && (isLargeFinancial || !isRegulated)) {
+    return multiplier // AVC multiplier for large or unregulated financials
+  }
+  return 1.0
+}`,
+  creditreview: `// lib/credit-ratings.ts
+
+// Function to get PD from rating
+export function getPdFromRating(rating: string): number {
+  const ratingData = creditRatings.find((r) => r.rating === rating)
+  return ratingData ? ratingData.pd : 0.01 // Default to 1% if rating not found
+}
+
+// Function to get the closest rating from a PD value
+export function getRatingFromPd(pd: number): string {
+  // Sort by absolute difference between the pd and the rating pd
+  const sortedRatings = [...creditRatings].sort((a, b) => {
+    return Math.abs(a.pd - pd) - Math.abs(b.pd - pd)
+  })
+
+  return sortedRatings[0].rating
 }`,
 }
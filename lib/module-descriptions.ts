@@ -15,11 +15,20 @@ export const moduleDescriptions: Record<string, ModuleDescription> = {
     title: "Exposure Module",
     description:
       "This module calculates the Exposure at Default (EAD) based on the loan amount and any credit conversion factors (CCF) for off-balance sheet items.",
-    formula: "EAD = Loan Amount × Credit Conversion Factor",
-    inputs: ["Loan Amount", "Credit Conversion Factor (for off-balance sheet items)"],
+    formula: "EAD = Σ(Drawn + Undrawn × Credit Conversion Factor)",
+    inputs: ["Drawn Balance", "Undrawn Commitment", "Credit Conversion Factor (for off-balance sheet items)"],
     outputs: ["Exposure at Default (EAD)"],
     notes:
-      "For on-balance sheet items, the CCF is typically 100%. For off-balance sheet items like credit lines, the CCF may vary based on the commitment type.",
+      "Drawn balances are included in full. For off-balance sheet items like credit lines, the CCF depends on the facility type.",
+  },
+  facilities: {
+    title: "Facilities Module",
+    description: "This module lists the credit facilities making up the exposure, with their drawn and undrawn amounts.",
+    formula: "Total Commitment = Σ(Drawn + Undrawn)",
+    inputs: ["Facility Type", "Drawn Balance", "Undrawn Commitment", "CCF Override"],
+    outputs: ["Total Commitment"],
+    notes:
+      "Regulatory CCFs are 75% for commitments, 10% for unconditionally cancellable commitments, 20% for trade finance, 50% for performance guarantees and 100% for financial guarantees.",
   },
   pd: {
     title: "Probability of Default Module",
@@ -40,12 +49,22 @@ export const moduleDescriptions: Record<string, ModuleDescription> = {
     notes:
       "LGD is expressed as a percentage of exposure and is influenced by collateral quality, loan seniority, and industry-specific recovery rates.",
   },
+  collateral: {
+    title: "Collateral Module",
+    description:
+      "This module lists the collateral securing the exposure and the part of it recognised under the Foundation IRB approach.",
+    formula: "Secured Exposure = min(Remaining Exposure, Collateral Value / C**)",
+    inputs: ["Collateral Type", "Collateral Value", "Supervisory Haircut"],
+    outputs: ["Secured Exposure", "Foundation IRB LGD"],
+    notes:
+      "Only used in F-IRB mode. Financial collateral reduces the exposure after haircuts; receivables, real estate and other physical collateral secure exposure at the supervisory LGDs of the regulatory profile, 35% to 40% under Basel II and 20% to 25% under Basel III.",
+  },
   ead: {
     title: "Exposure at Default Module",
     description:
       "This module refines the Exposure at Default (EAD) calculation by incorporating additional factors such as unused commitments and expected drawdowns.",
-    formula: "EAD = Current Exposure + (Unused Commitment × Drawdown Factor)",
-    inputs: ["Current Exposure", "Unused Commitment", "Drawdown Factor"],
+    formula: "EAD = Σ(Drawn + Undrawn × CCF), where CCF = Stressed Utilisation, CCF Override or Regulatory CCF",
+    inputs: ["Drawn Balance", "Undrawn Commitment", "Credit Conversion Factor"],
     outputs: ["Final Exposure at Default (EAD)"],
     notes:
       "The drawdown factor estimates how much of an unused credit line a borrower is likely to use before defaulting.",
@@ -57,22 +76,51 @@ export const moduleDescriptions: Record<string, ModuleDescription> = {
     formula: "Maturity Adjustment = (1 + (M - 2.5) × b) / (1 - 1.5 × b), where b = (0.11852 - 0.05478 × ln(PD))²",
     inputs: ["Effective Maturity (M)", "Probability of Default (PD)"],
     outputs: ["Maturity Adjustment Factor"],
-    notes: "Longer maturities generally increase risk weight due to greater uncertainty over longer time horizons.",
+    notes:
+      "Longer maturities generally increase risk weight due to greater uncertainty over longer time horizons. Retail exposures have no maturity adjustment.",
+  },
+  sme: {
+    title: "SME Firm-Size Adjustment Module",
+    description:
+      "This module reduces the asset correlation for corporates with annual sales below €50m, reflecting their lower exposure to systematic risk.",
+    formula: "SME Adjustment = 0.04 × (1 - (S - 5) / 45), where S = max(5, Annual Sales in €m)",
+    inputs: ["Annual Sales", "Financial Institution Status"],
+    outputs: ["Correlation Reduction"],
+    notes: "Based on Basel CRE31.9. Does not apply to financial institutions and can be switched off.",
+  },
+  default: {
+    title: "Defaulted Exposure Module",
+    description:
+      "This module calculates capital for defaulted counterparties, where the IRB formula no longer applies because PD is 100%.",
+    formula: "K = max(0, LGD - ELBE)",
+    inputs: ["LGD", "Best-Estimate Expected Loss (ELBE)"],
+    outputs: ["Capital Requirement (K)"],
+    notes: "Based on Basel CRE31.3. F-IRB exposures use ELBE = LGD, so they hold no capital above expected loss.",
+  },
+  slotting: {
+    title: "Supervisory Slotting Module",
+    description:
+      "This module risk-weights specialised lending without a reliable PD using the supervisory slotting categories.",
+    formula: "RWA = Risk Weight(Category, Remaining Maturity) × EAD",
+    inputs: ["Slotting Category", "Remaining Maturity", "EAD"],
+    outputs: ["Risk Weight", "Expected Loss Rate"],
+    notes:
+      "Based on Basel CRE33.5-33.12. Strong 70%, Good 90%, Satisfactory 115%, Weak 250%, Default 0%; Strong and Good get 50% and 70% below 2.5 years.",
   },
   correlation: {
     title: "Correlation Module",
-    description: "Calculates asset correlation based on PD and AVC multiplier",
+    description: "Calculates asset correlation based on asset class, PD and AVC multiplier",
     formula: "R = (0.12 * (1 - e^(-50 * PD)) / (1 - e^(-50)) + 0.24 * (1 - (1 - e^(-50 * PD)) / (1 - e^(-50)))) * AVC",
-    inputs: ["Probability of Default (PD)"],
+    inputs: ["Asset Class", "Probability of Default (PD)"],
     outputs: ["Asset Correlation (R)"],
     notes:
-      "According to Basel CRE31.43, correlation is multiplied by 1.25 for exposures to financial institutions with assets ≥ $100bn or unregulated financial institutions regardless of size.",
+      "The formula shown is for corporates. Residential mortgages use R = 0.15, qualifying revolving retail R = 0.04 and other retail a curve from 3% to 16% with a factor of 35 in place of 50 (CRE31.15). According to Basel CRE31.43, correlation is multiplied by 1.25 for exposures to financial institutions with assets ≥ $100bn or unregulated financial institutions regardless of size.",
   },
   capital: {
     title: "Capital Requirement Module",
     description:
       "This module calculates the capital requirement (K) based on PD, LGD, correlation, and maturity adjustment according to the Basel formula.",
-    formula: "K = LGD × N[(1 - R)^(-0.5) × G(PD) + (R / (1 - R))^(0.5) × G(0.999)] × Maturity Adjustment",
+    formula: "K = LGD × [N((1 - R)^(-0.5) × G(PD) + (R / (1 - R))^(0.5) × G(0.999)) - PD] × Maturity Adjustment",
     inputs: ["PD", "LGD", "Correlation (R)", "Maturity Adjustment"],
     outputs: ["Capital Requirement (K)"],
     notes:
@@ -88,6 +136,16 @@ export const moduleDescriptions: Record<string, ModuleDescription> = {
     notes:
       "When adjustments are applied to this module, they directly impact the final RWA calculation. Adjustments can be absolute (fixed amount) or relative (percentage change).",
   },
+  el: {
+    title: "Expected Loss Module",
+    description:
+      "This module calculates the IRB expected loss and compares it with the provisions held against the counterparty.",
+    formula: "EL = PD × LGD × EAD",
+    inputs: ["Probability of Default (PD)", "Loss Given Default (LGD)", "Exposure at Default (EAD)", "Provisions"],
+    outputs: ["Expected Loss (EL)", "Shortfall", "Excess"],
+    notes:
+      "Based on Basel CRE35. A portfolio shortfall is deducted from CET1; an excess counts as Tier 2 up to 0.6% of credit RWA.",
+  },
   ttcpd: {
     title: "Through-The-Cycle PD Module",
     description:
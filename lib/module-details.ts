@@ -1,8 +1,28 @@
 export type ModuleType = "input" | "calculation" | "output"
 
 import { getRatingFromPd } from "./credit-ratings"
+import type { AssetClass, CollateralRules, CorrelationBounds, Counterparty, RwaResult } from "./types"
+import { calculateFirbLgd, COLLATERAL_TYPE_LABELS } from "./lgd-calculator"
+import { FACILITY_TYPE_LABELS } from "./ead-calculator"
+import { ASSET_CLASS_LABELS, SME_SALES_THRESHOLD } from "./correlation-calculator"
+import { DEFAULT_REASON_LABELS } from "./default-calculator"
+import {
+  getSlottingMaturityBucket,
+  SLOTTING_CATEGORY_LABELS,
+  SLOTTING_MATURITY_BUCKET_LABELS,
+  SPECIALISED_LENDING_TYPE_LABELS,
+} from "./slotting-calculator"
+import { getRegulatoryProfile } from "./regulatory-profiles"
 
-export function getModuleDetails(moduleId, data, results) {
+// Module details tagged with the regulatory profile the results were calculated under
+export function getModuleDetails(moduleId: string, data: Counterparty, results: RwaResult) {
+  const details = getBaseModuleDetails(moduleId, data, results)
+  if (!details) return null
+
+  return { ...details, regulatoryProfile: getRegulatoryProfile(results?.regulatoryProfile).name }
+}
+
+function getBaseModuleDetails(moduleId: string, data: Counterparty, results: RwaResult) {
   // Ensure data and results are objects to prevent null reference errors
   const safeData = data || {}
   const safeResults = results || {}
@@ -10,13 +30,23 @@ export function getModuleDetails(moduleId, data, results) {
   if (moduleId === "pd") {
     return getPITPDModuleDetails(safeData)
   } else if (moduleId === "ttcpd") {
-    return getTtcPDModuleDetails(safeData)
+    return getTtcPDModuleDetails(safeData, safeResults)
   } else if (moduleId === "creditreview") {
     return getCreditReviewModuleDetails(safeData)
   } else if (moduleId === "lgd") {
-    return getLGDModuleDetails(safeData)
+    return getLGDModuleDetails(safeData, safeResults)
+  } else if (moduleId === "collateral") {
+    return getCollateralModuleDetails(safeData, safeResults)
+  } else if (moduleId === "facilities") {
+    return getFacilitiesModuleDetails(safeResults)
   } else if (moduleId === "ead") {
-    return getEADModuleDetails(safeData)
+    return getEADModuleDetails(safeData, safeResults)
+  } else if (moduleId === "sme") {
+    return getSmeModuleDetails(safeData, safeResults)
+  } else if (moduleId === "slotting") {
+    return getSlottingModuleDetails(safeData, safeResults)
+  } else if (moduleId === "default") {
+    return getDefaultModuleDetails(safeData, safeResults)
   } else if (moduleId === "correlation") {
     return getCorrelationModuleDetails(safeData, safeResults)
   } else if (moduleId === "maturity") {
@@ -25,12 +55,14 @@ export function getModuleDetails(moduleId, data, results) {
     return getAVCModuleDetails(safeData, safeResults)
   } else if (moduleId === "rwa") {
     return getRWAModuleDetails(data, results)
+  } else if (moduleId === "el") {
+    return getExpectedLossModuleDetails(safeData, safeResults)
   } else {
     return null
   }
 }
 
-function getPITPDModuleDetails(data) {
+function getPITPDModuleDetails(data: Counterparty) {
   // Ensure we have a valid PIT PD value
   const pitPd = data.pd !== undefined && !isNaN(data.pd) ? data.pd : 0.01
 
@@ -83,11 +115,10 @@ function getPITPDModuleDetails(data) {
         description: "Approximate credit rating equivalent to this PD",
       },
     ],
-    code: "// Point-in-Time PD Model Implementation\n\nfunction calculatePointInTimePD(financialData, marketData, economicData) {\n  // Financial ratios have the strongest influence on PD\n  const financialScore = calculateFinancialScore(financialData);\n  \n  // Market data provides forward-looking signals\n  const marketScore = calculateMarketScore(marketData);\n  \n  // Economic data captures current conditions\n  const economicScore = calculateEconomicScore(economicData);\n  \n  // Combine scores with appropriate weights\n  const combinedScore = (\n    financialScore * 0.6 + \n    marketScore * 0.3 + \n    economicScore * 0.1\n  );\n  \n  // Convert score to PD using a calibrated function\n  return scoreToDefaultProbability(combinedScore);\n}",
   }
 }
 
-function getTtcPDModuleDetails(data) {
+function getTtcPDModuleDetails(data: Counterparty, results: RwaResult) {
   // Generate TTC PD inputs for display
   const ttcInputs = {
     pointInTimePd: data.pd,
@@ -157,12 +188,23 @@ function getTtcPDModuleDetails(data) {
         value: ttcPd ? getRatingFromPd(ttcPd) : "N/A",
         description: "Approximate credit rating equivalent to this TTC PD",
       },
+      // The PD used for capital may not fall below the regulatory floor
+      ...(results.floors.pdFloor > 0
+        ? [
+            {
+              name: "PD Floor",
+              value: (results.floors.pdFloor * 100).toFixed(4) + "%",
+              description: results.floors.isPdFloorBinding
+                ? `Binding: raises the TTC PD of ${(results.floors.preFloorTtcPd * 100).toFixed(4)}% used for capital`
+                : "Not binding: the TTC PD is above the floor",
+            },
+          ]
+        : []),
     ],
-    code: "function calculateTtcPd(inputs) {\n  const { pointInTimePd, macroeconomicIndex, longTermAverage, cyclicality } = inputs;\n  \n  // Calculate economic adjustment factor\n  const economicDeviation = 0.5 - macroeconomicIndex;\n  \n  // Calculate adjustment based on cyclicality and economic conditions\n  const adjustment = 1 + (economicDeviation * cyclicality * 2);\n  \n  // Calculate TTC PD by adjusting PIT PD with the economic cycle\n  let ttcPd = pointInTimePd * adjustment;\n  \n  // Blend with long-term average to ensure stability\n  ttcPd = ttcPd * 0.7 + longTermAverage * 0.3;\n  \n  return Math.max(0.0001, Math.min(1, ttcPd));\n}",
   }
 }
 
-function getCreditReviewModuleDetails(data) {
+function getCreditReviewModuleDetails(data: Counterparty) {
   return {
     title: "Credit Review Module",
     description: "Assigns credit ratings and corresponding PDs based on expert judgment",
@@ -221,11 +263,14 @@ function getCreditReviewModuleDetails(data) {
         description: "Which PD is being used for RWA calculation",
       },
     ],
-    code: 'function getPdFromRating(rating) {\n  // Mapping of ratings to approximate PD values\n  const ratingToPdMap = {\n    "AAA": 0.0001,   // 0.01%\n    "AA+": 0.0002,   // 0.02%\n    "AA": 0.0003,    // 0.03%\n    "AA-": 0.0004,   // 0.04%\n    "A+": 0.0005,    // 0.05%\n    "A": 0.0007,     // 0.07%\n    "A-": 0.0009,    // 0.09%\n    "BBB+": 0.0012,  // 0.12%\n    "BBB": 0.0022,   // 0.22%\n    "BBB-": 0.0035,  // 0.35%\n    "BB+": 0.0065,   // 0.65%\n    "BB": 0.0120,    // 1.20%\n    "BB-": 0.0190,   // 1.90%\n    "B+": 0.0290,    // 2.90%\n    "B": 0.0450,     // 4.50%\n    "B-": 0.0650,    // 6.50%\n    "CCC+": 0.0950,  // 9.50%\n    "CCC": 0.1400,   // 14.00%\n    "CCC-": 0.1900,  // 19.00%\n    "CC": 0.2500,    // 25.00%\n    "C": 0.3500,     // 35.00%\n    "D": 1.0000      // 100.00% (default)\n  };\n  \n  return ratingToPdMap[rating] || 0.01; // Default to 1% if rating not found\n}',
   }
 }
 
-function getLGDModuleDetails(data) {
+function getLGDModuleDetails(data: Counterparty, results: RwaResult) {
+  if (data.irbApproach === "FIRB") {
+    return getFirbLGDModuleDetails(data, results)
+  }
+
   return {
     title: "Loss Given Default (LGD) Calculator",
     description: "Calculates the percentage of exposure expected to be lost if a default occurs",
@@ -257,7 +302,7 @@ function getLGDModuleDetails(data) {
       },
       {
         name: "Seniority",
-        value: "Senior Unsecured",
+        value: data.seniority === "subordinated" ? "Subordinated" : "Senior Unsecured",
         description: "Seniority of the claim in case of default",
       },
       {
@@ -278,71 +323,531 @@ function getLGDModuleDetails(data) {
         value: data.lgd ? ((1 - data.lgd) * 100).toFixed(2) + "%" : "N/A",
         description: "Expected recovery rate in case of default",
       },
+      // Facilities with their own LGD move the counterparty LGD away from the default above
+      ...(results.facilities.length > 0
+        ? [
+            {
+              name: "EAD-Weighted Facility LGD",
+              value: (results.lgd * 100).toFixed(2) + "%",
+              description: "LGD across all facilities, weighted by EAD",
+            },
+          ]
+        : []),
+      // A-IRB LGD estimates may not fall below the supervisory floor for the collateral held
+      ...(results.floors.lgdFloor > 0
+        ? [
+            {
+              name: "LGD Floor",
+              value: (results.floors.lgdFloor * 100).toFixed(2) + "%",
+              description: results.floors.isLgdFloorBinding
+                ? `Binding: raises the modelled LGD of ${(results.floors.preFloorLgd * 100).toFixed(2)}%`
+                : "Not binding: the modelled LGD is above the floor",
+            },
+          ]
+        : []),
+    ],
+  }
+}
+
+// Describe the collateral recognition rules of a regulatory profile
+function describeCollateralRules(rules: CollateralRules) {
+  const formatPercent = (value: number) => `${(value * 100).toFixed(0)}%`
+
+  return {
+    minimumCoverage:
+      rules.realEstate.minimumCoverage > 0
+        ? `Real estate and other physical collateral are only recognised when they cover at least ${formatPercent(rules.realEstate.minimumCoverage)} of the exposure (C*)`
+        : "Real estate and other physical collateral are recognised without a minimum coverage threshold (C*)",
+    fullCoverage: `Collateral of ${formatPercent(rules.receivables.fullCoverage)} (receivables), ${formatPercent(rules.realEstate.fullCoverage)} (real estate) or ${formatPercent(rules.otherPhysical.fullCoverage)} (other physical) of the exposure secures it in full (C**)`,
+    securedLgd: `Secured LGD is ${formatPercent(rules.receivables.lgd)} for receivables, ${formatPercent(rules.realEstate.lgd)} for real estate and ${formatPercent(rules.otherPhysical.lgd)} for other physical collateral`,
+  }
+}
+
+function getFirbLGDModuleDetails(data: Counterparty, results: RwaResult) {
+  const { supervisoryLgd, collateralRules } = getRegulatoryProfile(results.regulatoryProfile)
+  const firb = calculateFirbLgd(data, results.ead, supervisoryLgd, collateralRules)
+  const rules = describeCollateralRules(collateralRules)
+  const formatLgd = (lgd: number) => `${(lgd * 100).toFixed(0)}%`
+
+  return {
+    title: "Loss Given Default (LGD) Calculator - Foundation IRB",
+    description: "Derives LGD from supervisory values for the claim's seniority and the recognised collateral",
+    overview:
+      "<p>Under the Foundation IRB approach the bank does not model LGD. Unsecured claims receive a supervisory LGD set by the regulatory profile for their seniority and whether the borrower is a financial institution.</p><p>Financial collateral reduces the exposure after haircuts, while receivables, real estate and other physical collateral secure part of the exposure at a lower supervisory LGD.</p>",
+    formula:
+      "E* = max(0, EAD - C_financial × (1 - H))\nLGD = [Σ(Secured Exposure × LGD_collateral) + Unsecured Exposure × LGD_unsecured] / EAD",
+    keyConsiderations: [
+      `Supervisory LGD is ${formatLgd(supervisoryLgd.senior)} for senior claims on non-financial corporates, ${formatLgd(supervisoryLgd.seniorFinancial)} for senior claims on financial institutions and ${formatLgd(supervisoryLgd.subordinated)} for subordinated claims`,
+      "Financial collateral is recognised after supervisory haircuts",
+      rules.securedLgd,
+      rules.minimumCoverage,
+      rules.fullCoverage,
+    ],
+    inputs: [
+      {
+        name: "Seniority",
+        value: firb.seniority === "subordinated" ? "Subordinated" : "Senior",
+        description: "Seniority of the claim in case of default",
+      },
+      {
+        name: "Unsecured LGD",
+        value: (firb.unsecuredLgd * 100).toFixed(2) + "%",
+        description: "Supervisory LGD for the unsecured part of the exposure",
+      },
+      {
+        name: "Financial Collateral (after haircuts)",
+        value: "$" + Math.round(firb.adjustedFinancialCollateral).toLocaleString(),
+        description: "Value of financial collateral recognised after supervisory haircuts",
+      },
+      ...firb.securedPortions.map((portion) => ({
+        name: `${COLLATERAL_TYPE_LABELS[portion.type]} Collateral`,
+        value: "$" + Math.round(portion.collateralValue).toLocaleString(),
+        description: `Secures $${Math.round(portion.securedExposure).toLocaleString()} at ${(portion.lgd * 100).toFixed(0)}% LGD`,
+      })),
+    ],
+    outputs: [
+      {
+        name: "Exposure after Financial Collateral (E*)",
+        value: "$" + Math.round(firb.exposureAfterFinancialCollateral).toLocaleString(),
+        description: "Exposure remaining after financial collateral",
+      },
+      {
+        name: "Unsecured Exposure",
+        value: "$" + Math.round(firb.unsecuredExposure).toLocaleString(),
+        description: "Exposure not covered by any recognised collateral",
+      },
+      {
+        name: "LGD",
+        value: (firb.lgd * 100).toFixed(2) + "%",
+        description: "Exposure-weighted Foundation IRB LGD",
+      },
+      ...(results.facilities.length > 0
+        ? [
+            {
+              name: "EAD-Weighted Facility LGD",
+              value: (results.lgd * 100).toFixed(2) + "%",
+              description: "LGD across all facilities, each using its own seniority",
+            },
+          ]
+        : []),
+    ],
+  }
+}
+
+function getCollateralModuleDetails(data: Counterparty, results: RwaResult) {
+  const collateral = data.collateral ?? []
+  const { supervisoryLgd, collateralRules } = getRegulatoryProfile(results.regulatoryProfile)
+  const firb = calculateFirbLgd(data, results.ead, supervisoryLgd, collateralRules)
+  const rules = describeCollateralRules(collateralRules)
+
+  return {
+    title: "Collateral Module",
+    description: "Collateral recognised under the Foundation IRB approach",
+    overview:
+      "<p>This module lists the collateral pledged against the exposure and shows how much of it is recognised when deriving the Foundation IRB LGD.</p>",
+    formula: "Secured Exposure = min(Remaining Exposure, Collateral Value / C**)",
+    keyConsiderations: [
+      "Financial collateral is applied first and reduces the exposure after haircuts",
+      "Receivables are recognised without a minimum coverage threshold",
+      rules.minimumCoverage,
+      rules.fullCoverage,
+      ...(collateralRules.realEstate.minimumCoverage > 0
+        ? [
+            firb.meetsPhysicalThreshold
+              ? "Physical collateral meets the minimum coverage threshold"
+              : "Physical collateral does not meet the minimum coverage threshold",
+          ]
+        : []),
+    ],
+    inputs: collateral.map((item) => ({
+      name: COLLATERAL_TYPE_LABELS[item.type],
+      value: "$" + Math.round(item.value).toLocaleString(),
+      description:
+        item.type === "financial"
+          ? `Haircut ${((item.haircut ?? 0.15) * 100).toFixed(0)}%`
+          : item.description || "Collateral value",
+    })),
+    outputs: [
+      {
+        name: "Total Collateral",
+        value: "$" + Math.round(collateral.reduce((sum, item) => sum + item.value, 0)).toLocaleString(),
+        description: "Total value of pledged collateral",
+      },
+      {
+        name: "Secured Exposure",
+        value: "$" + Math.round(firb.ead - firb.unsecuredExposure).toLocaleString(),
+        description: "Exposure covered by recognised collateral",
+      },
     ],
-    code: "function calculateLGD(inputs) {\n  const {\n    collateralType,\n    collateralValue,\n    exposure,\n    seniority,\n    industry,\n    jurisdiction\n  } = inputs;\n  \n  // Base LGD based on seniority\n  let baseLGD = getSeniorityBaseLGD(seniority);\n  \n  // Adjust for collateral\n  const collateralAdjustment = calculateCollateralAdjustment(\n    collateralType,\n    collateralValue,\n    exposure\n  );\n  \n  // Calculate final LGD\n  let lgd = baseLGD - collateralAdjustment;\n  \n  // Ensure LGD is within bounds\n  return Math.max(0.05, Math.min(1, lgd));\n}",
   }
 }
 
-function getEADModuleDetails(data) {
+function getFacilitiesModuleDetails(results: RwaResult) {
+  const facilities = results.facilities
+
+  return {
+    title: "Facilities Module",
+    description: "Lists the credit facilities that make up the exposure and the RWA of each",
+    overview:
+      "<p>A counterparty's exposure is made up of one or more credit facilities. Each facility has a drawn balance and may have an undrawn commitment that the counterparty can still draw on.</p><p>Facilities share the obligor PD and correlation but carry their own LGD, EAD and maturity. RWA is calculated per facility and summed to the counterparty.</p>",
+    formula: "Total Commitment = Σ(Drawn + Undrawn)\nCounterparty RWA = Σ Facility RWA",
+    keyConsiderations: [
+      "Drawn balances are on-balance sheet and fully included in EAD",
+      "Undrawn commitments and guarantees are off-balance sheet and converted with a CCF",
+      "The facility type determines the regulatory CCF",
+      "Facilities without their own LGD or maturity use the counterparty values",
+      "Facility adjustments are applied before any counterparty adjustment",
+    ],
+    inputs: facilities.map((facility) => ({
+      name: `${facility.name} (${facility.id})`,
+      value: "$" + Math.round(facility.rwa).toLocaleString(),
+      description: `${FACILITY_TYPE_LABELS[facility.facilityType]}: EAD $${Math.round(facility.ead).toLocaleString()}, LGD ${(facility.lgd * 100).toFixed(2)}%, M ${facility.maturity.toFixed(2)}y${facility.hasAdjustment ? ", adjusted" : ""}`,
+    })),
+    outputs: [
+      {
+        name: "Drawn Balance",
+        value: "$" + Math.round(facilities.reduce((sum, facility) => sum + facility.drawn, 0)).toLocaleString(),
+        description: "Total on-balance sheet exposure",
+      },
+      {
+        name: "Undrawn Commitment",
+        value: "$" + Math.round(facilities.reduce((sum, facility) => sum + facility.undrawn, 0)).toLocaleString(),
+        description: "Total off-balance sheet exposure",
+      },
+      {
+        name: "Facility RWA",
+        value: "$" + Math.round(facilities.reduce((sum, facility) => sum + facility.rwa, 0)).toLocaleString(),
+        description: "Sum of facility RWA before counterparty adjustments",
+      },
+    ],
+  }
+}
+
+function getEADModuleDetails(data: Counterparty, results: RwaResult) {
+  const facilities = results.facilities
+  const drawn = facilities.reduce((sum, facility) => sum + facility.drawn, 0)
+  const undrawn = facilities.reduce((sum, facility) => sum + facility.undrawn, 0)
+  const effectiveCcf = undrawn > 0 ? (results.ead - drawn) / undrawn : 0
+
   return {
     title: "Exposure at Default (EAD) Calculator",
     description: "Calculates the expected exposure amount at the time of default",
     overview:
-      "<p>Exposure at Default (EAD) estimates the total exposure amount expected at the time of default.</p><p>This module calculates EAD by considering both current drawn amounts and potential future drawdowns of undrawn commitments.</p>",
-    formula: "EAD = Current Outstanding + (Undrawn Commitment × Credit Conversion Factor)",
+      "<p>Exposure at Default (EAD) estimates the total exposure amount expected at the time of default.</p><p>This module calculates EAD by considering both current drawn amounts and potential future drawdowns of undrawn commitments.</p>" +
+      (facilities.length === 0
+        ? "<p>This counterparty has no facility breakdown, so its EAD is used as entered.</p>"
+        : ""),
+    formula: "EAD = Σ(Drawn + Undrawn × Credit Conversion Factor)",
     keyConsiderations: [
       "EAD includes both current drawn amounts and potential future drawdowns",
       "Credit Conversion Factors (CCF) estimate how much of undrawn amounts will be drawn before default",
-      "Revolving facilities typically have higher CCFs than term loans",
-      "CCFs range from 0% to 100% depending on facility type and remaining maturity",
+      "Regulatory CCFs: 75% for commitments, 10% unconditionally cancellable, 20% trade finance, 50% performance and 100% financial guarantees",
+      "A CCF override on a facility replaces its regulatory CCF",
+    ],
+    inputs:
+      facilities.length > 0
+        ? facilities.map((facility) => ({
+            name: `${facility.name} (${facility.id})`,
+            value: "$" + Math.round(facility.ead).toLocaleString(),
+            description: `$${Math.round(facility.drawn).toLocaleString()} drawn + $${Math.round(facility.undrawn).toLocaleString()} undrawn × ${(facility.ccf * 100).toFixed(0)}% CCF${facility.isCcfOverridden ? " (override)" : ""}`,
+          }))
+        : [
+            {
+              name: "Counterparty",
+              value: data.name || "Unknown",
+              description: "Entity being assessed",
+            },
+            {
+              name: "EAD",
+              value: data.ead ? "$" + Math.round(data.ead).toLocaleString() : "N/A",
+              rawValue: data.ead,
+              description: "Exposure at Default",
+            },
+          ],
+    outputs: [
+      {
+        name: "Total EAD",
+        value: "$" + Math.round(results.ead).toLocaleString(),
+        description: "Exposure at Default",
+      },
+      ...(facilities.length > 0
+        ? [
+            {
+              name: "Effective CCF",
+              value: (effectiveCcf * 100).toFixed(2) + "%",
+              description: "Share of undrawn commitments included in EAD",
+            },
+            {
+              name: "EAD to Limit Ratio",
+              value: drawn + undrawn > 0 ? ((results.ead / (drawn + undrawn)) * 100).toFixed(2) + "%" : "N/A",
+              description: "EAD as a percentage of total credit limit",
+            },
+          ]
+        : []),
+    ],
+  }
+}
+
+function getSmeModuleDetails(data: Counterparty, results: RwaResult) {
+  const isEligible = !data.isFinancial && data.revenue !== undefined && data.revenue < SME_SALES_THRESHOLD
+  const sales = data.revenue !== undefined ? Math.max(5, data.revenue / 1000000) : null
+
+  return {
+    title: "SME Firm-Size Adjustment",
+    description: "Reduces the asset correlation for corporates with annual sales below €50m",
+    overview:
+      "<p>Smaller firms are less exposed to the systematic risk factor than large corporates. The Basel framework recognises this by lowering the asset correlation of SME corporates.</p><p>The reduction is 4 percentage points for sales of €5m or less and falls linearly to zero at €50m.</p>",
+    formula:
+      "SME Adjustment = 0.04 × (1 - (S - 5) / 45), where S = max(5, Annual Sales in €m)\nR = Base Correlation - SME Adjustment",
+    keyConsiderations: [
+      "Applies to corporates with annual sales below €50m",
+      "Sales below €5m are treated as €5m",
+      "Financial institutions are not eligible",
+      "The adjustment can be switched off to compare results without it",
     ],
     inputs: [
       {
-        name: "Counterparty",
-        value: data.name || "Unknown",
-        description: "Entity being assessed",
+        name: "Revenue",
+        value: data.revenue !== undefined ? "€" + Math.round(data.revenue).toLocaleString() : "N/A",
+        rawValue: data.revenue,
+        description: "Annual sales of the counterparty",
+      },
+      {
+        name: "Is Financial Institution",
+        value: data.isFinancial ? "Yes" : "No",
+        description: "Financial institutions are not eligible for the SME adjustment",
       },
       {
-        name: "Current Outstanding",
-        value: data.ead ? "$" + Math.round(data.ead * 0.8).toLocaleString() : "N/A",
-        description: "Current drawn amount",
+        name: "Sales Used (S)",
+        value: sales !== null && isEligible ? "€" + sales.toFixed(2) + "m" : "N/A",
+        description: "Annual sales in €m, floored at €5m",
       },
+    ],
+    outputs: [
       {
-        name: "Undrawn Commitment",
-        value: data.ead ? "$" + Math.round(data.ead * 0.25).toLocaleString() : "N/A",
-        description: "Available undrawn amount",
+        name: "Correlation Reduction",
+        value: (results.smeAdjustment * 100).toFixed(2) + "%",
+        description: isEligible
+          ? results.smeAdjustment > 0
+            ? "Reduction applied to the base correlation"
+            : "The SME adjustment is switched off"
+          : "Not an SME corporate, no reduction applied",
       },
       {
-        name: "Credit Conversion Factor",
-        value: "80%",
-        description: "Factor applied to undrawn amounts",
+        name: "Final Correlation",
+        value: (results.correlation * 100).toFixed(2) + "%",
+        description: "Asset correlation after the SME adjustment and AVC multiplier",
       },
+    ],
+  }
+}
+
+function getSlottingModuleDetails(data: Counterparty, results: RwaResult) {
+  const slotting = results.slotting
+
+  return {
+    title: "Supervisory Slotting",
+    description: "Assigns a supervisory risk weight to specialised lending that has no reliable PD",
+    overview:
+      "<p>Project, object, commodity and income-producing real estate finance are repaid from the income of the financed asset rather than the borrower's wider business, so a PD estimate is often unreliable.</p><p>Under the slotting approach the exposure is graded into one of five supervisory categories, and the category and remaining maturity set the risk weight.</p>",
+    formula: "RWA = Risk Weight(Category, Remaining Maturity) × EAD\nK = Risk Weight / 12.5",
+    keyConsiderations: [
+      "Risk weights: Strong 70%, Good 90%, Satisfactory 115%, Weak 250%, Default 0%",
+      "Strong and Good exposures with less than 2.5 years remaining get 50% and 70%",
+      "Defaulted exposures carry no RWA because they are covered by a 50% expected loss rate",
+      "PD, LGD, correlation and maturity adjustment are not used",
+    ],
+    inputs: [
       {
-        name: "EAD",
-        value: data.ead ? "$" + Math.round(data.ead).toLocaleString() : "N/A",
-        rawValue: data.ead,
-        description: "Exposure at Default",
+        name: "Specialised Lending Type",
+        value: slotting ? SPECIALISED_LENDING_TYPE_LABELS[slotting.type] : "N/A",
+        description: "Type of specialised lending",
+      },
+      {
+        name: "Slotting Category",
+        value: slotting ? SLOTTING_CATEGORY_LABELS[slotting.category] : "N/A",
+        description: "Supervisory category assigned by credit review",
+      },
+      {
+        name: "Remaining Maturity",
+        value:
+          results.maturity.toFixed(2) +
+          " years (" +
+          SLOTTING_MATURITY_BUCKET_LABELS[getSlottingMaturityBucket(results.maturity)] +
+          ")",
+        description:
+          results.facilities.length > 0
+            ? "EAD-weighted; each facility is bucketed on its own maturity"
+            : "Remaining maturity of the exposure",
       },
     ],
     outputs: [
       {
-        name: "EAD",
-        value: data.ead ? "$" + Math.round(data.ead).toLocaleString() : "N/A",
-        description: "Exposure at Default",
+        name: "Risk Weight",
+        value: slotting ? (slotting.riskWeight * 100).toFixed(2) + "%" : "N/A",
+        description: "Supervisory risk weight applied to EAD",
+      },
+      {
+        name: "Expected Loss Rate",
+        value: slotting ? (slotting.expectedLossRate * 100).toFixed(2) + "%" : "N/A",
+        description: "Supervisory expected loss as a share of EAD",
+      },
+      {
+        name: "RWA",
+        value: "$" + Math.round(results.originalRwa).toLocaleString(),
+        description: "Slotted RWA before any adjustments",
+      },
+    ],
+  }
+}
+
+function getDefaultModuleDetails(data: Counterparty, results: RwaResult) {
+  const isFirb = results.irbApproach === "FIRB"
+
+  return {
+    title: "Defaulted Exposure Treatment",
+    description: "Calculates capital for a counterparty that is already in default",
+    overview:
+      "<p>Once a counterparty has defaulted its PD is 100% and the IRB formula no longer applies. The expected loss is covered by provisions, so capital is only held for the risk that the final loss exceeds the bank's best estimate.</p><p>A-IRB banks estimate the best-estimate expected loss (ELBE) alongside a downturn LGD, and the capital requirement is the difference between them. F-IRB exposures set ELBE equal to the supervisory LGD, so they hold no capital above expected loss.</p>",
+    formula: "K = max(0, LGD - ELBE)\nRWA = K × 12.5 × EAD",
+    keyConsiderations: [
+      'Detected automatically from the default flag or a PD of 100%, such as a "D" rating',
+      "Correlation and maturity adjustment do not apply",
+      "When no ELBE is entered it is taken to equal the LGD, so K = 0",
+      "Default date and reason are recorded by the credit review",
+    ],
+    inputs: [
+      {
+        name: "Default Date",
+        value: data.defaultDate ? new Date(data.defaultDate).toLocaleDateString() : "N/A",
+        description: "Date the counterparty entered default",
+      },
+      {
+        name: "Default Reason",
+        value: data.defaultReason ? DEFAULT_REASON_LABELS[data.defaultReason] : "N/A",
+        description: "Default trigger recorded by the credit review",
+      },
+      {
+        name: "LGD",
+        value: (results.lgd * 100).toFixed(2) + "%",
+        description: "Loss given default, EAD-weighted across facilities",
+      },
+      {
+        name: "ELBE",
+        value: results.elbe !== null ? (results.elbe * 100).toFixed(2) + "%" : "N/A",
+        description: isFirb
+          ? "F-IRB sets ELBE equal to LGD"
+          : data.elbe !== undefined
+            ? "Best-estimate expected loss entered in the credit review"
+            : "No ELBE entered, so it is taken to equal the LGD",
+      },
+    ],
+    outputs: [
+      {
+        name: "Capital Requirement (K)",
+        value: (results.k * 100).toFixed(2) + "%",
+        description: "Unexpected loss above the best-estimate expected loss",
       },
       {
-        name: "EAD to Limit Ratio",
-        value: "90%",
-        description: "EAD as a percentage of total credit limit",
+        name: "RWA",
+        value: "$" + Math.round(results.originalRwa).toLocaleString(),
+        description: "Defaulted exposure RWA before any adjustments",
       },
     ],
-    code: "function calculateEAD(inputs) {\n  const {\n    currentOutstanding,\n    undrawnCommitment,\n    facilityType,\n    remainingMaturity,\n    isRevocable\n  } = inputs;\n  \n  // Get Credit Conversion Factor based on facility type\n  const ccf = getCreditConversionFactor(\n    facilityType,\n    remainingMaturity,\n    isRevocable\n  );\n  \n  // Calculate EAD\n  const ead = currentOutstanding + (undrawnCommitment * ccf);\n  \n  return ead;\n}",
   }
 }
 
-function getCorrelationModuleDetails(data, results) {
+function getExpectedLossModuleDetails(data: Counterparty, results: RwaResult) {
+  const { expectedLoss, provisions, shortfall, excess } = results.expectedLoss
+
+  // Slotted and defaulted exposures do not use PD x LGD
+  const rateSource = results.slotting
+    ? `Supervisory expected loss rate for the ${SLOTTING_CATEGORY_LABELS[results.slotting.category]} category`
+    : results.isDefaulted
+      ? "Best-estimate expected loss (ELBE) of the defaulted exposure"
+      : "PD × LGD after the regulatory floors"
+
+  return {
+    title: "Expected Loss and Provisions",
+    description: "Calculates the IRB expected loss and compares it with the provisions held",
+    overview:
+      "<p>The IRB capital requirement only covers unexpected loss. Expected loss (EL) is meant to be covered by provisions, so banks compare the two across the IRB portfolio.</p><p>A shortfall of provisions below EL is deducted from CET1 capital. An excess of provisions over EL can be added to Tier 2 capital, up to 0.6% of credit RWA.</p>",
+    formula: "EL = PD × LGD × EAD\nShortfall = max(0, EL - Provisions)\nExcess = max(0, Provisions - EL)",
+    keyConsiderations: [
+      "EL uses the same PD and LGD as the capital requirement, after the regulatory floors",
+      "Slotted exposures use the supervisory EL rate for their category and maturity",
+      "Defaulted exposures use the best-estimate expected loss (ELBE)",
+      "Shortfall and excess are netted across the portfolio before the capital treatment applies",
+    ],
+    inputs: [
+      {
+        name: "PD (after floor)",
+        value: (results.ttcPd * 100).toFixed(4) + "%",
+        description: "Probability of default used for capital",
+      },
+      {
+        name: "LGD (after floor)",
+        value: (results.lgd * 100).toFixed(2) + "%",
+        description: "Loss given default used for capital, EAD-weighted across facilities",
+      },
+      {
+        name: "Exposure at Default",
+        value: "$" + Math.round(results.ead).toLocaleString(),
+        description: "Exposure at default",
+      },
+      {
+        name: "Provisions",
+        value: "$" + Math.round(provisions).toLocaleString(),
+        rawValue: data.provisions,
+        description: "Specific and general provisions held against the counterparty",
+      },
+    ],
+    outputs: [
+      {
+        name: "Expected Loss",
+        value: "$" + Math.round(expectedLoss).toLocaleString(),
+        description: "Sum of the expected loss on each facility",
+      },
+      {
+        name: "EL Rate",
+        value: results.ead > 0 ? ((expectedLoss / results.ead) * 100).toFixed(4) + "%" : "N/A",
+        description: rateSource,
+      },
+      {
+        name: "Shortfall",
+        value: "$" + Math.round(shortfall).toLocaleString(),
+        description: "Expected loss not covered by provisions, deducted from CET1",
+      },
+      {
+        name: "Excess",
+        value: "$" + Math.round(excess).toLocaleString(),
+        description: "Provisions above expected loss, eligible for Tier 2 up to the portfolio cap",
+      },
+    ],
+  }
+}
+
+// Basel correlation formula for each asset class
+const CORRELATION_FORMULAS: Record<AssetClass, string> = {
+  corporate:
+    "Correlation = 0.12 × (1 - e^(-50 × PD)) / (1 - e^(-50)) + 0.24 × (1 - (1 - e^(-50 × PD)) / (1 - e^(-50)))",
+  residentialMortgage: "Correlation = 0.15",
+  qualifyingRevolvingRetail: "Correlation = 0.04",
+  otherRetail:
+    "Correlation = 0.03 × (1 - e^(-35 × PD)) / (1 - e^(-35)) + 0.16 × (1 - (1 - e^(-35 × PD)) / (1 - e^(-35)))",
+}
+
+// Corporate correlation formula with the bounds of a regulatory profile
+function getCorporateCorrelationFormula({ low, high }: CorrelationBounds) {
+  return `Correlation = ${low} × (1 - e^(-50 × PD)) / (1 - e^(-50)) + ${high} × (1 - (1 - e^(-50 × PD)) / (1 - e^(-50)))`
+}
+
+function getCorrelationModuleDetails(data: Counterparty, results: RwaResult) {
   // Add null checks for results
   const safeResults = results || {}
+  const assetClass = safeResults.assetClass ?? "corporate"
+  const profile = getRegulatoryProfile(safeResults.regulatoryProfile)
+  const { low, high } = profile.corporateCorrelation
 
   return {
     title: "Asset Correlation Calculator",
@@ -350,14 +855,22 @@ function getCorrelationModuleDetails(data, results) {
     overview:
       "<p>Asset correlation measures how closely a counterparty's default risk is tied to the overall economy.</p><p>This module implements the Basel formula for asset correlation, which decreases as PD increases (reflecting that higher-risk borrowers are more idiosyncratic).</p>",
     formula:
-      "Correlation = 0.12 × (1 - e^(-50 × PD)) / (1 - e^(-50)) + 0.24 × (1 - (1 - e^(-50 × PD)) / (1 - e^(-50)))",
+      assetClass === "corporate"
+        ? getCorporateCorrelationFormula(profile.corporateCorrelation)
+        : CORRELATION_FORMULAS[assetClass],
     keyConsiderations: [
       "Asset correlation decreases as PD increases (higher risk borrowers are less correlated with the economy)",
-      "Correlation typically ranges from 12% to 24%",
-      "Financial institutions may receive an Asset Value Correlation (AVC) multiplier of 1.25",
+      `Corporate correlation ranges from ${low * 100}% to ${high * 100}%`,
+      "Residential mortgages use a fixed 15%, qualifying revolving retail a fixed 4% and other retail ranges from 3% to 16%",
+      `Financial institutions may receive an Asset Value Correlation (AVC) multiplier of ${profile.avcMultiplier}; retail exposures never do`,
       "Higher correlation leads to higher capital requirements",
     ],
     inputs: [
+      {
+        name: "Asset Class",
+        value: ASSET_CLASS_LABELS[assetClass],
+        description: "IRB asset class, which selects the correlation formula",
+      },
       {
         name: "PD",
         value: safeResults.pd ? (safeResults.pd * 100).toFixed(4) + "%" : "N/A",
@@ -378,6 +891,11 @@ function getCorrelationModuleDetails(data, results) {
         value: data.isRegulated ? "Yes" : "No",
         description: "Whether the financial institution is regulated",
       },
+      {
+        name: "SME Adjustment",
+        value: (safeResults.smeAdjustment * 100).toFixed(2) + "%",
+        description: "Correlation reduction for SME corporates",
+      },
       {
         name: "AVC Multiplier",
         value: safeResults.avcMultiplier ? safeResults.avcMultiplier.toFixed(2) : "N/A",
@@ -393,19 +911,19 @@ function getCorrelationModuleDetails(data, results) {
       {
         name: "Final Correlation",
         value: safeResults.correlation ? (safeResults.correlation * 100).toFixed(2) + "%" : "N/A",
-        description: "Final asset correlation after AVC multiplier",
+        description: "Final asset correlation after SME adjustment and AVC multiplier",
       },
     ],
-    code: "function calculateCorrelation(inputs) {\n  const { pd, isFinancial, isLargeFinancial, isRegulated } = inputs;\n  \n  // Calculate base correlation using Basel formula\n  const term1 = (0.12 * (1 - Math.exp(-50 * pd))) / (1 - Math.exp(-50));\n  const term2 = 0.24 * (1 - (1 - Math.exp(-50 * pd)) / (1 - Math.exp(-50)));\n  \n  const baseCorrelation = term1 + term2;\n  \n  // Determine if AVC multiplier applies\n  let avcMultiplier = 1.0;\n  \n  if (isFinancial) {\n    if (isLargeFinancial || !isRegulated) {\n      avcMultiplier = 1.25; // AVC multiplier for large or unregulated financials\n    }\n  }\n  \n  // Calculate final correlation\n  const correlation = baseCorrelation * avcMultiplier;\n  \n  return {\n    baseCorrelation,\n    avcMultiplier,\n    correlation\n  };\n}",
   }
 }
 
-function getMaturityModuleDetails(data, results) {
+function getMaturityModuleDetails(data: Counterparty, results: RwaResult) {
   // Add null checks for results
   const safeResults = results || {}
 
   // Create a b parameter if it doesn't exist in results
-  const bValue = safeResults.b || (safeResults.pd ? Math.pow(0.11852 - 0.05478 * Math.log(safeResults.pd), 2) : 0)
+  const bValue = safeResults.pd ? Math.pow(0.11852 - 0.05478 * Math.log(safeResults.pd), 2) : 0
+  const { minMaturity, maxMaturity } = getRegulatoryProfile(safeResults.regulatoryProfile)
 
   return {
     title: "Maturity Adjustment Calculator",
@@ -415,7 +933,9 @@ function getMaturityModuleDetails(data, results) {
     formula: "Maturity Adjustment = (1 + (M - 2.5) × b) / (1 - 1.5 × b)\nwhere b = [0.11852 - 0.05478 × ln(PD)]²",
     keyConsiderations: [
       "Longer maturities result in higher capital requirements",
+      "Retail exposures have no maturity adjustment (MA = 1)",
       "The adjustment is calibrated around a baseline maturity of 2.5 years",
+      `Effective maturity is bounded between ${minMaturity} and ${maxMaturity} years`,
       "The 'b' parameter decreases as PD increases (high-risk counterparties are less sensitive to maturity)",
       "Maturity adjustment is typically between 1.0 and 2.0",
     ],
@@ -444,26 +964,25 @@ function getMaturityModuleDetails(data, results) {
         description: "Factor that adjusts capital requirements for maturity",
       },
     ],
-    code: "function calculateMaturityAdjustment(inputs) {\n  const { pd, maturity } = inputs;\n  \n  // Ensure maturity is within bounds (1-5 years)\n  const effectiveMaturity = Math.max(1, Math.min(5, maturity));\n  \n  // Calculate b parameter\n  const b = Math.pow(0.11852 - 0.05478 * Math.log(pd), 2);\n  \n  // Calculate maturity adjustment\n  const maturityAdjustment = (1 + (effectiveMaturity - 2.5) * b) / (1 - 1.5 * b);\n  \n  return {\n    b,\n    effectiveMaturity,\n    maturityAdjustment\n  };\n}",
   }
 }
 
-function getAVCModuleDetails(data, results) {
+function getAVCModuleDetails(data: Counterparty, results: RwaResult) {
   // Add null checks for data and results
   const safeData = data || {}
   const safeResults = results || {}
+  const profile = getRegulatoryProfile(safeResults.regulatoryProfile)
 
   return {
     title: "Asset Value Correlation (AVC) Multiplier",
     description: "Calculates the multiplier applied to asset correlation for financial institutions",
     overview:
       "<p>The Asset Value Correlation (AVC) multiplier increases the correlation for financial institutions to account for their higher systemic risk.</p><p>This module implements the Basel III requirement to apply a 1.25x multiplier to the asset correlation for large regulated financial institutions and all unregulated financial entities.</p>",
-    formula:
-      "For large regulated financial institutions (assets ≥ $100bn) or unregulated financial entities:\nAVC Multiplier = 1.25\nOtherwise:\nAVC Multiplier = 1.00",
+    formula: `For large regulated financial institutions (assets ≥ $100bn) or unregulated financial entities:\nAVC Multiplier = ${profile.avcMultiplier.toFixed(2)}\nOtherwise:\nAVC Multiplier = 1.00`,
     keyConsiderations: [
       "AVC multiplier only applies to financial institutions",
-      "Large financial institutions (assets ≥ $100bn) receive a 1.25x multiplier",
-      "Unregulated financial entities receive a 1.25x multiplier regardless of size",
+      `Large financial institutions (assets ≥ $100bn) receive a ${profile.avcMultiplier}x multiplier under ${profile.name}`,
+      `Unregulated financial entities receive a ${profile.avcMultiplier}x multiplier regardless of size`,
       "The multiplier increases capital requirements to reflect higher interconnectedness",
     ],
     inputs: [
@@ -502,14 +1021,13 @@ function getAVCModuleDetails(data, results) {
       {
         name: "Final Correlation",
         value: safeResults.correlation ? (safeResults.correlation * 100).toFixed(2) + "%" : "N/A",
-        description: "Final asset correlation after AVC multiplier",
+        description: "Final asset correlation after SME adjustment and AVC multiplier",
       },
     ],
-    code: "function calculateAVCMultiplier(inputs) {\n  const { isFinancial, isLargeFinancial, isRegulated, baseCorrelation } = inputs;\n  \n  // Determine if AVC multiplier applies\n  let avcMultiplier = 1.0;\n  \n  if (isFinancial) {\n    if (isLargeFinancial || !isRegulated) {\n      avcMultiplier = 1.25; // AVC multiplier for large or unregulated financials\n    }\n  }\n  \n  // Calculate final correlation\n  const correlation = baseCorrelation * avcMultiplier;\n  \n  return {\n    avcMultiplier,\n    baseCorrelation,\n    correlation\n  };\n}",
   }
 }
 
-function getRWAModuleDetails(data, results) {
+function getRWAModuleDetails(data: Counterparty, results: RwaResult) {
   // Add null checks for data and results
   const safeData = data || {}
   const safeResults = results || {}
@@ -519,6 +1037,8 @@ function getRWAModuleDetails(data, results) {
   const originalRwa = safeResults.originalRwa || safeResults.rwa || 0
   const adjustedRwa = safeResults.rwa || 0
   const adjustmentPercentage = hasAdjustment && originalRwa > 0 ? (adjustedRwa / originalRwa - 1) * 100 : 0
+  const profile = getRegulatoryProfile(safeResults.regulatoryProfile)
+  const scaling = profile.scalingFactor !== 1 ? ` × ${profile.scalingFactor}` : ""
 
   // Use rwaDensity directly from the results if available
   let rwaDensity = safeResults.rwaDensity
@@ -537,16 +1057,6 @@ function getRWAModuleDetails(data, results) {
     }
   }
 
-  // Debug information
-  console.log("RWA Density in Module Details:", {
-    ead: safeData.ead,
-    rwa: adjustedRwa,
-    rwaDensity: rwaDensity,
-    resultsRwaDensity: safeResults.rwaDensity,
-    eadType: typeof safeData.ead,
-    rwaType: typeof adjustedRwa,
-  })
-
   return {
     title: "Risk-Weighted Assets (RWA) Calculator",
     description: "Calculates the risk-weighted assets for credit risk under the Advanced IRB approach",
@@ -556,13 +1066,13 @@ function getRWAModuleDetails(data, results) {
         ? `<p class="text-purple-600 dark:text-purple-400">Note: This RWA value includes manual adjustments. Baseline model RWA: $${Math.round(originalRwa).toLocaleString()}.</p>`
         : ""),
     formula:
-      "K = LGD × N[(1 - R)^(-0.5) × G(PD) + (R / (1 - R))^(0.5) × G(0.999)] × Maturity Adjustment\nRWA = K × 12.5 × EAD" +
+      `K = LGD × [N((1 - R)^(-0.5) × G(PD) + (R / (1 - R))^(0.5) × G(${profile.confidenceLevel})) - PD] × Maturity Adjustment\nRWA = K × ${profile.rwaMultiplier}${scaling} × EAD` +
       (hasAdjustment
         ? `<br><span class="text-purple-600 dark:text-purple-400">Adjusted RWA = Model RWA + Adjustment</span>`
         : ""),
     keyConsiderations: [
       "RWA increases with higher PD, LGD, EAD, correlation, and maturity",
-      "The formula uses a 99.9% confidence level (Basel standard)",
+      `The formula uses a ${profile.confidenceLevel * 100}% confidence level under ${profile.name}`,
       "RWA density (RWA/EAD) typically ranges from 20% to 250% depending on risk parameters",
       "Manual adjustments can be applied to reflect factors not captured by the model",
       "RWA is the final output used for capital requirement calculations",
@@ -580,9 +1090,10 @@ function getRWAModuleDetails(data, results) {
         description: "Loss Given Default",
       },
       {
-        name: "EAD",
-        value: safeData.ead ? "$" + Math.round(Number(safeData.ead)).toLocaleString() : "N/A",
-        rawValue: safeData.ead,
+        // EAD derived from facilities is not editable here
+        name: safeResults.facilities?.length ? "Total EAD" : "EAD",
+        value: safeResults.ead ? "$" + Math.round(Number(safeResults.ead)).toLocaleString() : "N/A",
+        rawValue: safeResults.ead,
         description: "Exposure at Default",
       },
       {
@@ -627,6 +1138,5 @@ function getRWAModuleDetails(data, results) {
         description: "RWA as a percentage of EAD",
       },
     ],
-    code: "function calculateRWA(inputs) {\n  const { pd, lgd, ead, correlation, maturityAdjustment } = inputs;\n  \n  // Calculate capital requirement (K)\n  const term1 = normInv(pd);\n  const term2 = Math.sqrt(correlation) * normInv(0.999);\n  const term3 = Math.sqrt(1 - correlation);\n  \n  const conditionalPD = normCDF((term1 + term2) / term3);\n  \n  // Calculate capital requirement before maturity adjustment\n  let k = lgd * conditionalPD;\n  \n  // Apply maturity adjustment\n  k *= maturityAdjustment;\n  \n  // Calculate RWA\n  const rwa = k * 12.5 * ead;\n  \n  // Any manual adjustments would be applied here\n  // adjustedRWA = rwa + adjustment;\n  \n  return {\n    k,\n    rwa\n  };\n}",
   }
 }
@@ -1,6 +1,15 @@
 // This file contains explanations for each module in the RWA calculator
 
-export function getModuleExplanation(moduleId) {
+import { getRegulatoryProfile } from "@/lib/regulatory-profiles"
+import type { RegulatoryProfileId } from "@/lib/types"
+
+// Explanation of a module, labelled with the regulatory profile its figures refer to
+export function getModuleExplanation(moduleId: string, regulatoryProfile?: RegulatoryProfileId) {
+  const explanation = getBaseModuleExplanation(moduleId)
+  return explanation && { ...explanation, regulatoryProfile: getRegulatoryProfile(regulatoryProfile).name }
+}
+
+function getBaseModuleExplanation(moduleId: string) {
   if (moduleId === "pd") {
     return {
       title: "Point-in-Time PD Module",
@@ -162,6 +171,100 @@ export function getModuleExplanation(moduleId) {
         "Correlation between PD and LGD should be assessed, as they tend to increase together during economic downturns.",
       ],
     }
+  } else if (moduleId === "collateral") {
+    return {
+      title: "Collateral Module",
+      description:
+        "Shows the collateral pledged against the exposure and how much of it is recognised in the Foundation IRB LGD.",
+      purpose: "To derive a supervisory LGD from the collateral package when the bank does not model LGD itself.",
+      businessContext:
+        "Collateral lowers the loss the bank expects to suffer on default. Under F-IRB the benefit is set by supervisory rules rather than internal recovery data.",
+      regulatoryContext:
+        "Basel F-IRB assigns supervisory LGDs to unsecured claims by seniority. Eligible collateral reduces LGD using supervisory haircuts, minimum coverage (C*) and full coverage (C**) ratios. Basel III lowers the secured LGDs to 20-25%, applies a 40% haircut to non-financial collateral and drops the minimum coverage.",
+      formula: [
+        "E* = max(0, EAD - Financial Collateral × (1 - H))",
+        "Secured Exposure = min(E*, Collateral Value / C**)",
+        "LGD = [Σ(Secured Exposure × LGD_collateral) + Unsecured Exposure × LGD_unsecured] / EAD",
+      ],
+      formulaExplanation:
+        "Financial collateral is applied first. The remaining exposure is then secured by receivables, real estate and other physical collateral, each at its supervisory LGD, and any uncovered part takes the unsecured LGD.",
+      examples: [
+        "Under Basel III, a $10M senior exposure with $5M of real estate collateral has $3M secured at 20% and $7M unsecured at 40%, giving an LGD of 34%.",
+        "Under Basel II, real estate worth 20% of the exposure is below the 30% minimum coverage threshold and is not recognised.",
+      ],
+      inputParameters: [
+        {
+          name: "Collateral Type",
+          description: "Financial, receivables, real estate or other physical collateral.",
+        },
+        {
+          name: "Collateral Value",
+          description: "The current market value of the collateral.",
+        },
+        {
+          name: "Seniority",
+          description: "Senior or subordinated, which sets the unsecured LGD.",
+        },
+      ],
+      outputParameters: [
+        {
+          name: "Secured Exposure",
+          description: "The part of the exposure covered by recognised collateral.",
+        },
+        {
+          name: "F-IRB LGD",
+          description: "The exposure-weighted supervisory LGD.",
+        },
+      ],
+      keyConsiderations: [
+        "Collateral must be legally enforceable and regularly revalued.",
+        "Under Basel II, real estate and other physical collateral are only recognised above the 30% minimum coverage threshold.",
+        "Full recognition requires collateral of 125% (receivables) or 140% (real estate, other physical) of the exposure under Basel II, and 167% of it under Basel III.",
+      ],
+    }
+  } else if (moduleId === "facilities") {
+    return {
+      title: "Facilities Module",
+      description:
+        "Lists the credit facilities that make up the exposure to the counterparty, split into drawn and undrawn amounts.",
+      purpose: "To provide the facility-level balances from which EAD is derived.",
+      businessContext:
+        "A counterparty usually has several facilities, such as a term loan, a revolving credit line and guarantees. Each behaves differently as the counterparty approaches default.",
+      regulatoryContext:
+        "Basel CRE32 sets supervisory CCFs by facility type: 75% for commitments, 10% for unconditionally cancellable commitments, 20% for trade finance, 50% for performance guarantees and 100% for financial guarantees.",
+      formula: ["Total Commitment = Σ(Drawn + Undrawn)"],
+      formulaExplanation:
+        "Drawn balances are on-balance sheet exposure. Undrawn commitments and guarantees are off-balance sheet and are converted to exposure in the EAD module.",
+      examples: ["A $10M revolving credit line with $4M drawn has $6M undrawn, which at a 75% CCF adds $4.5M of EAD."],
+      inputParameters: [
+        {
+          name: "Facility Type",
+          description: "Determines the regulatory CCF applied to the undrawn amount.",
+        },
+        {
+          name: "Drawn Balance",
+          description: "The amount currently outstanding.",
+        },
+        {
+          name: "Undrawn Commitment",
+          description: "The amount the counterparty can still draw.",
+        },
+        {
+          name: "CCF Override",
+          description: "Optional CCF replacing the regulatory value for a single facility.",
+        },
+      ],
+      outputParameters: [
+        {
+          name: "Total Commitment",
+          description: "The sum of drawn and undrawn amounts across all facilities.",
+        },
+      ],
+      keyConsiderations: [
+        "Guarantees are usually fully undrawn until called.",
+        "Stressing undrawn utilisation shows how RWA grows if the counterparty draws down its lines ahead of default.",
+      ],
+    }
   } else if (moduleId === "ead") {
     return {
       title: "Exposure at Default (EAD) Module",
@@ -219,6 +322,166 @@ export function getModuleExplanation(moduleId) {
         "Netting agreements and collateral arrangements can reduce EAD.",
       ],
     }
+  } else if (moduleId === "sme") {
+    return {
+      title: "SME Firm-Size Adjustment Module",
+      description: "Lowers the asset correlation of small and medium-sized corporates based on their annual sales.",
+      purpose: "To reflect that smaller firms are less sensitive to the overall economy than large corporates.",
+      businessContext:
+        "SME defaults are driven more by firm-specific factors than by the economic cycle. A lower correlation reduces the capital held against SME lending.",
+      regulatoryContext:
+        "Basel CRE31.9 allows banks to reduce the corporate correlation for borrowers in consolidated groups with reported annual sales below €50m.",
+      formula: [
+        "SME Adjustment = 0.04 × (1 - (S - 5) / 45)",
+        "Where S is annual sales in € millions, floored at 5",
+        "R = Base Correlation - SME Adjustment",
+      ],
+      formulaExplanation:
+        "The reduction is 4 percentage points for firms with sales of €5m or less and falls linearly to zero at €50m. Larger firms and financial institutions receive no reduction.",
+      examples: [
+        "A corporate with €20m of sales has S = 20, so its correlation is reduced by 0.04 × (1 - 15/45) = 2.67 percentage points.",
+        "A corporate with €3m of sales is treated as €5m and receives the full 4 percentage point reduction.",
+      ],
+      inputParameters: [
+        {
+          name: "Annual Sales",
+          description: "The counterparty's reported revenue.",
+        },
+        {
+          name: "Is Financial Institution",
+          description: "Financial institutions are not eligible for the adjustment.",
+        },
+      ],
+      outputParameters: [
+        {
+          name: "Correlation Reduction",
+          description: "The amount subtracted from the base correlation.",
+        },
+      ],
+      keyConsiderations: [
+        "Sales should be measured at the level of the consolidated group.",
+        "Revenue is taken to be in euros; convert other currencies before applying the €50m threshold.",
+        "Switching the adjustment off shows the capital impact of the SME treatment.",
+      ],
+    }
+  } else if (moduleId === "default") {
+    return {
+      title: "Defaulted Exposure Module",
+      description: "Calculates capital for counterparties that are already in default.",
+      purpose: "To hold capital for the risk that losses on a defaulted exposure exceed the bank's best estimate.",
+      businessContext:
+        "After default the question is no longer whether the borrower will default but how much will be recovered. Provisions cover the expected loss, and capital covers the uncertainty around it.",
+      regulatoryContext:
+        "Basel CRE31.3 sets K for a defaulted exposure to the greater of zero and the LGD less the bank's best estimate of expected loss (ELBE).",
+      formula: ["K = max(0, LGD - ELBE)", "RWA = K × 12.5 × EAD"],
+      formulaExplanation:
+        "The LGD for a defaulted exposure includes an allowance for unexpected losses during the recovery period. Only the part above ELBE needs capital.",
+      examples: [
+        "A defaulted loan with LGD 55%, ELBE 45% and EAD $10m has K = 10%, so RWA is 10% × 12.5 × $10m = $12.5m.",
+        "An F-IRB exposure has ELBE equal to its 45% supervisory LGD, so K = 0.",
+      ],
+      inputParameters: [
+        {
+          name: "LGD",
+          description: "Loss given default including the unexpected loss add-on.",
+        },
+        {
+          name: "ELBE",
+          description: "The bank's best estimate of expected loss, entered in the credit review.",
+        },
+      ],
+      outputParameters: [
+        {
+          name: "Capital Requirement (K)",
+          description: "Capital held as a share of EAD.",
+        },
+      ],
+      keyConsiderations: [
+        'Counterparties with a "D" rating or a PD of 100% are treated as defaulted automatically.',
+        "ELBE should reflect current economic conditions and the status of the recovery.",
+        "Without an ELBE the exposure is assumed to be fully provisioned at its LGD.",
+      ],
+    }
+  } else if (moduleId === "slotting") {
+    return {
+      title: "Supervisory Slotting Module",
+      description: "Risk-weights specialised lending by supervisory category and remaining maturity.",
+      purpose: "To calculate capital for specialised lending where the bank cannot estimate a reliable PD.",
+      businessContext:
+        "Project, object, commodity and income-producing real estate finance depend on the cash flows of a single asset. Banks grade these deals against supervisory criteria instead of a rating model.",
+      regulatoryContext:
+        "Basel CRE33.5-33.12 sets the slotting risk weights, and CRE35.6 the matching expected loss rates. Supervisors may allow the lower weights for Strong and Good exposures with less than 2.5 years to maturity.",
+      formula: ["RWA = Risk Weight × EAD", "K = Risk Weight / 12.5"],
+      formulaExplanation:
+        "The risk weight is read from a table by slotting category and remaining maturity bucket. No PD, LGD, correlation or maturity adjustment is used.",
+      examples: [
+        "A Good project finance loan with 4 years remaining and $10m EAD has a 90% risk weight, so RWA is $9m.",
+        "The same loan with 2 years remaining falls in the short bucket and has a 70% risk weight, so RWA is $7m.",
+      ],
+      inputParameters: [
+        {
+          name: "Slotting Category",
+          description: "Strong, Good, Satisfactory, Weak or Default.",
+        },
+        {
+          name: "Remaining Maturity",
+          description: "Sets the maturity bucket; each facility is bucketed on its own maturity.",
+        },
+      ],
+      outputParameters: [
+        {
+          name: "Risk Weight",
+          description: "The supervisory risk weight applied to EAD.",
+        },
+        {
+          name: "Expected Loss Rate",
+          description: "The supervisory expected loss as a share of EAD.",
+        },
+      ],
+      keyConsiderations: [
+        "Defaulted exposures have a 0% risk weight because the 50% expected loss rate covers them.",
+        "Slotting categories should be reviewed with the same frequency as internal ratings.",
+        "High-volatility commercial real estate has its own, higher risk weights, which are not modelled here.",
+      ],
+    }
+  } else if (moduleId === "el") {
+    return {
+      title: "Expected Loss Module",
+      description: "Calculates the IRB expected loss and compares it with provisions.",
+      purpose: "To check that provisions cover expected losses, since IRB capital only covers unexpected loss.",
+      businessContext:
+        "Expected loss is the average loss the bank anticipates and should be priced and provisioned for. Comparing it with provisions shows whether the balance sheet already absorbs it.",
+      regulatoryContext:
+        "Basel CRE35 requires IRB banks to compare total expected loss with total eligible provisions. A shortfall is deducted from CET1, and an excess may be added to Tier 2 up to 0.6% of credit RWA.",
+      formula: ["EL = PD × LGD × EAD", "Shortfall = max(0, EL - Provisions)", "Excess = max(0, Provisions - EL)"],
+      formulaExplanation:
+        "EL uses the same floored PD and LGD as the capital requirement. Slotted exposures use the supervisory EL rate and defaulted exposures use ELBE.",
+      examples: [
+        "A loan with PD 1%, LGD 40% and EAD $10m has EL of $40,000. Provisions of $25,000 leave a $15,000 shortfall.",
+        "A defaulted loan with ELBE 45% and EAD $2m has EL of $900,000.",
+      ],
+      inputParameters: [
+        {
+          name: "Provisions",
+          description: "Specific and general provisions held against the counterparty.",
+        },
+      ],
+      outputParameters: [
+        {
+          name: "Expected Loss",
+          description: "EL summed across the counterparty's facilities.",
+        },
+        {
+          name: "Shortfall / Excess",
+          description: "The gap between EL and provisions.",
+        },
+      ],
+      keyConsiderations: [
+        "Shortfalls and excesses are netted across the portfolio before the capital treatment applies.",
+        "Provisions on standardised exposures are not eligible.",
+        "The Tier 2 cap limits the benefit of over-provisioning.",
+      ],
+    }
   } else if (moduleId === "correlation") {
     return {
       title: "Asset Correlation Module",
@@ -391,7 +654,7 @@ export function getModuleExplanation(moduleId) {
       formula: [
         "RWA = K × 12.5 × EAD",
         "Where:",
-        "K = LGD × N[(1-R)^(-0.5) × G(PD) + (R/(1-R))^(0.5) × G(0.999)] × Maturity Adjustment",
+        "K = LGD × [N((1-R)^(-0.5) × G(PD) + (R/(1-R))^(0.5) × G(0.999)) - PD] × Maturity Adjustment",
         "N = Cumulative standard normal distribution function",
         "G = Inverse cumulative standard normal distribution function",
         "R = Asset correlation",
@@ -0,0 +1,336 @@
+// Regression Cases
+// Reference counterparties with the engine outputs recorded when the baseline was taken
+// Any change to the formulas shows up as a failing test against these values when the test suite runs
+// Rebaseline with calculateRegressionValues once a methodology change has been approved
+
+import { calculateRWA } from "@/lib/rwa-calculator"
+import type { Counterparty, RegressionCase, RegressionValues } from "@/lib/types"
+
+// Large corporate that every case starts from: PD 1%, LGD 45%, M 2.5, no SME adjustment or AVC
+export const REFERENCE_COUNTERPARTY: Counterparty = {
+  id: "reference",
+  name: "Reference Corporate",
+  industry: "Manufacturing",
+  region: "Europe",
+  pd: 0.01,
+  ttcPd: 0.01,
+  lgd: 0.45,
+  ead: 1000000,
+  maturity: 2.5,
+  revenue: 500000000,
+  isFinancial: false,
+  isLargeFinancial: false,
+  isRegulated: false,
+}
+
+// Calculated under a fixed profile so that changing the default profile does not move the baselines
+export const REGRESSION_OPTIONS = { regulatoryProfile: "baselIII" } as const
+
+export const REGRESSION_CASES: RegressionCase[] = [
+  {
+    id: "corporate",
+    name: "Corporate, PD 1%",
+    counterparty: {},
+    expected: {
+      correlation: 0.192783679165516,
+      maturityAdjustment: 1.2598095009238282,
+      k: 0.07385344111364114,
+      rwa: 923168.0139205143,
+    },
+  },
+  {
+    id: "corporate-high-pd",
+    name: "Corporate, PD 10%",
+    counterparty: { pd: 0.1, ttcPd: 0.1 },
+    expected: {
+      correlation: 0.12080855363989025,
+      maturityAdjustment: 1.098640989344795,
+      k: 0.1544695244372309,
+      rwa: 1930869.055465386,
+    },
+  },
+  {
+    id: "corporate-short-maturity",
+    name: "Corporate, maturity below the 1 year bound",
+    counterparty: { maturity: 0.5 },
+    expected: {
+      correlation: 0.192783679165516,
+      maturityAdjustment: 1,
+      k: 0.05862270530543216,
+      rwa: 732783.8163179021,
+    },
+  },
+  {
+    id: "corporate-pd-floor",
+    name: "Corporate, PD below the 5 bps floor",
+    counterparty: { pd: 0.0002, ttcPd: 0.0002 },
+    expected: {
+      correlation: 0.2370371894433999,
+      maturityAdjustment: 1.7518439524717495,
+      k: 0.01572093309632543,
+      rwa: 196511.66370406788,
+    },
+  },
+  {
+    id: "sme",
+    name: "SME corporate, sales of 20m",
+    counterparty: { revenue: 20000000 },
+    expected: {
+      correlation: 0.16611701249884933,
+      maturityAdjustment: 1.2598095009238282,
+      k: 0.06312324146687363,
+      rwa: 789040.5183359204,
+    },
+  },
+  {
+    id: "large-financial",
+    name: "Large regulated financial (AVC)",
+    counterparty: { industry: "Banking", isFinancial: true, isLargeFinancial: true, isRegulated: true },
+    expected: {
+      correlation: 0.240979598956895,
+      maturityAdjustment: 1.2598095009238282,
+      k: 0.09435951200689222,
+      rwa: 1179493.9000861526,
+    },
+  },
+  {
+    id: "residential-mortgage",
+    name: "Residential mortgage",
+    counterparty: { assetClass: "residentialMortgage", lgd: 0.2 },
+    expected: {
+      correlation: 0.15,
+      maturityAdjustment: 1,
+      k: 0.020052951310949228,
+      rwa: 250661.89138686535,
+    },
+  },
+  {
+    id: "qrre",
+    name: "Qualifying revolving retail",
+    counterparty: { assetClass: "qualifyingRevolvingRetail", pd: 0.03, ttcPd: 0.03, lgd: 0.8 },
+    expected: {
+      correlation: 0.04,
+      maturityAdjustment: 1,
+      k: 0.054989010303337096,
+      rwa: 687362.6287917137,
+    },
+  },
+  {
+    id: "other-retail",
+    name: "Other retail",
+    counterparty: { assetClass: "otherRetail", pd: 0.02, ttcPd: 0.02 },
+    expected: {
+      correlation: 0.09455608949288319,
+      maturityAdjustment: 1,
+      k: 0.04638915438039423,
+      rwa: 579864.4297549279,
+    },
+  },
+  {
+    id: "slotting",
+    name: "Project finance slotted as Good",
+    counterparty: { specialisedLending: { type: "projectFinance", category: "good" } },
+    expected: {
+      correlation: 0,
+      maturityAdjustment: 1,
+      k: 0.07200000000000001,
+      rwa: 900000.0000000001,
+    },
+  },
+  {
+    id: "defaulted",
+    name: "Defaulted, ELBE 30%",
+    counterparty: { isDefaulted: true, elbe: 0.3 },
+    expected: {
+      correlation: 0.192783679165516,
+      maturityAdjustment: 1,
+      k: 0.15000000000000002,
+      rwa: 1875000.0000000002,
+    },
+  },
+  {
+    id: "adjustment-absolute",
+    name: "Absolute counterparty adjustment",
+    counterparty: { rwaAdjustment: { type: "absolute", adjustedRWA: 1500000 } },
+    expected: {
+      correlation: 0.192783679165516,
+      maturityAdjustment: 1.2598095009238282,
+      k: 0.07385344111364114,
+      rwa: 1500000,
+    },
+  },
+  {
+    id: "adjustment-additive",
+    name: "Additive counterparty adjustment",
+    counterparty: { rwaAdjustment: { type: "additive", adjustment: 250000 } },
+    expected: {
+      correlation: 0.192783679165516,
+      maturityAdjustment: 1.2598095009238282,
+      k: 0.07385344111364114,
+      rwa: 1173168.0139205144,
+    },
+  },
+  {
+    id: "adjustment-multiplicative",
+    name: "Multiplicative counterparty adjustment",
+    counterparty: { rwaAdjustment: { type: "multiplicative", multiplier: 1.2 } },
+    expected: {
+      correlation: 0.192783679165516,
+      maturityAdjustment: 1.2598095009238282,
+      k: 0.07385344111364114,
+      rwa: 1107801.6167046172,
+    },
+  },
+  {
+    id: "adjustment-percentage",
+    name: "Percentage counterparty adjustment",
+    counterparty: { rwaAdjustment: { type: "percentage", value: -15 } },
+    expected: {
+      correlation: 0.192783679165516,
+      maturityAdjustment: 1.2598095009238282,
+      k: 0.07385344111364114,
+      rwa: 784692.8118324371,
+    },
+  },
+  {
+    id: "portfolio-absolute",
+    name: "Absolute portfolio adjustment",
+    counterparty: { portfolioRwaAdjustment: { type: "absolute", adjustedRWA: 800000 } },
+    expected: {
+      correlation: 0.192783679165516,
+      maturityAdjustment: 1.2598095009238282,
+      k: 0.07385344111364114,
+      rwa: 800000,
+    },
+  },
+  {
+    id: "portfolio-additive",
+    name: "Additive portfolio adjustment",
+    counterparty: { portfolioRwaAdjustment: { type: "additive", adjustment: -100000 } },
+    expected: {
+      correlation: 0.192783679165516,
+      maturityAdjustment: 1.2598095009238282,
+      k: 0.07385344111364114,
+      rwa: 823168.0139205143,
+    },
+  },
+  {
+    id: "portfolio-multiplicative",
+    name: "Multiplicative portfolio adjustment",
+    counterparty: { portfolioRwaAdjustment: { type: "multiplicative", multiplier: 1.1 } },
+    expected: {
+      correlation: 0.192783679165516,
+      maturityAdjustment: 1.2598095009238282,
+      k: 0.07385344111364114,
+      rwa: 1015484.8153125658,
+    },
+  },
+  {
+    id: "layered-absolute-multiplicative",
+    name: "Absolute counterparty then multiplicative portfolio adjustment",
+    counterparty: {
+      rwaAdjustment: { type: "absolute", adjustedRWA: 1500000 },
+      portfolioRwaAdjustment: { type: "multiplicative", multiplier: 1.1 },
+    },
+    expected: {
+      correlation: 0.192783679165516,
+      maturityAdjustment: 1.2598095009238282,
+      k: 0.07385344111364114,
+      rwa: 1650000.0000000002,
+    },
+  },
+  {
+    id: "layered-additive-additive",
+    name: "Additive counterparty then additive portfolio adjustment",
+    counterparty: {
+      rwaAdjustment: { type: "additive", adjustment: 250000 },
+      portfolioRwaAdjustment: { type: "additive", adjustment: -100000 },
+    },
+    expected: {
+      correlation: 0.192783679165516,
+      maturityAdjustment: 1.2598095009238282,
+      k: 0.07385344111364114,
+      rwa: 1073168.0139205144,
+    },
+  },
+  {
+    id: "layered-multiplicative-absolute",
+    name: "Multiplicative counterparty then absolute portfolio adjustment",
+    counterparty: {
+      rwaAdjustment: { type: "multiplicative", multiplier: 1.2 },
+      portfolioRwaAdjustment: { type: "absolute", adjustedRWA: 800000 },
+    },
+    expected: {
+      correlation: 0.192783679165516,
+      maturityAdjustment: 1.2598095009238282,
+      k: 0.07385344111364114,
+      rwa: 800000,
+    },
+  },
+  {
+    id: "layered-percentage-multiplicative",
+    name: "Percentage counterparty then multiplicative portfolio adjustment",
+    counterparty: {
+      rwaAdjustment: { type: "percentage", value: -15 },
+      portfolioRwaAdjustment: { type: "multiplicative", multiplier: 1.1 },
+    },
+    expected: {
+      correlation: 0.192783679165516,
+      maturityAdjustment: 1.2598095009238282,
+      k: 0.07385344111364114,
+      rwa: 863162.0930156808,
+    },
+  },
+]
+
+// Build the counterparty of a regression case from the reference counterparty
+export function getRegressionCounterparty(testCase: Pick<RegressionCase, "counterparty">): Counterparty {
+  return { ...REFERENCE_COUNTERPARTY, ...testCase.counterparty }
+}
+
+// Current engine outputs for a regression case, in the shape of its baseline
+export function calculateRegressionValues(testCase: Omit<RegressionCase, "expected">): RegressionValues {
+  const result = calculateRWA(getRegressionCounterparty(testCase), { ...REGRESSION_OPTIONS, ...testCase.options })
+
+  return {
+    correlation: result.correlation,
+    maturityAdjustment: result.maturityAdjustment,
+    k: result.k,
+    rwa: result.rwa,
+  }
+}
+
+// Through-the-cycle PD for fixed inputs, recorded when the baseline was taken
+export const TTC_PD_CASES: {
+  name: string
+  inputs: { pointInTimePd: number; macroeconomicIndex?: number; longTermAverage?: number; cyclicality?: number }
+  expected: number
+}[] = [
+  {
+    name: "Neutral economy",
+    inputs: { pointInTimePd: 0.01, macroeconomicIndex: 0.5, longTermAverage: 0.02, cyclicality: 0.5 },
+    expected: 0.013,
+  },
+  {
+    name: "Weak economy, cyclical sector",
+    inputs: { pointInTimePd: 0.01, macroeconomicIndex: 0.2, longTermAverage: 0.02, cyclicality: 0.8 },
+    expected: 0.01636,
+  },
+  {
+    name: "Strong economy, defensive sector",
+    inputs: { pointInTimePd: 0.03, macroeconomicIndex: 0.9, longTermAverage: 0.015, cyclicality: 0.3 },
+    expected: 0.02046,
+  },
+  { name: "Default inputs", inputs: { pointInTimePd: 0.05 }, expected: 0.041 },
+  { name: "Invalid PD", inputs: { pointInTimePd: NaN }, expected: 0.013 },
+]
+
+// Closest rating for a PD
+export const RATING_CASES: { pd: number; expected: string }[] = [
+  { pd: 0.0001, expected: "AAA" },
+  { pd: 0.0022, expected: "BBB" },
+  { pd: 0.01, expected: "BB" },
+  { pd: 0.05, expected: "B" },
+  { pd: 0.27, expected: "CC" },
+  { pd: 1, expected: "D" },
+]
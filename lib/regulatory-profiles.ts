@@ -0,0 +1,87 @@
+// Regulatory Parameter Profiles
+// Bundles the constants of the IRB formula, floors and scaling for each Basel version and jurisdiction
+
+import { CORPORATE_CORRELATION_BOUNDS } from "@/lib/correlation-calculator"
+import {
+  A_IRB_LGD_FLOORS,
+  BASEL_II_COLLATERAL_RULES,
+  BASEL_II_SUPERVISORY_LGD,
+  BASEL_III_COLLATERAL_RULES,
+  BASEL_III_SUPERVISORY_LGD,
+} from "@/lib/lgd-calculator"
+import { OUTPUT_FLOOR } from "@/lib/standardised-calculator"
+import { BASEL_II_PD_FLOOR, BASEL_III_PD_FLOOR } from "@/lib/ttc-pd-calculator"
+import type { RegulatoryProfile, RegulatoryProfileId } from "@/lib/types"
+
+export const DEFAULT_REGULATORY_PROFILE: RegulatoryProfileId = "baselIII"
+
+// Parameters shared by every profile unless overridden
+const IRB_FORMULA_PARAMETERS = {
+  confidenceLevel: 0.999,
+  rwaMultiplier: 12.5,
+  minMaturity: 1,
+  maxMaturity: 5,
+  corporateCorrelation: CORPORATE_CORRELATION_BOUNDS,
+}
+
+export const REGULATORY_PROFILES: Record<RegulatoryProfileId, RegulatoryProfile> = {
+  baselII: {
+    ...IRB_FORMULA_PARAMETERS,
+    id: "baselII",
+    name: "Basel II",
+    description: "IRB RWA scaled by 1.06, 3 bps PD floor, no LGD floors, AVC multiplier or output floor",
+    scalingFactor: 1.06,
+    avcMultiplier: 1.0,
+    pdFloor: BASEL_II_PD_FLOOR,
+    lgdFloors: null,
+    supervisoryLgd: BASEL_II_SUPERVISORY_LGD,
+    collateralRules: BASEL_II_COLLATERAL_RULES,
+    outputFloor: 0,
+  },
+  baselIII: {
+    ...IRB_FORMULA_PARAMETERS,
+    id: "baselIII",
+    name: "Basel III (final)",
+    description: "2017 reforms: no scaling factor, 5 bps PD floor, A-IRB LGD floors and a 72.5% output floor",
+    scalingFactor: 1.0,
+    avcMultiplier: 1.25,
+    pdFloor: BASEL_III_PD_FLOOR,
+    lgdFloors: A_IRB_LGD_FLOORS,
+    supervisoryLgd: BASEL_III_SUPERVISORY_LGD,
+    collateralRules: BASEL_III_COLLATERAL_RULES,
+    outputFloor: OUTPUT_FLOOR,
+  },
+  // The output floor is phased in from 50% in 2025 to 72.5% in 2030
+  euCrr3: {
+    ...IRB_FORMULA_PARAMETERS,
+    id: "euCrr3",
+    name: "EU CRR3",
+    description: "Basel III final as applied in the EU, with the 2025 transitional output floor of 50%",
+    scalingFactor: 1.0,
+    avcMultiplier: 1.25,
+    pdFloor: BASEL_III_PD_FLOOR,
+    lgdFloors: A_IRB_LGD_FLOORS,
+    supervisoryLgd: BASEL_III_SUPERVISORY_LGD,
+    collateralRules: BASEL_III_COLLATERAL_RULES,
+    outputFloor: 0.5,
+  },
+  // The output floor is phased in from 60% in 2027 to 72.5% in 2030
+  ukPra: {
+    ...IRB_FORMULA_PARAMETERS,
+    id: "ukPra",
+    name: "UK PRA (Basel 3.1)",
+    description: "Basel III final as applied in the UK, with the 2027 transitional output floor of 60%",
+    scalingFactor: 1.0,
+    avcMultiplier: 1.25,
+    pdFloor: BASEL_III_PD_FLOOR,
+    lgdFloors: A_IRB_LGD_FLOORS,
+    supervisoryLgd: BASEL_III_SUPERVISORY_LGD,
+    collateralRules: BASEL_III_COLLATERAL_RULES,
+    outputFloor: 0.6,
+  },
+}
+
+// Look up a profile, falling back to the default for a missing id
+export function getRegulatoryProfile(id: RegulatoryProfileId = DEFAULT_REGULATORY_PROFILE): RegulatoryProfile {
+  return REGULATORY_PROFILES[id]
+}
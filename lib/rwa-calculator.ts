@@ -1,24 +1,61 @@
 // This file contains the main RWA calculation logic
 // It implements the Basel IRB approach for credit risk
 
-import { normInv, normCDF } from "@/lib/utils"
+import { normalCdf, normalInv } from "@/lib/statistics"
+import { calculateTtcPdComponents } from "@/lib/ttc-pd-calculator"
+import { calculateFirbLgd, calculateLgdFloor } from "@/lib/lgd-calculator"
+import { calculateExposure, getEffectiveCcf } from "@/lib/ead-calculator"
+import { calculateBaseCorrelation, calculateSmeAdjustment, isRetailAssetClass } from "@/lib/correlation-calculator"
+import { calculateDefaultedCapital, DEFAULTED_PD } from "@/lib/default-calculator"
+import { compareWithProvisions } from "@/lib/expected-loss-calculator"
+import { getRegulatoryProfile } from "@/lib/regulatory-profiles"
+import { getMacroConditions, getMacroeconomicIndex } from "@/lib/macro-scenarios"
+import {
+  getSlottingExpectedLossRate,
+  getSlottingMaturityBucket,
+  getSlottingRiskWeight,
+} from "@/lib/slotting-calculator"
+import type {
+  AssetClass,
+  CalculationOptions,
+  CalculationTraceStep,
+  Counterparty,
+  FacilityRwaResult,
+  IrbApproach,
+  RegulatoryProfile,
+  RwaAdjustment,
+  RwaResult,
+  Seniority,
+  SlottingResult,
+} from "@/lib/types"
+
+// Version of the formula set implemented below, stamped on every result
+// Bump this whenever a change to the engine alters any calculated figure
+// 2.0.0: single engine with calculation options, K deducts expected loss (- PD)
+// 2.1.0: F-IRB supervisory LGD from seniority and collateral
+// 2.2.0: EAD derived from facilities with credit conversion factors
+// 2.3.0: RWA calculated per facility with facility LGD and maturity, summed to the counterparty
+// 2.4.0: SME firm-size correlation adjustment for corporates with sales below EUR 50m
+// 2.5.0: retail asset classes with their own correlation and no maturity adjustment
+// 2.6.0: supervisory slotting risk weights for specialised lending
+// 2.7.0: defaulted exposures use K = max(0, LGD - ELBE)
+// 2.8.0: regulatory PD floor and A-IRB LGD floors
+// 2.9.0: expected loss per facility and counterparty, compared with provisions
+// 2.10.0: formula constants, floors and scaling taken from a regulatory profile
+// 2.10.1: F-IRB real estate secures exposure at 140% coverage and senior unsecured LGD follows the profile
+// 2.10.2: F-IRB collateral LGDs and coverage follow the profile, with Basel III haircuts on non-financial collateral
+export const METHODOLOGY_VERSION = "2.10.2"
 
 // Main RWA calculation function
-export function calculateRWA(counterparty) {
-  // Add debug logging for the input counterparty
-  console.log("calculateRWA input:", {
-    counterparty,
-    hasRwaAdjustment: !!counterparty?.rwaAdjustment,
-    hasPortfolioAdjustment: !!counterparty?.portfolioRwaAdjustment,
-  })
+export function calculateRWA(counterparty: Counterparty, options: CalculationOptions = {}): RwaResult {
+  // Steps are only recorded when a trace is requested
+  const trace: CalculationTraceStep[] | undefined = options.trace ? [] : undefined
+  const addTraceStep = (step: CalculationTraceStep) => {
+    trace?.push(step)
+  }
 
   // Extract parameters from counterparty
   const {
-    pd: rawPitPd,
-    ttcPd: rawTtcPd,
-    lgd: rawLgd,
-    ead: rawEad,
-    maturity: rawMaturity,
     isFinancial,
     isLargeFinancial,
     isRegulated,
@@ -26,140 +63,461 @@ export function calculateRWA(counterparty) {
     creditRatingPd,
     rwaAdjustment,
     portfolioRwaAdjustment,
-  } = counterparty || {}
+    specialisedLending,
+  } = counterparty
 
-  // Ensure we have numeric values with fallbacks
-  const pitPd = ensureNumber(rawPitPd, 0.01) // Default PIT PD of 1% if not provided
-  const ttcPd = useCredRatingPd && creditRatingPd ? ensureNumber(creditRatingPd) : ensureNumber(rawTtcPd || rawPitPd)
-  const lgd = ensureNumber(rawLgd, 0.45) // Default LGD of 45% if not provided
-  const ead = ensureNumber(rawEad, 0)
-  const maturity = ensureNumber(rawMaturity, 2.5) // Default maturity of 2.5 years if not provided
+  const {
+    pdOverride = null,
+    ttcPdOverride = null,
+    lgdOverride = null,
+    eadOverride = null,
+    maturityOverride = null,
+    correlationOverride = null,
+    undrawnUtilisation = null,
+    useSmeAdjustment = true,
+    useMaturityAdjustment = true,
+    useBaselFormula = true,
+    regulatoryProfile,
+    macroScenario,
+  } = options
+
+  // Formula constants, floors and scaling come from the regulatory profile; explicit options take precedence
+  const profile = getRegulatoryProfile(regulatoryProfile)
+  const pdFloor = options.pdFloor ?? profile.pdFloor
+  const lgdFloors = options.lgdFloors !== undefined ? options.lgdFloors : profile.lgdFloors
+  const financialAvcMultiplier = options.avcMultiplier ?? profile.avcMultiplier
+  // K is converted to RWA with 12.5, times the Basel II scaling factor where it applies
+  const rwaFactor = profile.rwaMultiplier * (options.scalingFactor ?? profile.scalingFactor)
+
+  addTraceStep({
+    stage: "input",
+    label: "Counterparty inputs",
+    values: {
+      pd: counterparty.pd,
+      ttcPd: counterparty.ttcPd,
+      lgd: counterparty.lgd,
+      ead: counterparty.ead,
+      maturity: counterparty.maturity,
+      facilities: counterparty.facilities?.length ?? 0,
+      isFinancial,
+      isLargeFinancial,
+      isRegulated,
+      revenue: counterparty.revenue ?? null,
+    },
+  })
+  addTraceStep({
+    stage: "default",
+    label: "Defaults and overrides",
+    values: {
+      regulatoryProfile: profile.id,
+      macroScenario: macroScenario ?? null,
+      assetClass: counterparty.assetClass ?? "corporate (default)",
+      irbApproach: counterparty.irbApproach ?? "AIRB (default)",
+      pdFloor,
+      lgdFloors: lgdFloors ? "applied" : "off",
+      rwaFactor,
+      avcMultiplier: financialAvcMultiplier,
+      pdOverride,
+      ttcPdOverride,
+      lgdOverride,
+      eadOverride,
+      maturityOverride,
+      correlationOverride,
+      undrawnUtilisation,
+      useSmeAdjustment,
+      useMaturityAdjustment,
+      useBaselFormula,
+    },
+  })
 
-  // Calculate correlation using Basel formula
-  const baseCorrelation = calculateBaseCorrelation(ttcPd)
+  // Use overrides if provided
+  const pitPd = pdOverride ?? counterparty.pd
+  const exposure = calculateExposure(counterparty, undrawnUtilisation)
+  const ead = eadOverride ?? exposure.ead
+
+  addTraceStep({
+    stage: "input",
+    label: "Exposure at default",
+    values: {
+      drawn: exposure.drawn,
+      undrawn: exposure.undrawn,
+      effectiveCcf: getEffectiveCcf(exposure),
+      calculatedEad: exposure.ead,
+      eadOverride,
+      ead,
+    },
+  })
 
-  // Apply AVC multiplier for financial institutions
-  const avcMultiplier = calculateAVCMultiplier(isFinancial, isLargeFinancial, isRegulated)
-  const correlation = baseCorrelation * avcMultiplier
+  // Re-derive the model TTC PD when the PIT PD is overridden or a macro scenario sets the economic conditions
+  const macroConditions = macroScenario ? getMacroConditions(macroScenario, counterparty.region) : null
+  const ttcPdComponents =
+    pdOverride === null && !macroScenario
+      ? null
+      : calculateTtcPdComponents({
+          pointInTimePd: pitPd,
+          macroeconomicIndex: macroScenario
+            ? getMacroeconomicIndex(macroScenario, counterparty.region, counterparty.industry)
+            : counterparty.macroeconomicIndex,
+          longTermAverage: counterparty.longTermAverage,
+          cyclicality: counterparty.cyclicality,
+        })
+  const modelTtcPd = ttcPdComponents?.ttcPd ?? counterparty.ttcPd
+
+  // Use the rating-based PD when the credit review selected it
+  const ratingTtcPd = useCredRatingPd && creditRatingPd !== undefined ? creditRatingPd : modelTtcPd
+  const preFloorTtcPd = ttcPdOverride ?? ratingTtcPd
+
+  // Defaulted counterparties are flagged directly or detected from a PD of 100%, e.g. a "D" rating
+  // Slotted exposures default through their own category
+  const isDefaulted =
+    counterparty.isDefaulted === true ||
+    pitPd >= DEFAULTED_PD ||
+    preFloorTtcPd >= DEFAULTED_PD ||
+    specialisedLending?.category === "default"
+
+  // Regulatory input floors do not apply to slotted or defaulted exposures
+  const appliesFloors = !specialisedLending && !isDefaulted
+  const ttcPd = appliesFloors ? Math.max(preFloorTtcPd, pdFloor) : preFloorTtcPd
+
+  addTraceStep({
+    stage: "pd",
+    label: "Probability of default",
+    values: {
+      pitPd,
+      macroScenario: macroScenario ?? null,
+      region: counterparty.region,
+      industry: counterparty.industry,
+      gdpGrowth: macroConditions?.gdpGrowth ?? null,
+      unemployment: macroConditions?.unemployment ?? null,
+      interestRate: macroConditions?.interestRate ?? null,
+      macroeconomicIndex: ttcPdComponents?.macroeconomicIndex ?? null,
+      longTermAverage: ttcPdComponents?.longTermAverage ?? null,
+      cyclicality: ttcPdComponents?.cyclicality ?? null,
+      cycleAdjustment: ttcPdComponents?.cycleAdjustment ?? null,
+      modelTtcPd,
+      ratingPd: useCredRatingPd && creditRatingPd !== undefined ? creditRatingPd : null,
+      preFloorTtcPd,
+      pdFloor: appliesFloors ? pdFloor : null,
+      ttcPd,
+      isDefaulted,
+    },
+  })
 
-  // Calculate maturity adjustment
-  const maturityAdjustment = calculateMaturityAdjustment(ttcPd, maturity)
+  // Calculate correlation using the Basel formula for the asset class
+  // The SME adjustment and AVC multiplier only apply to corporates and are skipped when the correlation is overridden
+  const assetClass = counterparty.assetClass ?? "corporate"
+  const calculateCorrelation = (exposureClass: AssetClass, pd = ttcPd) => {
+    // Slotting risk weights are supervisory, so no correlation applies
+    if (specialisedLending) {
+      return { baseCorrelation: 0, smeAdjustment: 0, avcMultiplier: 1.0, correlation: 0 }
+    }
+    const isCorporate = !isRetailAssetClass(exposureClass)
+    const baseCorrelation =
+      correlationOverride ?? calculateBaseCorrelation(pd, exposureClass, profile.corporateCorrelation)
+    const smeAdjustment =
+      correlationOverride === null && isCorporate && useSmeAdjustment && !isFinancial
+        ? calculateSmeAdjustment(counterparty.revenue)
+        : 0
+    const avcMultiplier =
+      correlationOverride === null && isCorporate
+        ? calculateAVCMultiplier(isFinancial, isLargeFinancial, isRegulated, financialAvcMultiplier)
+        : 1.0
+    const correlation = (baseCorrelation - smeAdjustment) * avcMultiplier
+    return { baseCorrelation, smeAdjustment, avcMultiplier, correlation }
+  }
+  const counterpartyCorrelation = calculateCorrelation(assetClass)
+  const { baseCorrelation, smeAdjustment, avcMultiplier } = counterpartyCorrelation
+
+  addTraceStep({ stage: "correlation", label: "Asset correlation", values: { assetClass, ...counterpartyCorrelation } })
+
+  // F-IRB derives LGD from seniority and collateral, A-IRB uses the modelled LGD
+  // Collateral is held at counterparty level and shared across facilities in proportion to EAD
+  // Specialised lending is slotted, which uses neither PD nor LGD
+  const irbApproach: IrbApproach = specialisedLending ? "SLOTTING" : (counterparty.irbApproach ?? "AIRB")
+  const getModelLgd = (seniority: Seniority | undefined, modelledLgd: number) =>
+    irbApproach === "FIRB"
+      ? calculateFirbLgd(
+          { ...counterparty, seniority: seniority ?? counterparty.seniority },
+          ead,
+          profile.supervisoryLgd,
+          profile.collateralRules,
+        ).lgd
+      : modelledLgd
+
+  // ELBE for defaulted exposures; F-IRB sets it equal to LGD, leaving no capital above expected loss
+  const slottingCategory = specialisedLending && (isDefaulted ? "default" : specialisedLending.category)
+  const defaultedElbe = isDefaulted && irbApproach === "AIRB" ? (counterparty.elbe ?? null) : null
+
+  // Capital requirement (K) and expected loss rate (EL / EAD) for one exposure, sharing the obligor PD
+  // Retail exposures have no maturity adjustment
+  const calculateExposureCapital = (exposureClass: AssetClass, pd: number, lgd: number, maturity: number) => {
+    // Slotted K is the supervisory risk weight / 12.5 so that RWA = risk weight x EAD before scaling
+    if (slottingCategory) {
+      const maturityBucket = getSlottingMaturityBucket(maturity)
+      const riskWeight = getSlottingRiskWeight(slottingCategory, maturityBucket)
+      return {
+        correlation: 0,
+        maturityAdjustment: 1,
+        k: riskWeight / profile.rwaMultiplier,
+        expectedLossRate: getSlottingExpectedLossRate(slottingCategory, maturityBucket),
+      }
+    }
+    const { correlation } = calculateCorrelation(exposureClass, pd)
+    // Defaulted exposures skip the IRB formula, which is undefined at a PD of 100%
+    // Their expected loss is the ELBE rather than PD x LGD
+    if (isDefaulted) {
+      const elbe = defaultedElbe ?? lgd
+      return { correlation, maturityAdjustment: 1, k: calculateDefaultedCapital(lgd, elbe), expectedLossRate: elbe }
+    }
+    const maturityAdjustment =
+      useMaturityAdjustment && !isRetailAssetClass(exposureClass)
+        ? calculateMaturityAdjustment(pd, maturity, profile)
+        : 1
+    const k = useBaselFormula
+      ? calculateCapitalRequirement(pd, lgd, correlation, maturityAdjustment, profile.confidenceLevel)
+      : calculateSimplifiedCapitalRequirement(pd, lgd)
+    return { correlation, maturityAdjustment, k, expectedLossRate: pd * lgd }
+  }
 
-  // Calculate capital requirement (K)
-  const k = calculateCapitalRequirement(ttcPd, lgd, correlation, maturityAdjustment)
+  // Capital after the PD and LGD floors, with the pre-floor K kept to measure the RWA the floors add
+  // LGD floors only apply to the modelled LGD under A-IRB
+  const calculateFlooredCapital = (exposureClass: AssetClass, preFloorLgd: number, maturity: number) => {
+    const lgdFloor =
+      appliesFloors && irbApproach === "AIRB" && lgdFloors
+        ? calculateLgdFloor(counterparty, ead, lgdFloors, exposureClass)
+        : 0
+    const lgd = Math.max(preFloorLgd, lgdFloor)
+    const capital = calculateExposureCapital(exposureClass, ttcPd, lgd, maturity)
+    const isFloorBinding = lgd > preFloorLgd || ttcPd > preFloorTtcPd
+    const preFloorK = isFloorBinding
+      ? calculateExposureCapital(exposureClass, preFloorTtcPd, preFloorLgd, maturity).k
+      : capital.k
+    return { ...capital, lgd, preFloorLgd, lgdFloor, preFloorK }
+  }
 
-  // Calculate RWA
-  const baseRWA = k * 12.5 * ead
+  // Record the capital calculation of one exposure, the counterparty itself or a facility
+  const traceExposureCapital = (
+    label: string,
+    exposureClass: AssetClass,
+    maturity: number,
+    capital: ReturnType<typeof calculateFlooredCapital>,
+    exposureEad: number,
+    rwa: number,
+  ) => {
+    const hasMaturityAdjustment =
+      !slottingCategory && !isDefaulted && useMaturityAdjustment && !isRetailAssetClass(exposureClass)
+    const usesIrbFormula = !slottingCategory && !isDefaulted && useBaselFormula
+    addTraceStep({
+      stage: "capital",
+      label,
+      values: {
+        assetClass: exposureClass,
+        pd: ttcPd,
+        correlation: capital.correlation,
+        preFloorLgd: capital.preFloorLgd,
+        lgdFloor: capital.lgdFloor,
+        lgd: capital.lgd,
+        maturity,
+        effectiveMaturity: hasMaturityAdjustment ? calculateEffectiveMaturity(maturity, profile) : null,
+        b: hasMaturityAdjustment ? calculateMaturityParameter(ttcPd) : null,
+        maturityAdjustment: capital.maturityAdjustment,
+        confidenceLevel: usesIrbFormula ? profile.confidenceLevel : null,
+        conditionalPd: usesIrbFormula
+          ? calculateConditionalPd(ttcPd, capital.correlation, profile.confidenceLevel)
+          : null,
+        slottingCategory: slottingCategory || null,
+        riskWeight: slottingCategory ? capital.k * profile.rwaMultiplier : null,
+        elbe: isDefaulted && !slottingCategory ? (defaultedElbe ?? capital.lgd) : null,
+        k: capital.k,
+        rwaFactor,
+        ead: exposureEad,
+        rwa,
+        expectedLoss: capital.expectedLossRate * exposureEad,
+      },
+    })
+  }
+
+  // Calculate RWA per facility; an EAD override is spread across facilities in proportion to their EAD
+  const eadScale = exposure.ead > 0 ? ead / exposure.ead : 0
+  const facilities = exposure.facilities.map((facilityExposure, index): FacilityRwaResult => {
+    const facility = (counterparty.facilities ?? [])[index]
+    const facilityEad = facilityExposure.ead * eadScale
+    const modelLgd = lgdOverride ?? getModelLgd(facility.seniority, facility.lgd ?? counterparty.lgd)
+    const maturity = maturityOverride ?? facility.maturity ?? counterparty.maturity
+    const facilityAssetClass = facility.assetClass ?? assetClass
+    const capital = calculateFlooredCapital(facilityAssetClass, modelLgd, maturity)
+    const { correlation, preFloorLgd, lgdFloor, lgd, maturityAdjustment, k, preFloorK, expectedLossRate } = capital
+    const facilityRwa = k * rwaFactor * facilityEad
+    traceExposureCapital(
+      `Facility ${facility.name ?? facility.id}`,
+      facilityAssetClass,
+      maturity,
+      capital,
+      facilityEad,
+      facilityRwa,
+    )
+    const adjustedFacilityRwa = facility.rwaAdjustment
+      ? applyRwaAdjustment(facilityRwa, facility.rwaAdjustment)
+      : facilityRwa
+    if (facility.rwaAdjustment) {
+      addTraceStep({
+        stage: "adjustment",
+        label: `Facility ${facility.name ?? facility.id} adjustment`,
+        values: { ...facility.rwaAdjustment },
+        before: facilityRwa,
+        after: adjustedFacilityRwa,
+      })
+    }
+
+    return {
+      ...facilityExposure,
+      ead: facilityEad,
+      assetClass: facilityAssetClass,
+      correlation,
+      preFloorLgd,
+      lgdFloor,
+      lgd,
+      maturity,
+      maturityAdjustment,
+      k,
+      rwa: adjustedFacilityRwa,
+      originalRwa: facilityRwa,
+      preFloorRwa: preFloorK * rwaFactor * facilityEad,
+      expectedLoss: expectedLossRate * facilityEad,
+      hasAdjustment: facility.rwaAdjustment !== undefined,
+    }
+  })
+
+  // Counterparty parameters are EAD-weighted averages of its facilities
+  const weightedAverage = (value: (facility: FacilityRwaResult) => number) =>
+    ead > 0 ? facilities.reduce((sum, facility) => sum + value(facility) * facility.ead, 0) / ead : 0
+
+  let correlation: number
+  let preFloorLgd: number
+  let lgdFloor: number
+  let lgd: number
+  let maturity: number
+  let maturityAdjustment: number
+  let k: number
+  let modelRWA: number
+  let preFloorRWA: number
+  let baseRWA: number
+  let expectedLoss: number
+
+  if (facilities.length > 0) {
+    correlation = weightedAverage((facility) => facility.correlation)
+    preFloorLgd = weightedAverage((facility) => facility.preFloorLgd)
+    lgdFloor = weightedAverage((facility) => facility.lgdFloor)
+    lgd = weightedAverage((facility) => facility.lgd)
+    maturity = weightedAverage((facility) => facility.maturity)
+    maturityAdjustment = weightedAverage((facility) => facility.maturityAdjustment)
+    k = weightedAverage((facility) => facility.k)
+    modelRWA = facilities.reduce((sum, facility) => sum + facility.originalRwa, 0)
+    preFloorRWA = facilities.reduce((sum, facility) => sum + facility.preFloorRwa, 0)
+    expectedLoss = facilities.reduce((sum, facility) => sum + facility.expectedLoss, 0)
+    // Facility adjustments are included before any counterparty adjustment
+    baseRWA = facilities.reduce((sum, facility) => sum + facility.rwa, 0)
+  } else {
+    // Counterparties without facilities are a single exposure
+    maturity = maturityOverride ?? counterparty.maturity
+    const capital = calculateFlooredCapital(
+      assetClass,
+      lgdOverride ?? getModelLgd(counterparty.seniority, counterparty.lgd),
+      maturity,
+    )
+    correlation = capital.correlation
+    preFloorLgd = capital.preFloorLgd
+    lgdFloor = capital.lgdFloor
+    lgd = capital.lgd
+    maturityAdjustment = capital.maturityAdjustment
+    k = capital.k
+    modelRWA = k * rwaFactor * ead
+    preFloorRWA = capital.preFloorK * rwaFactor * ead
+    expectedLoss = capital.expectedLossRate * ead
+    baseRWA = modelRWA
+    traceExposureCapital("Counterparty exposure", assetClass, maturity, capital, ead, modelRWA)
+  }
+
+  // Slotting details; facilities fall into maturity buckets individually
+  const slotting: SlottingResult | null =
+    specialisedLending && slottingCategory
+      ? {
+          type: specialisedLending.type,
+          category: slottingCategory,
+          riskWeight: ead > 0 ? modelRWA / ead : 0,
+          expectedLossRate: ead > 0 ? expectedLoss / ead : 0,
+        }
+      : null
 
   // Apply any adjustments
-  let hasAdjustment = false
+  let hasAdjustment = facilities.some((facility) => facility.hasAdjustment)
   let hasPortfolioAdjustment = false
   let adjustedRWA = baseRWA
-  let originalRwa = baseRWA
+  const originalRwa = modelRWA
 
   // Apply counterparty-specific adjustment if present
   if (rwaAdjustment) {
     hasAdjustment = true
-    originalRwa = baseRWA
-
-    console.log("Applying counterparty adjustment:", rwaAdjustment)
-
-    if (rwaAdjustment.type === "absolute") {
-      // For absolute adjustments, use the provided adjustedRWA directly
-      adjustedRWA = ensureNumber(rwaAdjustment.adjustedRWA, baseRWA)
-    } else if (rwaAdjustment.type === "additive") {
-      // For additive adjustments, add the adjustment to the base RWA
-      const adjustment = ensureNumber(rwaAdjustment.adjustment, 0)
-      adjustedRWA = baseRWA + adjustment
-    } else if (rwaAdjustment.type === "multiplicative") {
-      // For multiplicative adjustments, multiply the base RWA by the multiplier
-      const multiplier = ensureNumber(rwaAdjustment.multiplier, 1)
-      adjustedRWA = baseRWA * multiplier
-    } else if (rwaAdjustment.type === "percentage") {
-      // For percentage adjustments, calculate based on percentage value
-      const percentageValue = ensureNumber(rwaAdjustment.value, 0)
-      adjustedRWA = baseRWA * (1 + percentageValue / 100)
-    }
-
-    console.log("After counterparty adjustment:", {
-      baseRWA,
-      adjustedRWA,
-      change: adjustedRWA - baseRWA,
-      percentChange: (adjustedRWA / baseRWA - 1) * 100,
+    adjustedRWA = applyRwaAdjustment(baseRWA, rwaAdjustment)
+
+    addTraceStep({
+      stage: "adjustment",
+      label: "Counterparty adjustment",
+      values: { ...rwaAdjustment },
+      before: baseRWA,
+      after: adjustedRWA,
     })
   }
 
   // Apply portfolio-level adjustment if present
   if (portfolioRwaAdjustment) {
     hasPortfolioAdjustment = true
-
-    if (!hasAdjustment) {
-      originalRwa = baseRWA
-    }
-
-    // Debug log to check portfolio adjustment values
-    console.log("Applying portfolio adjustment:", portfolioRwaAdjustment)
-
     const beforePortfolioAdjustment = adjustedRWA
 
     if (portfolioRwaAdjustment.type === "absolute") {
       // For absolute adjustments, use the provided adjustedRWA directly
-      adjustedRWA = ensureNumber(portfolioRwaAdjustment.adjustedRWA, adjustedRWA)
+      adjustedRWA = portfolioRwaAdjustment.adjustedRWA ?? adjustedRWA
     } else if (portfolioRwaAdjustment.type === "additive") {
       // For additive adjustments, add the adjustment to the current RWA
-      const adjustment = ensureNumber(portfolioRwaAdjustment.adjustment, 0)
-      adjustedRWA = adjustedRWA + adjustment
+      adjustedRWA = adjustedRWA + (portfolioRwaAdjustment.adjustment ?? 0)
     } else if (portfolioRwaAdjustment.type === "multiplicative") {
       // For multiplicative adjustments, multiply the current RWA by the multiplier
-      const multiplier = ensureNumber(portfolioRwaAdjustment.multiplier, 1)
-      adjustedRWA = adjustedRWA * multiplier
-    } else if (portfolioRwaAdjustment.counterpartyAdjustment) {
-      // Handle counterparty-specific adjustment from portfolio adjustment
-      const counterpartyAdj = portfolioRwaAdjustment.counterpartyAdjustment
-
-      if (counterpartyAdj.type === "multiplicative" && counterpartyAdj.multiplier) {
-        adjustedRWA = baseRWA * ensureNumber(counterpartyAdj.multiplier, 1)
-      } else if (counterpartyAdj.type === "additive" && counterpartyAdj.adjustment) {
-        adjustedRWA = baseRWA + ensureNumber(counterpartyAdj.adjustment, 0)
-      } else if (counterpartyAdj.adjustedRWA) {
-        adjustedRWA = ensureNumber(counterpartyAdj.adjustedRWA, baseRWA)
-      }
+      adjustedRWA = adjustedRWA * (portfolioRwaAdjustment.multiplier ?? 1)
     }
 
-    console.log("After portfolio adjustment:", {
-      beforePortfolioAdjustment,
-      adjustedRWA,
-      change: adjustedRWA - beforePortfolioAdjustment,
-      percentChange: (adjustedRWA / beforePortfolioAdjustment - 1) * 100,
+    addTraceStep({
+      stage: "adjustment",
+      label: "Portfolio adjustment",
+      values: { ...portfolioRwaAdjustment },
+      before: beforePortfolioAdjustment,
+      after: adjustedRWA,
     })
   }
 
   // Calculate RWA density (RWA as percentage of EAD)
   const rwaDensity = ead > 0 ? adjustedRWA / ead : 0
 
-  // Log the calculation for debugging
-  console.log("RWA Calculation results:", {
-    pitPd,
-    ttcPd,
-    lgd,
-    ead,
-    correlation,
-    maturityAdjustment,
-    k,
-    baseRWA,
-    adjustedRWA,
-    rwaDensity,
-    hasAdjustment,
-    hasPortfolioAdjustment,
+  addTraceStep({
+    stage: "result",
+    label: "Result",
+    values: { correlation, maturityAdjustment, k, rwaDensity },
+    before: originalRwa,
+    after: adjustedRWA,
   })
 
   // Return the results
   return {
+    methodologyVersion: METHODOLOGY_VERSION,
+    regulatoryProfile: profile.id,
+    irbApproach,
+    assetClass,
     pd: pitPd,
     ttcPd,
     lgd,
     ead,
+    maturity,
     baseCorrelation,
+    smeAdjustment,
     avcMultiplier,
     correlation,
     maturityAdjustment,
@@ -169,56 +527,110 @@ export function calculateRWA(counterparty) {
     hasAdjustment: hasAdjustment || hasPortfolioAdjustment,
     hasPortfolioAdjustment,
     rwaDensity,
+    facilities,
+    slotting,
+    isDefaulted,
+    elbe: isDefaulted && !slotting ? (defaultedElbe ?? lgd) : null,
+    floors: {
+      pdFloor: appliesFloors ? pdFloor : 0,
+      preFloorTtcPd,
+      isPdFloorBinding: ttcPd > preFloorTtcPd,
+      lgdFloor,
+      preFloorLgd,
+      isLgdFloorBinding: lgd > preFloorLgd,
+      rwaAddOn: modelRWA - preFloorRWA,
+    },
+    expectedLoss: compareWithProvisions(expectedLoss, counterparty.provisions ?? 0),
+    ...(trace ? { trace } : {}),
   }
 }
 
-// Helper function to ensure a value is a valid number
-function ensureNumber(value, defaultValue = 0) {
-  if (value === undefined || value === null) return defaultValue
-  const num = Number(value)
-  return isNaN(num) ? defaultValue : num
-}
-
-// Calculate base correlation using Basel formula
-function calculateBaseCorrelation(pd) {
-  const term1 = (0.12 * (1 - Math.exp(-50 * pd))) / (1 - Math.exp(-50))
-  const term2 = 0.24 * (1 - (1 - Math.exp(-50 * pd)) / (1 - Math.exp(-50)))
-  return term1 + term2
+// Apply a counterparty or facility RWA adjustment to a model RWA
+function applyRwaAdjustment(rwa: number, adjustment: RwaAdjustment): number {
+  if (adjustment.type === "absolute") {
+    // For absolute adjustments, use the provided adjustedRWA directly
+    return adjustment.adjustedRWA ?? rwa
+  } else if (adjustment.type === "additive") {
+    // For additive adjustments, add the adjustment to the base RWA
+    return rwa + (adjustment.adjustment ?? 0)
+  } else if (adjustment.type === "multiplicative") {
+    // For multiplicative adjustments, multiply the base RWA by the multiplier
+    return rwa * (adjustment.multiplier ?? 1)
+  } else if (adjustment.type === "percentage") {
+    // For percentage adjustments, calculate based on percentage value
+    return rwa * (1 + (adjustment.value ?? 0) / 100)
+  }
+  return rwa
 }
 
 // Calculate AVC multiplier for financial institutions
-function calculateAVCMultiplier(isFinancial, isLargeFinancial, isRegulated) {
+function calculateAVCMultiplier(
+  isFinancial: boolean,
+  isLargeFinancial: boolean,
+  isRegulated: boolean,
+  multiplier: number,
+): number {
   if (isFinancial && (isLargeFinancial || !isRegulated)) {
-    return 1.25 // AVC multiplier for large or unregulated financials
+    return multiplier // AVC multiplier for large or unregulated financials
   }
   return 1.0
 }
 
 // Calculate maturity adjustment
-function calculateMaturityAdjustment(pd, maturity) {
-  // Ensure maturity is within bounds (1-5 years)
-  const effectiveMaturity = Math.max(1, Math.min(5, maturity))
-
-  // Calculate b parameter
-  const b = Math.pow(0.11852 - 0.05478 * Math.log(pd), 2)
+export function calculateMaturityAdjustment(
+  pd: number,
+  maturity: number,
+  bounds: Pick<RegulatoryProfile, "minMaturity" | "maxMaturity">,
+): number {
+  const effectiveMaturity = calculateEffectiveMaturity(maturity, bounds)
+  const b = calculateMaturityParameter(pd)
 
   // Calculate maturity adjustment
   return (1 + (effectiveMaturity - 2.5) * b) / (1 - 1.5 * b)
 }
 
-// Calculate capital requirement (K)
-function calculateCapitalRequirement(pd, lgd, correlation, maturityAdjustment) {
-  const term1 = normInv(pd)
-  const term2 = Math.sqrt(correlation) * normInv(0.999)
-  const term3 = Math.sqrt(1 - correlation)
+// Ensure maturity is within the profile's bounds (1-5 years under Basel)
+function calculateEffectiveMaturity(
+  maturity: number,
+  bounds: Pick<RegulatoryProfile, "minMaturity" | "maxMaturity">,
+): number {
+  return Math.max(bounds.minMaturity, Math.min(bounds.maxMaturity, maturity))
+}
 
-  const conditionalPD = normCDF((term1 + term2) / term3)
+// Calculate b parameter of the maturity adjustment
+function calculateMaturityParameter(pd: number): number {
+  return Math.pow(0.11852 - 0.05478 * Math.log(pd), 2)
+}
 
-  // Calculate capital requirement before maturity adjustment
-  let k = lgd * conditionalPD
+// Calculate capital requirement (K)
+export function calculateCapitalRequirement(
+  pd: number,
+  lgd: number,
+  correlation: number,
+  maturityAdjustment: number,
+  confidenceLevel: number,
+): number {
+  const conditionalPD = calculateConditionalPd(pd, correlation, confidenceLevel)
+
+  // Calculate capital requirement before maturity adjustment, net of expected loss
+  let k = lgd * (conditionalPD - pd)
 
   // Apply maturity adjustment
   k *= maturityAdjustment
 
   return k
 }
+
+// PD conditional on the systematic factor at the confidence level
+export function calculateConditionalPd(pd: number, correlation: number, confidenceLevel: number): number {
+  const term1 = normalInv(pd)
+  const term2 = Math.sqrt(correlation) * normalInv(confidenceLevel)
+  const term3 = Math.sqrt(1 - correlation)
+
+  return normalCdf((term1 + term2) / term3)
+}
+
+// Simplified capital requirement (expected loss only), used for comparison with the IRB formula
+function calculateSimplifiedCapitalRequirement(pd: number, lgd: number): number {
+  return lgd * pd
+}
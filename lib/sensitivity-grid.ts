@@ -0,0 +1,151 @@
+// Sensitivity Grid
+// RWA, K and RWA density of a counterparty over a grid of two parameters, each flexed by a range of multipliers
+// Cells are calculated with what-if shocks, so any cell can be saved as a what-if scenario with the same result
+
+import { calculateRWA } from "@/lib/rwa-calculator"
+import { applyWhatIfShock, WHAT_IF_PARAMETER_LABELS } from "@/lib/what-if-scenarios"
+import type {
+  CalculationOptions,
+  Counterparty,
+  RwaResult,
+  SensitivityGridAxis,
+  SensitivityGridResult,
+  SensitivityMetric,
+  WhatIfParameter,
+  WhatIfShock,
+} from "@/lib/types"
+
+export const SENSITIVITY_METRIC_LABELS: Record<SensitivityMetric, string> = {
+  rwa: "RWA",
+  k: "Capital requirement (K)",
+  rwaDensity: "RWA density",
+}
+
+// Upper limit on steps per axis, which keeps the grid small enough to recalculate as the inputs change
+export const MAX_GRID_STEPS = 15
+
+// Value of a parameter in the baseline calculation, which the axis multipliers apply to
+// LGD (before the floors) and maturity are EAD-weighted over the facilities, as the shocks scale each facility
+// PD is the PIT PD when a macro scenario derives the TTC PD from it, otherwise the TTC PD the calculation used
+export function getSensitivityBaseline(
+  counterparty: Counterparty,
+  options: CalculationOptions,
+  result: RwaResult,
+  parameter: WhatIfParameter,
+): number {
+  switch (parameter) {
+    case "pd": {
+      const usesRatingPd = counterparty.useCredRatingPd && counterparty.creditRatingPd !== undefined
+      return options.macroScenario && !usesRatingPd ? result.pd : result.floors.preFloorTtcPd
+    }
+    case "lgd":
+      return result.floors.preFloorLgd
+    case "ead":
+      return result.ead
+    case "maturity":
+      return result.maturity
+  }
+}
+
+// Evenly spaced multipliers from min to max, with 1 added when missing so the baseline is always on the grid
+export function getAxisMultipliers(axis: Pick<SensitivityGridAxis, "min" | "max" | "steps">): number[] {
+  const steps = Math.max(2, Math.min(MAX_GRID_STEPS, Math.round(axis.steps)))
+  const multipliers = Array.from(
+    { length: steps },
+    (_, index) => axis.min + ((axis.max - axis.min) * index) / (steps - 1),
+  )
+  if (!multipliers.some((multiplier) => Math.abs(multiplier - 1) < 1e-9)) {
+    multipliers.push(1)
+  }
+  return multipliers.sort((a, b) => a - b)
+}
+
+// The what-if shocks that reproduce one cell of the grid for the counterparty
+export function getGridCellShocks(
+  counterpartyId: string,
+  xParameter: WhatIfParameter,
+  xMultiplier: number,
+  yParameter: WhatIfParameter,
+  yMultiplier: number,
+): WhatIfShock[] {
+  const target = { type: "counterparty" as const, counterpartyId }
+  return [
+    { parameter: xParameter, operation: "multiply", value: xMultiplier, target },
+    { parameter: yParameter, operation: "multiply", value: yMultiplier, target },
+  ]
+}
+
+const toMetrics = (result: RwaResult): Record<SensitivityMetric, number> => ({
+  rwa: result.rwa,
+  k: result.k,
+  rwaDensity: result.rwaDensity,
+})
+
+// Calculate every pair of x and y multipliers; the two axes must flex different parameters
+export function calculateSensitivityGrid(
+  counterparty: Counterparty,
+  options: CalculationOptions,
+  xAxis: SensitivityGridAxis,
+  yAxis: SensitivityGridAxis,
+): SensitivityGridResult {
+  const baselineResult = calculateRWA(counterparty, options)
+  const baseline = toMetrics(baselineResult)
+  const xMultipliers = getAxisMultipliers(xAxis)
+  const yMultipliers = getAxisMultipliers(yAxis)
+
+  const cells = yMultipliers.map((yMultiplier) =>
+    xMultipliers.map((xMultiplier) => {
+      const shocked = getGridCellShocks(
+        counterparty.id,
+        xAxis.parameter,
+        xMultiplier,
+        yAxis.parameter,
+        yMultiplier,
+      ).reduce(applyWhatIfShock, counterparty)
+      const metrics = toMetrics(calculateRWA(shocked, options))
+      return {
+        ...metrics,
+        xMultiplier,
+        yMultiplier,
+        change: baseline.rwa > 0 ? ((metrics.rwa - baseline.rwa) / baseline.rwa) * 100 : 0,
+        isBaseline: Math.abs(xMultiplier - 1) < 1e-9 && Math.abs(yMultiplier - 1) < 1e-9,
+      }
+    }),
+  )
+
+  return {
+    x: {
+      parameter: xAxis.parameter,
+      baseline: getSensitivityBaseline(counterparty, options, baselineResult, xAxis.parameter),
+      multipliers: xMultipliers,
+    },
+    y: {
+      parameter: yAxis.parameter,
+      baseline: getSensitivityBaseline(counterparty, options, baselineResult, yAxis.parameter),
+      multipliers: yMultipliers,
+    },
+    cells,
+    baseline,
+  }
+}
+
+// Quote a CSV field when it contains a separator, quote or line break
+const toCsvField = (value: string | number) => {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// The grid as CSV with one row per y value and one column per x value
+// Parameter values are the multiplier applied to the baseline value; cells hold the chosen metric
+export function sensitivityGridToCsv(grid: SensitivityGridResult, metric: SensitivityMetric): string {
+  const axes = `${WHAT_IF_PARAMETER_LABELS[grid.y.parameter]} \\ ${WHAT_IF_PARAMETER_LABELS[grid.x.parameter]}`
+  const header = [
+    `${SENSITIVITY_METRIC_LABELS[metric]}: ${axes}`,
+    ...grid.x.multipliers.map((multiplier) => multiplier * grid.x.baseline),
+  ]
+  const rows = grid.cells.map((row, index) => [
+    grid.y.multipliers[index] * grid.y.baseline,
+    ...row.map((cell) => cell[metric]),
+  ])
+  return [header, ...rows].map((row) => row.map(toCsvField).join(",")).join("\n")
+}
@@ -0,0 +1,61 @@
+// Supervisory Slotting Calculator
+// Risk weights for specialised lending that has no reliable PD (Basel CRE33.5-33.12)
+
+import type { SlottingCategory, SlottingMaturityBucket, SpecialisedLendingType } from "@/lib/types"
+
+// Remaining maturity below which the preferential Strong and Good risk weights apply
+export const SLOTTING_SHORT_MATURITY = 2.5
+
+// Supervisory risk weights by remaining maturity and slotting category
+// Defaulted exposures carry no risk weight because they are covered by expected loss
+export const SLOTTING_RISK_WEIGHTS: Record<SlottingMaturityBucket, Record<SlottingCategory, number>> = {
+  "lessThan2.5Years": { strong: 0.5, good: 0.7, satisfactory: 1.15, weak: 2.5, default: 0 },
+  "atLeast2.5Years": { strong: 0.7, good: 0.9, satisfactory: 1.15, weak: 2.5, default: 0 },
+}
+
+// Expected loss rates by remaining maturity and slotting category (CRE35.6)
+export const SLOTTING_EXPECTED_LOSS_RATES: Record<SlottingMaturityBucket, Record<SlottingCategory, number>> = {
+  "lessThan2.5Years": { strong: 0, good: 0.004, satisfactory: 0.028, weak: 0.08, default: 0.5 },
+  "atLeast2.5Years": { strong: 0.004, good: 0.008, satisfactory: 0.028, weak: 0.08, default: 0.5 },
+}
+
+// Display names for slotting categories
+export const SLOTTING_CATEGORY_LABELS: Record<SlottingCategory, string> = {
+  strong: "Strong",
+  good: "Good",
+  satisfactory: "Satisfactory",
+  weak: "Weak",
+  default: "Default",
+}
+
+// Display names for specialised lending types
+export const SPECIALISED_LENDING_TYPE_LABELS: Record<SpecialisedLendingType, string> = {
+  projectFinance: "Project Finance",
+  objectFinance: "Object Finance",
+  commodityFinance: "Commodity Finance",
+  incomeProducingRealEstate: "Income-Producing Real Estate",
+}
+
+// Display names for remaining maturity buckets
+export const SLOTTING_MATURITY_BUCKET_LABELS: Record<SlottingMaturityBucket, string> = {
+  "lessThan2.5Years": "Less than 2.5 years",
+  "atLeast2.5Years": "2.5 years or more",
+}
+
+// Bucket a remaining maturity in years
+export function getSlottingMaturityBucket(maturity: number): SlottingMaturityBucket {
+  return maturity < SLOTTING_SHORT_MATURITY ? "lessThan2.5Years" : "atLeast2.5Years"
+}
+
+// Supervisory risk weight for a slotting category and remaining maturity bucket
+export function getSlottingRiskWeight(category: SlottingCategory, maturityBucket: SlottingMaturityBucket): number {
+  return SLOTTING_RISK_WEIGHTS[maturityBucket][category]
+}
+
+// Expected loss rate for a slotting category and remaining maturity bucket
+export function getSlottingExpectedLossRate(
+  category: SlottingCategory,
+  maturityBucket: SlottingMaturityBucket,
+): number {
+  return SLOTTING_EXPECTED_LOSS_RATES[maturityBucket][category]
+}
@@ -0,0 +1,106 @@
+// This file contains the Standardised Approach for credit risk (SA-CR)
+// It maps external ratings to Basel III risk weights and applies the output floor to IRB RWA
+
+import { calculateExposure } from "@/lib/ead-calculator"
+import type { Counterparty, OutputFloorResult, SaExposureClass, StandardisedResult } from "@/lib/types"
+
+// Basel III output floor: floored RWA cannot fall below this share of SA RWA
+export const OUTPUT_FLOOR = 0.725
+
+// External rating buckets used by the SA risk weight tables
+export const SA_RATING_BUCKETS = [
+  "AAA to AA-",
+  "A+ to A-",
+  "BBB+ to BBB-",
+  "BB+ to BB-",
+  "B+ to B-",
+  "Below B-",
+  "Unrated",
+] as const
+
+export type SaRatingBucket = (typeof SA_RATING_BUCKETS)[number]
+
+// Risk weights by exposure class and rating bucket (ECRA for rated exposures)
+// Unrated banks are treated as SCRA Grade A
+export const SA_RISK_WEIGHTS: Record<SaExposureClass, Record<SaRatingBucket, number>> = {
+  corporate: {
+    "AAA to AA-": 0.2,
+    "A+ to A-": 0.5,
+    "BBB+ to BBB-": 0.75,
+    "BB+ to BB-": 1.0,
+    "B+ to B-": 1.5,
+    "Below B-": 1.5,
+    Unrated: 1.0,
+  },
+  bank: {
+    "AAA to AA-": 0.2,
+    "A+ to A-": 0.3,
+    "BBB+ to BBB-": 0.5,
+    "BB+ to BB-": 1.0,
+    "B+ to B-": 1.0,
+    "Below B-": 1.5,
+    Unrated: 0.4,
+  },
+}
+
+// Regulated financial institutions are treated as banks, unregulated ones as corporates
+export function getSaExposureClass(counterparty: Counterparty): SaExposureClass {
+  return counterparty.isFinancial && counterparty.isRegulated ? "bank" : "corporate"
+}
+
+// External rating used for SA, taken from the credit review
+export function getExternalRating(counterparty: Counterparty): string | null {
+  return counterparty.creditRating ?? counterparty.rating ?? null
+}
+
+// Map an S&P-style rating to its SA rating bucket
+export function getRatingBucket(rating: string | null): SaRatingBucket {
+  if (!rating) return "Unrated"
+
+  // Strip the notch so that e.g. "BBB-" and "BBB+" map to "BBB"
+  const grade = rating.trim().toUpperCase().replace(/[+-]$/, "")
+
+  if (grade === "AAA" || grade === "AA") return "AAA to AA-"
+  if (grade === "A") return "A+ to A-"
+  if (grade === "BBB") return "BBB+ to BBB-"
+  if (grade === "BB") return "BB+ to BB-"
+  if (grade === "B") return "B+ to B-"
+  if (["CCC", "CC", "C", "D"].includes(grade)) return "Below B-"
+
+  return "Unrated"
+}
+
+// Calculate SA RWA for a single counterparty
+export function calculateStandardisedRWA(counterparty: Counterparty): StandardisedResult {
+  const exposureClass = getSaExposureClass(counterparty)
+  const rating = getExternalRating(counterparty)
+  const ratingBucket = getRatingBucket(rating)
+  const riskWeight = SA_RISK_WEIGHTS[exposureClass][ratingBucket]
+  const { ead } = calculateExposure(counterparty)
+
+  return {
+    exposureClass,
+    rating,
+    ratingBucket,
+    riskWeight,
+    ead,
+    rwa: ead * riskWeight,
+  }
+}
+
+// Apply the output floor to IRB RWA
+// At portfolio level pass the summed IRB and SA RWA, since the floor applies to the totals
+export function applyOutputFloor(irbRwa: number, saRwa: number, floor = OUTPUT_FLOOR): OutputFloorResult {
+  const floorRwa = saRwa * floor
+  const flooredRwa = Math.max(irbRwa, floorRwa)
+
+  return {
+    irbRwa,
+    saRwa,
+    floor,
+    floorRwa,
+    flooredRwa,
+    floorAddOn: flooredRwa - irbRwa,
+    isFloorBinding: floorRwa > irbRwa,
+  }
+}
@@ -0,0 +1,110 @@
+// Statistics
+// Standard normal density, distribution and inverse distribution at double precision, used by the IRB formula
+
+const SQRT_2PI = Math.sqrt(2 * Math.PI)
+
+// Beyond this |x| the normal tail underflows to zero in double precision
+const CDF_UNDERFLOW = 37
+
+// Switch from the rational approximation to the continued fraction in the tail
+const CDF_TAIL = 7.07106781186547
+
+// Hart (1968) rational approximation coefficients, as used in West (2005)
+const HART_NUMERATOR = [
+  3.52624965998911e-2, 0.700383064443688, 6.37396220353165, 33.912866078383, 112.079291497871, 221.213596169931,
+  220.206867912376,
+]
+const HART_DENOMINATOR = [
+  8.83883476483184e-2, 1.75566716318264, 16.064177579207, 86.7807322029461, 296.564248779674, 637.333633378831,
+  793.826512519948, 440.413735824752,
+]
+
+// Wichura (1988) AS241 PPND16 coefficients, highest power first
+const AS241_CENTRAL_NUMERATOR = [
+  2509.0809287301226727, 33430.575583588128105, 67265.770927008700853, 45921.953931549871457, 13731.693765509461125,
+  1971.5909503065514427, 133.14166789178437745, 3.387132872796366608,
+]
+const AS241_CENTRAL_DENOMINATOR = [
+  5226.495278852854561, 28729.085735721942674, 39307.89580009271061, 21213.794301586595867, 5394.1960214247511077,
+  687.1870074920579083, 42.313330701600911252, 1,
+]
+const AS241_INTERMEDIATE_NUMERATOR = [
+  7.7454501427834140764e-4, 0.0227238449892691845833, 0.24178072517745061177, 1.27045825245236838258,
+  3.64784832476320460504, 5.7694972214606914055, 4.6303378461565452959, 1.42343711074968357734,
+]
+const AS241_INTERMEDIATE_DENOMINATOR = [
+  1.05075007164441684324e-9, 5.475938084995344946e-4, 0.0151986665636164571966, 0.14810397642748007459,
+  0.68976733498510000455, 1.6763848301838038494, 2.05319162663775882187, 1,
+]
+const AS241_TAIL_NUMERATOR = [
+  2.01033439929228813265e-7, 2.71155556874348757815e-5, 0.0012426609473880784386, 0.026532189526576123093,
+  0.29656057182850489123, 1.7848265399172913358, 5.4637849111641143699, 6.6579046435011037772,
+]
+const AS241_TAIL_DENOMINATOR = [
+  2.04426310338993978564e-15, 1.4215117583164458887e-7, 1.8463183175100546818e-5, 7.868691311456132591e-4,
+  0.0148753612908506148525, 0.13692988092273580531, 0.59983220655588793769, 1,
+]
+
+// Evaluate a polynomial with coefficients ordered from the highest power down
+function polynomial(coefficients: number[], x: number): number {
+  return coefficients.reduce((sum, coefficient) => sum * x + coefficient, 0)
+}
+
+// Standard normal probability density function
+export function normalPdf(x: number): number {
+  if (Number.isNaN(x)) return NaN
+  return Math.exp(-0.5 * x * x) / SQRT_2PI
+}
+
+// Standard normal cumulative distribution function, with an absolute error of about 1e-15
+export function normalCdf(x: number): number {
+  if (Number.isNaN(x)) return NaN
+
+  const absX = Math.abs(x)
+  let tail: number
+
+  if (absX > CDF_UNDERFLOW) {
+    tail = 0
+  } else if (absX < CDF_TAIL) {
+    tail = (Math.exp(-0.5 * absX * absX) * polynomial(HART_NUMERATOR, absX)) / polynomial(HART_DENOMINATOR, absX)
+  } else {
+    // Continued fraction for the far tail
+    let fraction = absX + 0.65
+    fraction = absX + 4 / fraction
+    fraction = absX + 3 / fraction
+    fraction = absX + 2 / fraction
+    fraction = absX + 1 / fraction
+    tail = Math.exp(-0.5 * absX * absX) / fraction / SQRT_2PI
+  }
+
+  return x > 0 ? 1 - tail : tail
+}
+
+// Inverse of the standard normal CDF (AS241), accurate to about 1e-16 relative
+// Returns -Infinity at 0, Infinity at 1 and NaN outside [0, 1]
+export function normalInv(p: number): number {
+  if (Number.isNaN(p) || p < 0 || p > 1) return NaN
+  if (p === 0) return -Infinity
+  if (p === 1) return Infinity
+
+  const q = p - 0.5
+
+  if (Math.abs(q) <= 0.425) {
+    const r = 0.180625 - q * q
+    return (q * polynomial(AS241_CENTRAL_NUMERATOR, r)) / polynomial(AS241_CENTRAL_DENOMINATOR, r)
+  }
+
+  // Work with the smaller tail probability to keep precision near 1
+  let r = Math.sqrt(-Math.log(q < 0 ? p : 1 - p))
+  let value: number
+
+  if (r <= 5) {
+    r -= 1.6
+    value = polynomial(AS241_INTERMEDIATE_NUMERATOR, r) / polynomial(AS241_INTERMEDIATE_DENOMINATOR, r)
+  } else {
+    r -= 5
+    value = polynomial(AS241_TAIL_NUMERATOR, r) / polynomial(AS241_TAIL_DENOMINATOR, r)
+  }
+
+  return q < 0 ? -value : value
+}
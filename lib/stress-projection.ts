@@ -0,0 +1,179 @@
+// Stress Projection
+// Projects the portfolio over the years of a macroeconomic scenario, stressing PD and LGD by industry and region,
+// rolling maturities down and recalculating RWA, expected loss and capital ratios for each year
+
+import { calculateCapitalRatios, DEFAULT_CAPITAL_BUFFERS, DEFAULT_CAPITAL_RESOURCES } from "@/lib/capital-ratios"
+import { DEFAULTED_PD, MAX_PERFORMING_PD } from "@/lib/default-calculator"
+import { calculateProvisionCapital } from "@/lib/expected-loss-calculator"
+import { DEFAULT_MACRO_SCENARIO, getMacroeconomicIndex } from "@/lib/macro-scenarios"
+import { getRegulatoryProfile } from "@/lib/regulatory-profiles"
+import { calculateRWA } from "@/lib/rwa-calculator"
+import { applyOutputFloor, calculateStandardisedRWA } from "@/lib/standardised-calculator"
+import type {
+  CalculationOptions,
+  CapitalBufferSettings,
+  CapitalResources,
+  Counterparty,
+  CounterpartyStressProjection,
+  MacroScenarioId,
+  RwaResult,
+  StressMultipliers,
+  StressProjectionResult,
+  StressProjectionYear,
+} from "@/lib/types"
+
+// Number of projected years, one for each year of the scenario paths
+export const STRESS_HORIZON_YEARS = 3
+
+// PD multiplier per unit fall in the macroeconomic index, applied exponentially
+const PD_STRESS_ELASTICITY = 2.5
+// LGD multiplier per unit fall in the macroeconomic index, applied linearly
+const LGD_STRESS_SENSITIVITY = 0.5
+
+interface StressProjectionSettings {
+  resources?: CapitalResources
+  buffers?: CapitalBufferSettings
+}
+
+// PD and LGD multipliers from the change in a counterparty's macroeconomic index since the current conditions
+// The index is specific to the region's path and the industry's sensitivity to each variable
+export function calculateStressMultipliers(
+  counterparty: Pick<Counterparty, "industry" | "region">,
+  currentScenario: MacroScenarioId,
+  scenarioId: MacroScenarioId,
+  year: number,
+): StressMultipliers {
+  const currentIndex = getMacroeconomicIndex(currentScenario, counterparty.region, counterparty.industry)
+  // Projected year 1 takes the first year of the scenario path
+  const macroeconomicIndex = getMacroeconomicIndex(scenarioId, counterparty.region, counterparty.industry, year - 1)
+  const indexChange = currentIndex - macroeconomicIndex
+
+  return {
+    macroeconomicIndex,
+    pd: Math.exp(PD_STRESS_ELASTICITY * indexChange),
+    lgd: Math.max(0, 1 + LGD_STRESS_SENSITIVITY * indexChange),
+  }
+}
+
+// Counterparty as it stands in a projected year
+// Maturities shorten by a year each year; exposures reaching the minimum maturity are assumed to be refinanced at it
+// F-IRB LGDs are set by supervisory values and collateral, so only modelled LGDs are stressed
+export function stressCounterparty(
+  counterparty: Counterparty,
+  multipliers: Pick<StressMultipliers, "pd" | "lgd">,
+  year: number,
+  minMaturity: number,
+): Counterparty {
+  const stressPd = (pd: number) => (pd >= DEFAULTED_PD ? pd : Math.min(MAX_PERFORMING_PD, pd * multipliers.pd))
+  const stressLgd = (lgd: number) => Math.min(1, lgd * multipliers.lgd)
+  const rollDown = (maturity: number) => Math.max(minMaturity, maturity - year)
+
+  return {
+    ...counterparty,
+    pd: stressPd(counterparty.pd),
+    ttcPd: stressPd(counterparty.ttcPd),
+    creditRatingPd: counterparty.creditRatingPd !== undefined ? stressPd(counterparty.creditRatingPd) : undefined,
+    lgd: stressLgd(counterparty.lgd),
+    maturity: rollDown(counterparty.maturity),
+    facilities: counterparty.facilities?.map((facility) => ({
+      ...facility,
+      lgd: facility.lgd !== undefined ? stressLgd(facility.lgd) : undefined,
+      maturity: facility.maturity !== undefined ? rollDown(facility.maturity) : undefined,
+    })),
+  }
+}
+
+// Project the portfolio over the scenario horizon, starting from its current RWA under the live options
+// Capital resources are held constant, so ratios move with RWA and the provision shortfall against expected loss
+export function projectStress(
+  counterparties: Counterparty[],
+  scenarioId: MacroScenarioId,
+  options: CalculationOptions = {},
+  settings: StressProjectionSettings = {},
+): StressProjectionResult {
+  const { resources = DEFAULT_CAPITAL_RESOURCES, buffers = DEFAULT_CAPITAL_BUFFERS } = settings
+  const profile = getRegulatoryProfile(options.regulatoryProfile)
+  const currentScenario = options.macroScenario ?? DEFAULT_MACRO_SCENARIO
+  const years = Array.from({ length: STRESS_HORIZON_YEARS + 1 }, (_, year) => year)
+
+  const projections = counterparties.map((cp) =>
+    years.map((year) => {
+      const multipliers =
+        year === 0
+          ? { macroeconomicIndex: getMacroeconomicIndex(currentScenario, cp.region, cp.industry), pd: 1, lgd: 1 }
+          : calculateStressMultipliers(cp, currentScenario, scenarioId, year)
+      const stressed = year === 0 ? cp : stressCounterparty(cp, multipliers, year, profile.minMaturity)
+      return {
+        counterparty: stressed,
+        multipliers,
+        result: calculateRWA(stressed, options),
+        saRwa: calculateStandardisedRWA(stressed).rwa,
+      }
+    }),
+  )
+
+  const portfolioYears = years.map((year): StressProjectionYear => {
+    const yearResults = projections.map((projection) => projection[year])
+    const ead = yearResults.reduce((sum, { result }) => sum + result.ead, 0)
+    const irbRwa = yearResults.reduce((sum, { result }) => sum + result.rwa, 0)
+    const outputFloor = applyOutputFloor(
+      irbRwa,
+      yearResults.reduce((sum, { saRwa }) => sum + saRwa, 0),
+      profile.outputFloor,
+    )
+    const provisionCapital = calculateProvisionCapital(
+      yearResults.map(({ result }) => result.expectedLoss),
+      irbRwa,
+    )
+    const rwaByRegion = yearResults.reduce<Record<string, number>>((acc, { counterparty, result }) => {
+      acc[counterparty.region] = (acc[counterparty.region] ?? 0) + result.rwa
+      return acc
+    }, {})
+    // EAD-weighted averages of the post-floor parameters
+    const weightedAverage = (value: (result: RwaResult) => number) =>
+      ead > 0 ? yearResults.reduce((sum, { result }) => sum + value(result) * result.ead, 0) / ead : 0
+
+    return {
+      year,
+      ead,
+      averagePd: weightedAverage((result) => result.ttcPd),
+      averageLgd: weightedAverage((result) => result.lgd),
+      irbRwa,
+      rwa: outputFloor.flooredRwa,
+      expectedLoss: provisionCapital.expectedLoss,
+      provisions: provisionCapital.provisions,
+      capitalRatios: calculateCapitalRatios(resources, buffers, outputFloor.flooredRwa, rwaByRegion, provisionCapital),
+    }
+  })
+
+  // Counterparties are compared at the projected year with the highest RWA, where the stress bites hardest
+  // Maturity roll-down lowers RWA over time, so this is often earlier than the final year
+  const peakYear = portfolioYears
+    .slice(1)
+    .reduce((peak, year) => (year.irbRwa > peak.irbRwa ? year : peak), portfolioYears[1]).year
+  const portfolioChange = portfolioYears[peakYear].irbRwa - portfolioYears[0].irbRwa
+
+  const rows = projections.map((projection, index): CounterpartyStressProjection => {
+    const cp = counterparties[index]
+    const rwaChange = projection[peakYear].result.rwa - projection[0].result.rwa
+    return {
+      id: cp.id,
+      name: cp.name,
+      industry: cp.industry,
+      region: cp.region,
+      multipliers: projection.slice(1).map(({ multipliers }) => multipliers),
+      rwa: projection.map(({ result }) => result.rwa),
+      expectedLoss: projection.map(({ result }) => result.expectedLoss.expectedLoss),
+      rwaChange,
+      shareOfChange: portfolioChange !== 0 ? rwaChange / portfolioChange : 0,
+    }
+  })
+
+  return {
+    scenario: scenarioId,
+    currentScenario,
+    years: portfolioYears,
+    peakYear,
+    counterparties: rows.sort((a, b) => b.rwaChange - a.rwaChange),
+  }
+}
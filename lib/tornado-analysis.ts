@@ -0,0 +1,141 @@
+// Tornado Analysis
+// Shocks each risk parameter down and up in turn and ranks the parameters by their impact on RWA,
+// for a single counterparty or the sum over a portfolio segment
+
+import { creditRatings, getRatingFromPd } from "@/lib/credit-ratings"
+import { DEFAULTED_PD, MAX_PERFORMING_PD } from "@/lib/default-calculator"
+import { calculateRWA } from "@/lib/rwa-calculator"
+import { applyWhatIfShock } from "@/lib/what-if-scenarios"
+import type {
+  CalculationOptions,
+  Counterparty,
+  RwaResult,
+  TornadoBar,
+  TornadoParameter,
+  TornadoResult,
+  TornadoSettings,
+} from "@/lib/types"
+
+// Display names for tornado parameters
+export const TORNADO_PARAMETER_LABELS: Record<TornadoParameter, string> = {
+  pd: "PIT PD",
+  ttcPd: "TTC PD",
+  lgd: "LGD",
+  ead: "EAD",
+  maturity: "Maturity",
+  rating: "Rating",
+}
+
+export const TORNADO_PARAMETERS = Object.keys(TORNADO_PARAMETER_LABELS) as TornadoParameter[]
+
+export const DEFAULT_TORNADO_SETTINGS: TornadoSettings = {
+  shock: 0.1,
+  notches: 1,
+}
+
+// Notching stops at the lowest performing rating; moving into "D" would put the counterparty in default
+const LOWEST_PERFORMING_RATING_INDEX = creditRatings.findIndex((rating) => rating.pd >= DEFAULTED_PD) - 1
+
+// TTC PD after moving the counterparty's rating by a number of notches, positive for a downgrade
+// The current PD is scaled by the ratio of the two rating PDs, so a model PD between grades keeps its position
+function notchTtcPd(counterparty: Counterparty, baseline: RwaResult, notches: number): number {
+  const { preFloorTtcPd } = baseline.floors
+  const currentRating =
+    counterparty.useCredRatingPd && counterparty.creditRating
+      ? counterparty.creditRating
+      : getRatingFromPd(preFloorTtcPd)
+  const currentIndex = creditRatings.findIndex((rating) => rating.rating === currentRating)
+  if (currentIndex < 0) return preFloorTtcPd
+
+  const notchedIndex = Math.max(0, Math.min(LOWEST_PERFORMING_RATING_INDEX, currentIndex + notches))
+  const ratio = creditRatings[notchedIndex].pd / creditRatings[currentIndex].pd
+  return Math.min(MAX_PERFORMING_PD, preFloorTtcPd * ratio)
+}
+
+// RWA of one counterparty with a parameter moved in one direction
+// PDs go through the overrides so they move the value the engine uses whether or not a macro scenario re-derives the
+// TTC PD; LGD and maturity are shocked on each facility as well as the counterparty
+// Defaulted and slotted counterparties have no PD to shock, so their PD and rating shocks leave RWA unchanged
+function calculateShockedRwa(
+  counterparty: Counterparty,
+  options: CalculationOptions,
+  baseline: RwaResult,
+  parameter: TornadoParameter,
+  direction: -1 | 1,
+  settings: TornadoSettings,
+): number {
+  const multiplier = 1 + direction * settings.shock
+  const hasPd = !baseline.isDefaulted && baseline.slotting === null
+  const shockPd = (pd: number) => Math.max(0, Math.min(MAX_PERFORMING_PD, pd * multiplier))
+
+  const shockCounterparty = (shocked: "lgd" | "maturity") =>
+    applyWhatIfShock(counterparty, {
+      parameter: shocked,
+      operation: "multiply",
+      value: multiplier,
+      target: { type: "portfolio" },
+    })
+
+  switch (parameter) {
+    case "pd": {
+      if (!hasPd) return baseline.rwa
+      // Overriding the PIT PD re-derives the TTC PD, which differs from the stored TTC PD when no scenario is set,
+      // so the shock is measured from the re-derived value at the unshocked PIT PD
+      const pdRwa = (pd: number) => calculateRWA(counterparty, { ...options, pdOverride: pd }).rwa
+      return baseline.rwa + pdRwa(shockPd(baseline.pd)) - pdRwa(baseline.pd)
+    }
+    case "ttcPd":
+      return hasPd
+        ? calculateRWA(counterparty, { ...options, ttcPdOverride: shockPd(baseline.floors.preFloorTtcPd) }).rwa
+        : baseline.rwa
+    case "lgd":
+    case "maturity":
+      return calculateRWA(shockCounterparty(parameter), options).rwa
+    case "ead":
+      return calculateRWA(counterparty, { ...options, eadOverride: baseline.ead * multiplier }).rwa
+    case "rating":
+      return hasPd
+        ? calculateRWA(counterparty, {
+            ...options,
+            ttcPdOverride: notchTtcPd(counterparty, baseline, direction * settings.notches),
+          }).rwa
+        : baseline.rwa
+  }
+}
+
+// Shock every parameter down and up for each counterparty, summing RWA over the counterparties
+export function calculateTornado(
+  counterparties: Counterparty[],
+  options: CalculationOptions = {},
+  settings: TornadoSettings = DEFAULT_TORNADO_SETTINGS,
+): TornadoResult {
+  const baselines = counterparties.map((cp) => calculateRWA(cp, options))
+  const baselineRwa = baselines.reduce((sum, result) => sum + result.rwa, 0)
+
+  const sumShockedRwa = (parameter: TornadoParameter, direction: -1 | 1) =>
+    counterparties.reduce(
+      (sum, cp, index) => sum + calculateShockedRwa(cp, options, baselines[index], parameter, direction, settings),
+      0,
+    )
+
+  const bars = TORNADO_PARAMETERS.map((parameter): TornadoBar => {
+    const downRwa = sumShockedRwa(parameter, -1)
+    const upRwa = sumShockedRwa(parameter, 1)
+    const downChange = downRwa - baselineRwa
+    const upChange = upRwa - baselineRwa
+    return {
+      parameter,
+      downRwa,
+      upRwa,
+      downChange,
+      upChange,
+      impact: Math.max(Math.abs(downChange), Math.abs(upChange)),
+    }
+  })
+
+  return {
+    baselineRwa,
+    counterparties: counterparties.length,
+    bars: bars.sort((a, b) => b.impact - a.impact),
+  }
+}
@@ -1,19 +1,33 @@
 // Through-The-Cycle (TTC) PD Calculator
 
-// Function to calculate TTC PD based on various inputs
-export function calculateTtcPd(inputs: {
+import { DEFAULT_MACRO_SCENARIO, getMacroeconomicIndex } from "@/lib/macro-scenarios"
+import type { Counterparty, MacroScenarioId } from "@/lib/types"
+
+// Regulatory PD floors applied by calculateRWA to the TTC PD (Basel II 3 bps, Basel III 5 bps)
+export const BASEL_II_PD_FLOOR = 0.0003
+export const BASEL_III_PD_FLOOR = 0.0005
+
+interface TtcPdInputs {
   pointInTimePd: number
-  macroeconomicIndex: number // Index representing current economic conditions (0-1, where 1 is strong economy)
-  longTermAverage: number // Long-term average default rate for the sector
-  cyclicality: number // How cyclical the industry is (0-1, where 1 is highly cyclical)
-}): number {
+  macroeconomicIndex?: number // Index representing current economic conditions (0-1, where 1 is strong economy)
+  longTermAverage?: number // Long-term average default rate for the sector
+  cyclicality?: number // How cyclical the industry is (0-1, where 1 is highly cyclical)
+}
+
+// Function to calculate TTC PD based on various inputs
+export function calculateTtcPd(inputs: TtcPdInputs): number {
+  return calculateTtcPdComponents(inputs).ttcPd
+}
+
+// TTC PD with the inputs after defaults and the cycle adjustment, used to explain the calculation
+export function calculateTtcPdComponents(inputs: TtcPdInputs) {
   const { pointInTimePd, macroeconomicIndex, longTermAverage, cyclicality } = inputs
 
   // Check for invalid inputs and provide defaults
   const safePd = isNaN(pointInTimePd) ? 0.01 : pointInTimePd
-  const safeIndex = isNaN(macroeconomicIndex) ? 0.5 : macroeconomicIndex
-  const safeAverage = isNaN(longTermAverage) ? 0.02 : longTermAverage
-  const safeCyclicality = isNaN(cyclicality) ? 0.5 : cyclicality
+  const safeIndex = macroeconomicIndex === undefined || isNaN(macroeconomicIndex) ? 0.5 : macroeconomicIndex
+  const safeAverage = longTermAverage === undefined || isNaN(longTermAverage) ? 0.02 : longTermAverage
+  const safeCyclicality = cyclicality === undefined || isNaN(cyclicality) ? 0.5 : cyclicality
 
   // Calculate economic adjustment factor
   // When economy is strong (index close to 1), PIT PD is lower than TTC PD
@@ -29,12 +43,22 @@ export function calculateTtcPd(inputs: {
   // Blend with long-term average to ensure stability
   ttcPd = ttcPd * 0.7 + safeAverage * 0.3
 
-  // Ensure PD is within reasonable bounds
-  return Math.max(0.0001, Math.min(1, ttcPd))
+  return {
+    pointInTimePd: safePd,
+    macroeconomicIndex: safeIndex,
+    longTermAverage: safeAverage,
+    cyclicality: safeCyclicality,
+    cycleAdjustment: adjustment,
+    // Ensure PD is within reasonable bounds
+    ttcPd: Math.max(0.0001, Math.min(1, ttcPd)),
+  }
 }
 
-// Function to generate synthetic TTC PD inputs for a counterparty
-export function generateTtcPdInputs(counterparty) {
+// Function to generate synthetic TTC PD inputs for a counterparty under a macroeconomic scenario
+export function generateTtcPdInputs(
+  counterparty: Pick<Counterparty, "industry" | "region" | "pd">,
+  scenarioId: MacroScenarioId = DEFAULT_MACRO_SCENARIO,
+) {
   // Generate realistic inputs based on counterparty data
   const industry = counterparty.industry
 
@@ -49,10 +73,8 @@ export function generateTtcPdInputs(counterparty) {
     cyclicality = 0.6 // Moderately cyclical
   }
 
-  // Generate macroeconomic index (current economic conditions)
-  // For simplicity, we'll use a fixed value representing current conditions
-  // In a real system, this would come from economic forecasts
-  const macroeconomicIndex = 0.6 // Slightly above neutral economy
+  // Macroeconomic index from the scenario's current conditions in the counterparty's region
+  const macroeconomicIndex = getMacroeconomicIndex(scenarioId, counterparty.region, industry)
 
   // Generate long-term average default rate based on industry
   let longTermAverage = 0.02 // Default 2%
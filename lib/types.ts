@@ -0,0 +1,746 @@
+// Shared domain model for the RWA calculator
+// The zod schemas validate counterparty data at load time and the inferred types are used by
+// the calculation engine and every dashboard component
+
+import { z } from "zod"
+
+// A probability or rate expressed as a decimal between 0 and 1
+const unitInterval = z.number().min(0).max(1)
+
+// Counterparty-specific RWA adjustment created in the RWA adjustment panel
+export const rwaAdjustmentSchema = z.object({
+  type: z.enum(["absolute", "additive", "multiplicative", "percentage"]),
+  value: z.number().optional(),
+  adjustedRWA: z.number().optional(),
+  adjustment: z.number().optional(),
+  multiplier: z.number().optional(),
+  reason: z.string().optional(),
+  timestamp: z.string().optional(),
+})
+
+// Share of a portfolio-level adjustment allocated to a single counterparty
+export const portfolioRwaAdjustmentSchema = z.object({
+  type: z.enum(["absolute", "additive", "multiplicative"]),
+  multiplier: z.number().optional(),
+  adjustment: z.number().optional(),
+  adjustedRWA: z.number().optional(),
+})
+
+// IRB asset class, which selects the correlation formula and whether a maturity adjustment applies
+const assetClassSchema = z.enum(["corporate", "residentialMortgage", "qualifyingRevolvingRetail", "otherRetail"])
+
+// Seniority of a claim, which sets the F-IRB unsecured LGD
+const senioritySchema = z.enum(["senior", "subordinated"])
+
+// Collateral recognised under the F-IRB approach
+export const collateralSchema = z.object({
+  type: z.enum(["financial", "receivables", "realEstate", "otherPhysical"]),
+  value: z.number().nonnegative(),
+  // Supervisory haircut applied to financial collateral
+  haircut: unitInterval.optional(),
+  description: z.string().optional(),
+})
+
+// Specialised lending without a reliable PD, risk-weighted with the supervisory slotting approach
+export const specialisedLendingSchema = z.object({
+  type: z.enum(["projectFinance", "objectFinance", "commodityFinance", "incomeProducingRealEstate"]),
+  category: z.enum(["strong", "good", "satisfactory", "weak", "default"]),
+})
+
+// Credit facility; undrawn commitments are converted to EAD with a credit conversion factor (CCF)
+export const facilitySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().optional(),
+  facilityType: z.enum([
+    "termLoan",
+    "revolvingCredit",
+    "unconditionallyCancellable",
+    "tradeFinance",
+    "performanceGuarantee",
+    "financialGuarantee",
+  ]),
+  drawn: z.number().nonnegative(),
+  undrawn: z.number().nonnegative(),
+  // Replaces the regulatory CCF for this facility
+  ccfOverride: unitInterval.optional(),
+
+  // Facility risk parameters; the counterparty values apply when these are not set
+  assetClass: assetClassSchema.optional(),
+  lgd: unitInterval.optional(),
+  maturity: z.number().positive().optional(),
+  seniority: senioritySchema.optional(),
+
+  // Facility-level RWA adjustment, applied before any counterparty adjustment
+  rwaAdjustment: rwaAdjustmentSchema.optional(),
+})
+
+export const counterpartySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  industry: z.string(),
+  region: z.string(),
+
+  // Core risk parameters
+  pd: unitInterval,
+  ttcPd: unitInterval,
+  lgd: unitInterval,
+  ead: z.number().nonnegative(),
+  maturity: z.number().positive(),
+
+  // Firm size
+  revenue: z.number().nonnegative().optional(),
+  assetSize: z.number().nonnegative().optional(),
+
+  // Financial institution flags used by the AVC multiplier
+  isFinancial: z.boolean(),
+  isLargeFinancial: z.boolean(),
+  isRegulated: z.boolean(),
+
+  // TTC PD calculation inputs
+  macroeconomicIndex: unitInterval.optional(),
+  longTermAverage: unitInterval.optional(),
+  cyclicality: unitInterval.optional(),
+
+  // IRB asset class, corporate when not set
+  assetClass: assetClassSchema.optional(),
+
+  // Facilities making up the exposure; when present EAD is derived from them
+  facilities: z.array(facilitySchema).optional(),
+
+  // IRB approach: A-IRB uses the modelled LGD, F-IRB derives it from seniority and collateral
+  irbApproach: z.enum(["AIRB", "FIRB"]).optional(),
+  seniority: senioritySchema.optional(),
+  collateral: z.array(collateralSchema).optional(),
+
+  // Slotting replaces the PD-based IRB formula when set
+  specialisedLending: specialisedLendingSchema.optional(),
+
+  // Default status; defaulted counterparties hold capital only for loss above the best-estimate expected loss
+  isDefaulted: z.boolean().optional(),
+  defaultDate: z.string().optional(),
+  defaultReason: z.enum(["pastDue90", "unlikelyToPay", "distressedRestructuring", "bankruptcy"]).optional(),
+  // Best-estimate expected loss (ELBE) as a share of EAD, used for defaulted A-IRB exposures
+  elbe: unitInterval.optional(),
+
+  // Specific and general provisions held against the counterparty, compared with IRB expected loss
+  provisions: z.number().nonnegative().optional(),
+
+  // Credit review data
+  creditRating: z.string().nullable().optional(),
+  creditRatingPd: unitInterval.optional(),
+  creditReviewDate: z.string().nullable().optional(),
+  useCredRatingPd: z.boolean().optional(),
+  rating: z.string().optional(),
+  pdOverride: z.boolean().optional(),
+  notes: z.string().optional(),
+  reviewDate: z.string().optional(),
+  lastReviewDate: z.string().optional(),
+
+  // Adjustments
+  modifiedModules: z.array(z.string()).optional(),
+  rwaAdjustment: rwaAdjustmentSchema.optional(),
+  portfolioRwaAdjustment: portfolioRwaAdjustmentSchema.optional(),
+})
+
+// Counterparties a what-if shock applies to
+export const whatIfTargetSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("portfolio") }),
+  z.object({ type: z.literal("counterparty"), counterpartyId: z.string().min(1) }),
+  z.object({ type: z.literal("industry"), industry: z.string().min(1) }),
+  z.object({ type: z.literal("region"), region: z.string().min(1) }),
+])
+
+// One parameter change of a what-if scenario
+// Added amounts are in the parameter's own units: decimals for PD and LGD, dollars for EAD and years for maturity
+export const whatIfShockSchema = z.object({
+  parameter: z.enum(["pd", "lgd", "ead", "maturity"]),
+  operation: z.enum(["multiply", "add"]),
+  value: z.number().finite(),
+  target: whatIfTargetSchema,
+})
+
+// Named set of shocks applied together, saved in the scenario library
+export const whatIfScenarioSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  shocks: z.array(whatIfShockSchema),
+  updatedAt: z.string(),
+})
+
+export type RwaAdjustment = z.infer<typeof rwaAdjustmentSchema>
+export type PortfolioRwaAdjustment = z.infer<typeof portfolioRwaAdjustmentSchema>
+export type Facility = z.infer<typeof facilitySchema>
+export type FacilityType = Facility["facilityType"]
+export type Collateral = z.infer<typeof collateralSchema>
+export type CollateralType = Collateral["type"]
+// Approach that produced a result; specialised lending counterparties are always slotted
+export type IrbApproach = NonNullable<Counterparty["irbApproach"]> | "SLOTTING"
+export type SpecialisedLending = z.infer<typeof specialisedLendingSchema>
+export type SpecialisedLendingType = SpecialisedLending["type"]
+export type SlottingCategory = SpecialisedLending["category"]
+// Remaining maturity bucket of the slotting risk weight table
+export type SlottingMaturityBucket = "lessThan2.5Years" | "atLeast2.5Years"
+export type Seniority = z.infer<typeof senioritySchema>
+export type AssetClass = z.infer<typeof assetClassSchema>
+export type DefaultReason = NonNullable<Counterparty["defaultReason"]>
+export type Counterparty = z.infer<typeof counterpartySchema>
+export type WhatIfTarget = z.infer<typeof whatIfTargetSchema>
+export type WhatIfTargetType = WhatIfTarget["type"]
+export type WhatIfShock = z.infer<typeof whatIfShockSchema>
+export type WhatIfParameter = WhatIfShock["parameter"]
+export type WhatIfOperation = WhatIfShock["operation"]
+export type WhatIfScenario = z.infer<typeof whatIfScenarioSchema>
+
+// Optional overrides and switches for calculateRWA, used by sensitivity and what-if analysis
+export interface CalculationOptions {
+  // Point-in-time PD; the TTC PD is re-derived from it unless ttcPdOverride is also set
+  pdOverride?: number | null
+  ttcPdOverride?: number | null
+  lgdOverride?: number | null
+  eadOverride?: number | null
+  maturityOverride?: number | null
+  // Asset correlation used in place of the Basel correlation curve and AVC multiplier
+  correlationOverride?: number | null
+  // Share of undrawn commitments assumed drawn at default, replacing every facility's CCF
+  undrawnUtilisation?: number | null
+  // Set to false to ignore the SME firm-size correlation adjustment
+  useSmeAdjustment?: boolean
+  // Set to false to ignore the maturity adjustment (MA = 1)
+  useMaturityAdjustment?: boolean
+  // Set to false to use the simplified K = LGD x PD instead of the IRB formula
+  useBaselFormula?: boolean
+  // Regulatory parameter set, Basel III when not set
+  regulatoryProfile?: RegulatoryProfileId
+  // Minimum TTC PD, the profile's PD floor when not set
+  pdFloor?: number
+  // A-IRB LGD floors, the profile's floors when not set; null switches LGD floors off
+  lgdFloors?: LgdFloors | null
+  // RWA scaling factor, the profile's when not set
+  scalingFactor?: number
+  // AVC multiplier for large and unregulated financials, the profile's when not set
+  avcMultiplier?: number
+  // Macroeconomic scenario the TTC PD is derived under; the counterparty's TTC PD is used when not set
+  macroScenario?: MacroScenarioId
+  // Set to true to return the intermediate steps of the calculation with the result
+  trace?: boolean
+}
+
+export type MacroScenarioId = "baseline" | "adverse" | "severelyAdverse"
+
+export type MacroVariable = "gdpGrowth" | "unemployment" | "interestRate"
+
+// Economic conditions in one year of a scenario, in percent
+export type MacroConditions = Record<MacroVariable, number>
+
+// Named macroeconomic scenario with a yearly path of conditions for each region
+export interface MacroScenario {
+  id: MacroScenarioId
+  name: string
+  description: string
+  // Conditions by region, one entry per projection year starting with the current year
+  paths: Record<string, MacroConditions[]>
+}
+
+// Part of the calculation a trace step belongs to
+export type CalculationTraceStage = "input" | "default" | "pd" | "correlation" | "capital" | "adjustment" | "result"
+
+export type TraceValue = number | string | boolean | null
+
+// One intermediate step of calculateRWA, recorded when a trace is requested
+export interface CalculationTraceStep {
+  stage: CalculationTraceStage
+  label: string
+  // Values used or produced by the step; optional adjustment fields may be missing
+  values: Partial<Record<string, TraceValue>>
+  // RWA before and after an adjustment or the final result
+  before?: number
+  after?: number
+}
+
+// One line of a formula walkthrough: the formula, the same formula with the traced values substituted and its result
+export interface FormulaWalkthroughStep {
+  label: string
+  formula: string
+  substitution: string
+  result: string
+}
+
+export type RegulatoryProfileId = "baselII" | "baselIII" | "euCrr3" | "ukPra"
+
+// Lower and upper bound of a PD-dependent correlation curve
+export interface CorrelationBounds {
+  low: number
+  high: number
+}
+
+// Regulatory parameters of a jurisdiction or Basel version, used throughout calculateRWA
+export interface RegulatoryProfile {
+  id: RegulatoryProfileId
+  name: string
+  description: string
+  // Confidence level of the IRB formula, G(0.999)
+  confidenceLevel: number
+  // Converts K into RWA, the reciprocal of the 8% minimum ratio
+  rwaMultiplier: number
+  // Scaling applied to IRB RWA, 1.06 under Basel II
+  scalingFactor: number
+  // Correlation multiplier for large or unregulated financial institutions
+  avcMultiplier: number
+  // Bounds on effective maturity in years
+  minMaturity: number
+  maxMaturity: number
+  corporateCorrelation: CorrelationBounds
+  pdFloor: number
+  lgdFloors: LgdFloors | null
+  // F-IRB LGD for unsecured claims and recognition of non-financial collateral
+  supervisoryLgd: SupervisoryLgd
+  collateralRules: CollateralRules
+  // Share of SA RWA below which IRB RWA may not fall, 0 when there is no output floor
+  outputFloor: number
+}
+
+// F-IRB supervisory LGD for unsecured claims as decimals
+export interface SupervisoryLgd {
+  // Senior claims on non-financial corporates and on financial institutions
+  senior: number
+  seniorFinancial: number
+  subordinated: number
+}
+
+// F-IRB recognition of one type of non-financial collateral
+export interface CollateralRule {
+  // Supervisory LGD of the secured part
+  lgd: number
+  // C*: collateral / exposure below which the collateral is not recognised
+  minimumCoverage: number
+  // C**: collateral / exposure required to secure the exposure in full
+  fullCoverage: number
+}
+
+export type CollateralRules = Record<Exclude<CollateralType, "financial">, CollateralRule>
+
+// A-IRB LGD floors as decimals
+export interface LgdFloors {
+  // Corporate floors by collateral type; partly secured exposures use the exposure-weighted blend
+  unsecured: number
+  financial: number
+  receivables: number
+  realEstate: number
+  otherPhysical: number
+  // Retail floors by asset class
+  residentialMortgage: number
+  qualifyingRevolvingRetail: number
+  otherRetail: number
+}
+
+// Output of calculateRWA for a single counterparty
+export interface RwaResult {
+  // Version of the formula set that produced this result
+  methodologyVersion: string
+  // Regulatory parameter set the result was calculated under
+  regulatoryProfile: RegulatoryProfileId
+  irbApproach: IrbApproach
+  assetClass: AssetClass
+  pd: number
+  ttcPd: number
+  lgd: number
+  ead: number
+  maturity: number
+  baseCorrelation: number
+  // Correlation reduction for SME corporates, 0 when it does not apply
+  smeAdjustment: number
+  avcMultiplier: number
+  correlation: number
+  maturityAdjustment: number
+  k: number
+  rwa: number
+  originalRwa: number
+  hasAdjustment: boolean
+  hasPortfolioAdjustment: boolean
+  rwaDensity: number
+  // Facility-level results that sum to the counterparty, empty when the counterparty has no facilities
+  facilities: FacilityRwaResult[]
+  // Slotting details, null for PD-based IRB
+  slotting: SlottingResult | null
+  // Defaulted exposures use K = max(0, LGD - ELBE) in place of the IRB formula
+  isDefaulted: boolean
+  // ELBE applied to defaulted exposures, null when not in default
+  elbe: number | null
+  // PD and LGD before and after the regulatory input floors
+  floors: InputFloorResult
+  // Expected loss compared with the counterparty's provisions
+  expectedLoss: ExpectedLossResult
+  // Intermediate steps of the calculation, only present when options.trace is set
+  trace?: CalculationTraceStep[]
+}
+
+// IRB expected loss against provisions for a counterparty or portfolio
+export interface ExpectedLossResult {
+  expectedLoss: number
+  provisions: number
+  // Expected loss not covered by provisions
+  shortfall: number
+  // Provisions above expected loss
+  excess: number
+}
+
+// Capital treatment of the portfolio provision shortfall or excess
+export interface ProvisionCapitalResult extends ExpectedLossResult {
+  // The whole shortfall is deducted from CET1
+  cet1Deduction: number
+  // Excess recognised in Tier 2, capped at a share of credit RWA
+  tier2AddBack: number
+  tier2Cap: number
+  isTier2CapBinding: boolean
+}
+
+// Regulatory input floors applied by calculateRWA; ttcPd and lgd on the result are post-floor
+export interface InputFloorResult {
+  pdFloor: number
+  preFloorTtcPd: number
+  isPdFloorBinding: boolean
+  // EAD-weighted across facilities
+  lgdFloor: number
+  preFloorLgd: number
+  isLgdFloorBinding: boolean
+  // Model RWA added by binding floors
+  rwaAddOn: number
+}
+
+// Slotting outcome for a specialised lending counterparty
+export interface SlottingResult {
+  type: SpecialisedLendingType
+  category: SlottingCategory
+  // EAD-weighted across facilities, which fall into maturity buckets individually
+  riskWeight: number
+  expectedLossRate: number
+}
+
+// EAD of a single facility
+export interface FacilityExposure {
+  id: string
+  name: string
+  facilityType: FacilityType
+  drawn: number
+  undrawn: number
+  ccf: number
+  isCcfOverridden: boolean
+  ead: number
+}
+
+// Output of calculateRWA for a single facility; the obligor PD and correlation are shared
+export interface FacilityRwaResult extends FacilityExposure {
+  assetClass: AssetClass
+  correlation: number
+  preFloorLgd: number
+  lgdFloor: number
+  lgd: number
+  maturity: number
+  maturityAdjustment: number
+  k: number
+  rwa: number
+  originalRwa: number
+  // Model RWA without the PD and LGD floors
+  preFloorRwa: number
+  expectedLoss: number
+  hasAdjustment: boolean
+}
+
+// Output of calculateExposure for a single counterparty
+export interface ExposureResult {
+  drawn: number
+  undrawn: number
+  ead: number
+  facilities: FacilityExposure[]
+}
+
+// Exposure secured by one type of non-financial collateral under F-IRB
+export interface SecuredPortion {
+  type: CollateralType
+  collateralValue: number
+  securedExposure: number
+  lgd: number
+}
+
+// Output of calculateFirbLgd for a single counterparty
+export interface FirbLgdResult {
+  seniority: Seniority
+  unsecuredLgd: number
+  ead: number
+  // Financial collateral value after haircuts and the exposure it leaves uncovered (E*)
+  adjustedFinancialCollateral: number
+  exposureAfterFinancialCollateral: number
+  // Whether physical collateral meets the minimum coverage threshold (C*)
+  meetsPhysicalThreshold: boolean
+  securedPortions: SecuredPortion[]
+  unsecuredExposure: number
+  lgd: number
+}
+
+// Exposure class used by the Standardised Approach
+export type SaExposureClass = "corporate" | "bank"
+
+// Output of calculateStandardisedRWA for a single counterparty
+export interface StandardisedResult {
+  exposureClass: SaExposureClass
+  rating: string | null
+  ratingBucket: string
+  riskWeight: number
+  ead: number
+  rwa: number
+}
+
+// IRB RWA after applying the output floor
+export interface OutputFloorResult {
+  irbRwa: number
+  saRwa: number
+  floor: number
+  floorRwa: number
+  flooredRwa: number
+  floorAddOn: number
+  isFloorBinding: boolean
+}
+
+// Capital resources available to meet the capital ratio requirements
+export interface CapitalResources {
+  cet1: number
+  additionalTier1: number
+  tier2: number
+}
+
+// Buffers held on top of the minimum ratios, as shares of RWA
+export interface CapitalBufferSettings {
+  conservationBuffer: number
+  // Countercyclical buffer rate by region, weighted by the RWA in each region
+  countercyclicalRates: Record<string, number>
+  // Higher of the G-SIB and D-SIB buffers
+  systemicBuffer: number
+}
+
+export type CapitalTier = "cet1" | "tier1" | "total"
+
+// One capital ratio against its minimum plus the combined buffer
+export interface CapitalRatioLine {
+  capital: number
+  ratio: number
+  minimum: number
+  requirement: number
+  requiredCapital: number
+  // Capital and ratio above the requirement, negative when it is breached
+  headroom: number
+  ratioHeadroom: number
+  isBreached: boolean
+}
+
+// Output of calculateCapitalRatios for the portfolio
+export interface CapitalRatioResult {
+  rwa: number
+  countercyclicalBuffer: number
+  combinedBuffer: number
+  // CET1 and Tier 2 after the provision shortfall deduction and excess add-back
+  resources: CapitalResources
+  ratios: Record<CapitalTier, CapitalRatioLine>
+}
+
+// Parameter changes a regime comparison attributes RWA movements to
+// "other" covers the remaining formula constants such as the confidence level and correlation bounds
+export type RegimeDriver = "pdFloor" | "lgdFloor" | "scalingFactor" | "avc" | "outputFloor" | "other"
+
+// RWA under two regulatory profiles and the movement from one to the other, split by driver
+export interface RegimeDelta {
+  baseRwa: number
+  targetRwa: number
+  delta: number
+  drivers: Record<RegimeDriver, number>
+}
+
+export interface CounterpartyRegimeDelta extends RegimeDelta {
+  id: string
+  name: string
+  industry: string
+  region: string
+}
+
+export interface SegmentRegimeDelta extends RegimeDelta {
+  name: string
+  counterparties: number
+}
+
+// Output of compareRegimes for a portfolio
+export interface RegimeComparisonResult {
+  baseProfile: RegulatoryProfileId
+  targetProfile: RegulatoryProfileId
+  total: RegimeDelta
+  counterparties: CounterpartyRegimeDelta[]
+  byIndustry: SegmentRegimeDelta[]
+  byRegion: SegmentRegimeDelta[]
+}
+
+// Stress applied to a counterparty in one projected year
+export interface StressMultipliers {
+  // Macroeconomic index of the counterparty's region and industry in that year
+  macroeconomicIndex: number
+  pd: number
+  lgd: number
+}
+
+// Portfolio totals for one year of a stress projection, year 0 being the current portfolio
+export interface StressProjectionYear {
+  year: number
+  ead: number
+  // EAD-weighted PD and LGD after the regulatory floors
+  averagePd: number
+  averageLgd: number
+  // RWA before and after the output floor
+  irbRwa: number
+  rwa: number
+  expectedLoss: number
+  provisions: number
+  capitalRatios: CapitalRatioResult
+}
+
+// One counterparty's path through the projection; rwa and expectedLoss start with the current year
+export interface CounterpartyStressProjection {
+  id: string
+  name: string
+  industry: string
+  region: string
+  // Multipliers of each projected year
+  multipliers: StressMultipliers[]
+  rwa: number[]
+  expectedLoss: number[]
+  // RWA movement from the current to the peak year and its share of the portfolio movement
+  rwaChange: number
+  shareOfChange: number
+}
+
+// Output of projectStress for a portfolio
+export interface StressProjectionResult {
+  scenario: MacroScenarioId
+  // Scenario whose first year sets the current conditions the stress is measured from
+  currentScenario: MacroScenarioId
+  years: StressProjectionYear[]
+  // Projected year with the highest IRB RWA, which the counterparty changes are measured to
+  peakYear: number
+  // Sorted by RWA increase, largest first
+  counterparties: CounterpartyStressProjection[]
+}
+
+// Portfolio totals of a what-if run
+export interface WhatIfTotals {
+  ead: number
+  rwa: number
+  expectedLoss: number
+}
+
+// One counterparty under the baseline and a what-if scenario
+export interface CounterpartyWhatIfResult {
+  id: string
+  name: string
+  industry: string
+  region: string
+  // Number of the scenario's shocks that apply to the counterparty
+  shocksApplied: number
+  baseline: WhatIfTotals
+  scenario: WhatIfTotals
+  rwaChange: number
+}
+
+// Output measured in each cell of a sensitivity grid
+export type SensitivityMetric = "rwa" | "k" | "rwaDensity"
+
+// One axis of a sensitivity grid: multipliers of the counterparty's current parameter value
+export interface SensitivityGridAxis {
+  parameter: WhatIfParameter
+  min: number
+  max: number
+  steps: number
+}
+
+// Result for one pair of multipliers
+export interface SensitivityGridCell extends Record<SensitivityMetric, number> {
+  xMultiplier: number
+  yMultiplier: number
+  // RWA change from the baseline, in percent
+  change: number
+  isBaseline: boolean
+}
+
+// Output of calculateSensitivityGrid; cells are in rows of y values, each row ordered by x
+export interface SensitivityGridResult {
+  x: { parameter: WhatIfParameter; baseline: number; multipliers: number[] }
+  y: { parameter: WhatIfParameter; baseline: number; multipliers: number[] }
+  cells: SensitivityGridCell[][]
+  baseline: Record<SensitivityMetric, number>
+}
+
+// Parameters shocked in a tornado analysis; the rating moves by notches and the others by a percentage
+export type TornadoParameter = "pd" | "ttcPd" | "lgd" | "ead" | "maturity" | "rating"
+
+export interface TornadoSettings {
+  // Relative shock applied down and up, e.g. 0.1 for -10% and +10%
+  shock: number
+  // Rating notches applied as an upgrade and a downgrade
+  notches: number
+}
+
+// RWA with one parameter shocked in each direction; up is the riskier direction, e.g. a downgrade
+export interface TornadoBar {
+  parameter: TornadoParameter
+  downRwa: number
+  upRwa: number
+  downChange: number
+  upChange: number
+  // Larger of the two absolute RWA changes, which the bars are ranked by
+  impact: number
+}
+
+// Output of calculateTornado for one counterparty or a segment
+export interface TornadoResult {
+  baselineRwa: number
+  counterparties: number
+  // Sorted by impact, largest first
+  bars: TornadoBar[]
+}
+
+// Output of runWhatIfScenario for a portfolio
+export interface WhatIfResult {
+  scenarioId: string
+  baseline: WhatIfTotals
+  scenario: WhatIfTotals
+  // Counterparties hit by at least one shock, sorted by the size of their RWA change
+  counterparties: CounterpartyWhatIfResult[]
+}
+
+// Engine outputs pinned by a regression case
+export interface RegressionValues {
+  correlation: number
+  maturityAdjustment: number
+  k: number
+  rwa: number
+}
+
+// Reference counterparty with the engine outputs recorded when the baseline was taken
+export interface RegressionCase {
+  id: string
+  name: string
+  // Changes to the reference counterparty
+  counterparty: Partial<Counterparty>
+  options?: CalculationOptions
+  expected: RegressionValues
+}
+
+// Validate a single counterparty, throwing a ZodError describing every invalid field
+export function parseCounterparty(data: unknown): Counterparty {
+  return counterpartySchema.parse(data)
+}
+
+// Validate a list of counterparties, throwing a ZodError describing every invalid field
+export function parseCounterparties(data: unknown): Counterparty[] {
+  return z.array(counterpartySchema).parse(data)
+}
+
+// Summarise a validation error as "field: message" pairs for display
+export function formatValidationError(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join(".") || "counterparty"}: ${issue.message}`).join("; ")
+}
@@ -0,0 +1,194 @@
+// What-If Scenarios
+// Named sets of parameter shocks applied together to the portfolio, or to counterparties selected by id, industry
+// or region, and compared with the baseline. Scenarios are saved in the browser so they can be re-run later
+
+import { DEFAULTED_PD, MAX_PERFORMING_PD } from "@/lib/default-calculator"
+import { calculateExposure, scaleExposure } from "@/lib/ead-calculator"
+import { calculateRWA } from "@/lib/rwa-calculator"
+import { whatIfScenarioSchema } from "@/lib/types"
+import type {
+  CalculationOptions,
+  Counterparty,
+  CounterpartyWhatIfResult,
+  RwaResult,
+  WhatIfOperation,
+  WhatIfParameter,
+  WhatIfResult,
+  WhatIfScenario,
+  WhatIfShock,
+  WhatIfTarget,
+  WhatIfTargetType,
+  WhatIfTotals,
+} from "@/lib/types"
+
+// Display names for shocked parameters
+export const WHAT_IF_PARAMETER_LABELS: Record<WhatIfParameter, string> = {
+  pd: "PD",
+  lgd: "LGD",
+  ead: "EAD",
+  maturity: "Maturity",
+}
+
+export const WHAT_IF_OPERATION_LABELS: Record<WhatIfOperation, string> = {
+  multiply: "Multiply by",
+  add: "Add",
+}
+
+export const WHAT_IF_TARGET_LABELS: Record<WhatIfTargetType, string> = {
+  portfolio: "Whole portfolio",
+  counterparty: "Counterparty",
+  industry: "Industry",
+  region: "Region",
+}
+
+// Browser storage key of the saved scenario library
+export const WHAT_IF_STORAGE_KEY = "rwa-calculator:what-if-scenarios"
+
+// Window event fired after the library is saved, so every open editor can reload it
+export const WHAT_IF_LIBRARY_EVENT = "rwa-calculator:what-if-library-changed"
+
+// Shocked maturities stay positive, as the counterparty schema requires
+const MIN_SHOCKED_MATURITY = 1 / 365
+
+// Whether a shock's target selects the counterparty
+export function matchesWhatIfTarget(counterparty: Counterparty, target: WhatIfTarget): boolean {
+  switch (target.type) {
+    case "portfolio":
+      return true
+    case "counterparty":
+      return counterparty.id === target.counterpartyId
+    case "industry":
+      return counterparty.industry === target.industry
+    case "region":
+      return counterparty.region === target.region
+  }
+}
+
+// Apply one shock to a counterparty, including the parameters of each facility
+// PD shocks move the PIT, TTC and rating PDs together and leave defaulted counterparties in default
+export function applyWhatIfShock(counterparty: Counterparty, shock: WhatIfShock): Counterparty {
+  const shift = (value: number) => (shock.operation === "multiply" ? value * shock.value : value + shock.value)
+
+  switch (shock.parameter) {
+    case "pd": {
+      const shockPd = (pd: number) => (pd >= DEFAULTED_PD ? pd : Math.max(0, Math.min(MAX_PERFORMING_PD, shift(pd))))
+      return {
+        ...counterparty,
+        pd: shockPd(counterparty.pd),
+        ttcPd: shockPd(counterparty.ttcPd),
+        creditRatingPd: counterparty.creditRatingPd !== undefined ? shockPd(counterparty.creditRatingPd) : undefined,
+      }
+    }
+    case "lgd": {
+      const shockLgd = (lgd: number) => Math.max(0, Math.min(1, shift(lgd)))
+      return {
+        ...counterparty,
+        lgd: shockLgd(counterparty.lgd),
+        facilities: counterparty.facilities?.map((facility) => ({
+          ...facility,
+          lgd: facility.lgd !== undefined ? shockLgd(facility.lgd) : undefined,
+        })),
+      }
+    }
+    case "ead": {
+      // EAD is scaled through the drawn and undrawn amounts, so an exposure of zero cannot be shocked
+      const { ead } = calculateExposure(counterparty)
+      return ead > 0 ? scaleExposure(counterparty, Math.max(0, shift(ead)) / ead) : counterparty
+    }
+    case "maturity": {
+      const shockMaturity = (maturity: number) => Math.max(MIN_SHOCKED_MATURITY, shift(maturity))
+      return {
+        ...counterparty,
+        maturity: shockMaturity(counterparty.maturity),
+        facilities: counterparty.facilities?.map((facility) => ({
+          ...facility,
+          maturity: facility.maturity !== undefined ? shockMaturity(facility.maturity) : undefined,
+        })),
+      }
+    }
+  }
+}
+
+// Apply every shock that targets the counterparty, in the order they appear in the scenario
+export function applyWhatIfScenario(counterparty: Counterparty, scenario: Pick<WhatIfScenario, "shocks">) {
+  const shocks = scenario.shocks.filter((shock) => matchesWhatIfTarget(counterparty, shock.target))
+  return {
+    counterparty: shocks.reduce(applyWhatIfShock, counterparty),
+    shocksApplied: shocks.length,
+  }
+}
+
+const toTotals = (result: RwaResult): WhatIfTotals => ({
+  ead: result.ead,
+  rwa: result.rwa,
+  expectedLoss: result.expectedLoss.expectedLoss,
+})
+
+const sumTotals = (rows: WhatIfTotals[]): WhatIfTotals =>
+  rows.reduce(
+    (acc, row) => ({
+      ead: acc.ead + row.ead,
+      rwa: acc.rwa + row.rwa,
+      expectedLoss: acc.expectedLoss + row.expectedLoss,
+    }),
+    { ead: 0, rwa: 0, expectedLoss: 0 },
+  )
+
+// Run a scenario against the current portfolio and compare it with the baseline under the same options
+export function runWhatIfScenario(
+  counterparties: Counterparty[],
+  scenario: Pick<WhatIfScenario, "id" | "shocks">,
+  options: CalculationOptions = {},
+): WhatIfResult {
+  const rows = counterparties.map((cp): CounterpartyWhatIfResult => {
+    const baseline = toTotals(calculateRWA(cp, options))
+    const shocked = applyWhatIfScenario(cp, scenario)
+    const scenarioTotals = shocked.shocksApplied > 0 ? toTotals(calculateRWA(shocked.counterparty, options)) : baseline
+
+    return {
+      id: cp.id,
+      name: cp.name,
+      industry: cp.industry,
+      region: cp.region,
+      shocksApplied: shocked.shocksApplied,
+      baseline,
+      scenario: scenarioTotals,
+      rwaChange: scenarioTotals.rwa - baseline.rwa,
+    }
+  })
+
+  return {
+    scenarioId: scenario.id,
+    baseline: sumTotals(rows.map((row) => row.baseline)),
+    scenario: sumTotals(rows.map((row) => row.scenario)),
+    counterparties: rows
+      .filter((row) => row.shocksApplied > 0)
+      .sort((a, b) => Math.abs(b.rwaChange) - Math.abs(a.rwaChange)),
+  }
+}
+
+// Saved scenarios from browser storage; entries that no longer match the schema are dropped
+export function loadWhatIfScenarios(): WhatIfScenario[] {
+  if (typeof window === "undefined") return []
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(WHAT_IF_STORAGE_KEY) ?? "[]")
+    if (!Array.isArray(stored)) return []
+    return stored.flatMap((item) => {
+      const parsed = whatIfScenarioSchema.safeParse(item)
+      return parsed.success ? [parsed.data] : []
+    })
+  } catch {
+    return []
+  }
+}
+
+export function saveWhatIfScenarios(scenarios: WhatIfScenario[]) {
+  if (typeof window === "undefined") return
+  window.localStorage.setItem(WHAT_IF_STORAGE_KEY, JSON.stringify(scenarios))
+  window.dispatchEvent(new Event(WHAT_IF_LIBRARY_EVENT))
+}
+
+// Add a scenario to the saved library, e.g. from another analysis tool
+export function addWhatIfScenario(scenario: WhatIfScenario) {
+  saveWhatIfScenarios([...loadWhatIfScenarios(), scenario])
+}
@@ -0,0 +1,161 @@
+// Generates lib/module-code.ts from the engine source, so the Code tab shows the functions that actually run
+// Usage: node scripts/generate-module-code.mjs [--check]
+// --check fails without writing when a module has no mapped source or lib/module-code.ts is out of date
+
+import { readFileSync, writeFileSync } from "node:fs"
+import { dirname, join } from "node:path"
+import { fileURLToPath } from "node:url"
+import ts from "typescript"
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), "..")
+const OUTPUT_FILE = "lib/module-code.ts"
+const MODULE_DESCRIPTIONS_FILE = "lib/module-descriptions.ts"
+
+// Functions that implement each module, in the order they are shown
+const MODULE_SOURCES = {
+  exposure: [{ file: "lib/ead-calculator.ts", functions: ["calculateFacilityExposure", "calculateExposure"] }],
+  facilities: [
+    { file: "lib/ead-calculator.ts", functions: ["calculateExposure"] },
+    { file: "lib/rwa-calculator.ts", functions: ["applyRwaAdjustment"] },
+  ],
+  // calculateRWA derives the TTC PD from the PIT PD through calculateTtcPdComponents
+  pd: [{ file: "lib/ttc-pd-calculator.ts", functions: ["calculateTtcPdComponents"] }],
+  ttcpd: [{ file: "lib/ttc-pd-calculator.ts", functions: ["calculateTtcPd", "calculateTtcPdComponents"] }],
+  creditreview: [{ file: "lib/credit-ratings.ts", functions: ["getPdFromRating", "getRatingFromPd"] }],
+  lgd: [{ file: "lib/lgd-calculator.ts", functions: ["calculateFirbLgd", "calculateLgdFloor"] }],
+  collateral: [{ file: "lib/lgd-calculator.ts", functions: ["sumCollateral", "calculateFirbLgd"] }],
+  ead: [
+    { file: "lib/ead-calculator.ts", functions: ["calculateFacilityExposure", "calculateExposure", "getEffectiveCcf"] },
+  ],
+  maturity: [
+    {
+      file: "lib/rwa-calculator.ts",
+      functions: ["calculateMaturityAdjustment", "calculateEffectiveMaturity", "calculateMaturityParameter"],
+    },
+  ],
+  sme: [{ file: "lib/correlation-calculator.ts", functions: ["calculateSmeAdjustment"] }],
+  default: [{ file: "lib/default-calculator.ts", functions: ["calculateDefaultedCapital"] }],
+  slotting: [
+    {
+      file: "lib/slotting-calculator.ts",
+      functions: ["getSlottingMaturityBucket", "getSlottingRiskWeight", "getSlottingExpectedLossRate"],
+    },
+  ],
+  correlation: [
+    { file: "lib/correlation-calculator.ts", functions: ["interpolateCorrelation", "calculateBaseCorrelation"] },
+  ],
+  avc: [{ file: "lib/rwa-calculator.ts", functions: ["calculateAVCMultiplier"] }],
+  capital: [
+    {
+      file: "lib/rwa-calculator.ts",
+      functions: ["calculateCapitalRequirement", "calculateConditionalPd", "calculateSimplifiedCapitalRequirement"],
+    },
+    { file: "lib/statistics.ts", functions: ["normalCdf", "normalInv"] },
+  ],
+  rwa: [{ file: "lib/rwa-calculator.ts", functions: ["calculateRWA", "applyRwaAdjustment"] }],
+  el: [{ file: "lib/expected-loss-calculator.ts", functions: ["compareWithProvisions"] }],
+}
+
+const parseFile = (file) =>
+  ts.createSourceFile(file, readFileSync(join(ROOT, file), "utf8"), ts.ScriptTarget.Latest, true)
+
+// Module ids are the keys of moduleDescriptions, which every module in the flowchart has
+function getModuleIds() {
+  const source = parseFile(MODULE_DESCRIPTIONS_FILE)
+  for (const statement of source.statements) {
+    if (!ts.isVariableStatement(statement)) continue
+    for (const declaration of statement.declarationList.declarations) {
+      if (
+        declaration.name.getText(source) === "moduleDescriptions" &&
+        ts.isObjectLiteralExpression(declaration.initializer)
+      ) {
+        return declaration.initializer.properties.map((property) => property.name.getText(source))
+      }
+    }
+  }
+  throw new Error(`moduleDescriptions not found in ${MODULE_DESCRIPTIONS_FILE}`)
+}
+
+// Source of a top-level function with the comments directly above it
+function extractFunction(source, name) {
+  const declaration = source.statements.find(
+    (statement) => ts.isFunctionDeclaration(statement) && statement.name?.text === name,
+  )
+  if (!declaration) return null
+
+  const comments = ts.getLeadingCommentRanges(source.text, declaration.getFullStart()) ?? []
+  // Only keep the comment block that touches the declaration, not a file header further up
+  let start = declaration.getStart(source)
+  for (const comment of [...comments].reverse()) {
+    if (/\n\s*\n/.test(source.text.slice(comment.end, start))) break
+    start = comment.pos
+  }
+  return source.text.slice(start, declaration.getEnd())
+}
+
+// Escape source for a template literal
+const escapeTemplate = (value) => value.replace(/\\/g, "\\\\").replace(/`/g, "\\`").replace(/\$\{/g, "\\${")
+
+function generate() {
+  const errors = []
+  const sourceFiles = new Map()
+  const code = {}
+
+  for (const moduleId of getModuleIds()) {
+    const sources = MODULE_SOURCES[moduleId]
+    if (!sources) {
+      errors.push(`Module "${moduleId}" has no mapped source in scripts/generate-module-code.mjs`)
+      continue
+    }
+
+    code[moduleId] = sources
+      .map(({ file, functions }) => {
+        if (!sourceFiles.has(file)) sourceFiles.set(file, parseFile(file))
+        const source = sourceFiles.get(file)
+        const bodies = functions.map((name) => {
+          const body = extractFunction(source, name)
+          if (!body) errors.push(`Function ${name} for module "${moduleId}" not found in ${file}`)
+          return body
+        })
+        return [`// ${file}`, ...bodies.filter(Boolean)].join("\n\n")
+      })
+      .join("\n\n")
+  }
+
+  const entries = Object.entries(code).map(([moduleId, value]) => `  ${moduleId}: \`${escapeTemplate(value)}\`,`)
+  const output = [
+    "// This file is generated by scripts/generate-module-code.mjs from the engine source, do not edit it by hand",
+    "// Run npm run generate:module-code after changing a calculator",
+    "",
+    "export function getModuleCode(moduleId: string): string {",
+    "  const moduleCode = moduleCodeMap[moduleId.toLowerCase()]",
+    '  return moduleCode || "// Code not available for this module"',
+    "}",
+    "",
+    "const moduleCodeMap: Record<string, string> = {",
+    ...entries,
+    "}",
+    "",
+  ].join("\n")
+
+  return { output, errors }
+}
+
+const isCheck = process.argv.includes("--check")
+const { output, errors } = generate()
+
+if (errors.length > 0) {
+  errors.forEach((error) => console.error(error))
+  process.exit(1)
+}
+
+if (isCheck) {
+  if (readFileSync(join(ROOT, OUTPUT_FILE), "utf8") !== output) {
+    console.error(`${OUTPUT_FILE} is out of date, run npm run generate:module-code`)
+    process.exit(1)
+  }
+  console.log(`${OUTPUT_FILE} is up to date`)
+} else {
+  writeFileSync(join(ROOT, OUTPUT_FILE), output)
+  console.log(`Wrote ${OUTPUT_FILE}`)
+}